@@ -0,0 +1,69 @@
+// Keeps the app usable with spotty signal: pages fall back to the cached app shell, built
+// assets are served from the cache, and Background Sync wakes an open tab to replay the outbox.
+// Requests to Supabase are cross-origin and always go to the network.
+
+const CACHE_NAME = "sibulan-market-v1";
+const APP_SHELL = ["/", "/favicon.ico"];
+const OUTBOX_SYNC_TAG = "outbox";
+const REPLAY_OUTBOX_MESSAGE = "replay-outbox";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const putInCache = async (request, response) => {
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // Every route is served by index.html, so any cached copy of "/" can render it offline.
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache("/", response))
+        .catch(() => caches.match("/")),
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/")) {
+    // Built assets have content hashes in their names and never change once cached.
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response))),
+    );
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => putInCache(request, response))
+      .catch(() => caches.match(request)),
+  );
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) => clients.forEach((client) => client.postMessage({ type: REPLAY_OUTBOX_MESSAGE }))),
+  );
+});
@@ -1,10 +1,26 @@
+import { RequireStaff } from "@/components/auth/RequireStaff";
+import { OutboxSync } from "@/components/sync/OutboxSync";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import AdminAnalytics from "./pages/AdminAnalytics";
+import AdminFloorMap from "./pages/AdminFloorMap";
+import AdminRegistrations from "./pages/AdminRegistrations";
+import AdminRemittances from "./pages/AdminRemittances";
+import AdminRentSchedule from "./pages/AdminRentSchedule";
+import AdminStallLedger from "./pages/AdminStallLedger";
+import AdminStallStatement from "./pages/AdminStallStatement";
+import AdminStalls from "./pages/AdminStalls";
+import AdminStallTypes from "./pages/AdminStallTypes";
+import ApplicationStatus from "./pages/ApplicationStatus";
+import Collector from "./pages/Collector";
 import NotFound from "./pages/NotFound";
+import ReceiptPage from "./pages/ReceiptPage";
+import StaffLogin from "./pages/StaffLogin";
+import Verify from "./pages/Verify";
 
 const queryClient = new QueryClient();
 
@@ -13,9 +29,26 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <OutboxSync />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route element={<RequireStaff />}>
+            <Route path="/admin/stalls" element={<AdminStalls />} />
+            <Route path="/admin/stalls/:stallId" element={<AdminStallLedger />} />
+            <Route path="/admin/stalls/:stallId/statement" element={<AdminStallStatement />} />
+            <Route path="/admin/registrations" element={<AdminRegistrations />} />
+            <Route path="/admin/map" element={<AdminFloorMap />} />
+            <Route path="/admin/stall-types" element={<AdminStallTypes />} />
+            <Route path="/admin/rent" element={<AdminRentSchedule />} />
+            <Route path="/admin/remittances" element={<AdminRemittances />} />
+            <Route path="/admin/analytics" element={<AdminAnalytics />} />
+            <Route path="/collect" element={<Collector />} />
+            <Route path="/verify" element={<Verify />} />
+          </Route>
+          <Route path="/receipts/:orNumber" element={<ReceiptPage />} />
+          <Route path="/status" element={<ApplicationStatus />} />
+          <Route path="/login" element={<StaffLogin />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
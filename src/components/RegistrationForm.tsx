@@ -1,87 +1,276 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type FormEvent } from "react";
+import { Link } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
-import { Store, User, Building2, CheckCircle2 } from "lucide-react";
-import { BASE_TYPE_OPTIONS } from "@/data/stalls";
+import { DocumentUploadField } from "@/components/registrations/DocumentUploadField";
+import { StallPicker } from "@/components/registrations/StallPicker";
+import { SyncStatusBadge } from "@/components/sync/SyncStatusBadge";
+import { Store, User, Building2, CheckCircle2, CloudUpload, FileText, ClipboardCheck, type LucideIcon } from "lucide-react";
+import {
+  DEFAULT_MUNICIPALITY,
+  DEFAULT_PROVINCE,
+  SIBULAN_BARANGAYS,
+  formatAddress,
+  isSibulan,
+  isSibulanBarangay,
+} from "@/data/address";
+import { isNetworkError, isOffline } from "@/data/outbox";
+import { STALL_HOLD_MINUTES, type StallRecord } from "@/data/stalls";
+import { activeStallTypeNames, findStallType } from "@/data/stallTypes";
+import {
+  REGISTRATION_REQUIREMENTS,
+  REGISTRATION_REQUIREMENT_LABELS,
+  registrationSchema,
+  type RegistrationFormData,
+  type RegistrationRecord,
+} from "@/data/registrations";
+import {
+  useCheckRegistrationConflicts,
+  useCreateRegistration,
+  useQueueRegistration,
+  useRegistrationToken,
+  type RegistrationFiles,
+} from "@/hooks/use-registrations";
+import { useRegistrationDraft } from "@/hooks/use-registration-draft";
+import { useStallTypes } from "@/hooks/use-stall-types";
+import { useApplicantStalls, useHoldStall, useReleaseStall } from "@/hooks/use-stalls";
+import { formatPeso } from "@/lib/format";
+import { formatPhilippinePhone } from "@/lib/phone";
 import QRCode from "qrcode";
 
-const registrationSchema = z.object({
-  firstName: z.string().trim().min(2, "First name must be at least 2 characters").max(100),
-  lastName: z.string().trim().min(2, "Last name must be at least 2 characters").max(100),
-  phone: z.string().trim().min(10, "Phone number must be at least 10 digits").max(20),
-  address: z.string().trim().min(10, "Address must be at least 10 characters").max(500),
-  stallName: z.string().trim().min(2, "Stall name required").max(200),
-  stallType: z.string().min(1, "Please select a stall type"),
-  monthlyRent: z.coerce.number().positive("Rent must be a positive number."),
-});
+type WizardStep = {
+  title: string;
+  icon: LucideIcon;
+  fields: (keyof RegistrationFormData)[];
+};
+
+const STEPS: WizardStep[] = [
+  {
+    title: "Personal Information",
+    icon: User,
+    fields: ["firstName", "lastName", "phone", "street", "barangay", "municipality", "province"],
+  },
+  { title: "Stall Information", icon: Building2, fields: ["stallType", "requestedStallDbId"] },
+  { title: "Documents", icon: FileText, fields: [] },
+  { title: "Review & Confirm", icon: ClipboardCheck, fields: [] },
+];
+
+const LAST_STEP = STEPS.length - 1;
 
-type RegistrationFormData = z.infer<typeof registrationSchema>;
-type SubmittedData = RegistrationFormData & { registrationId: string };
+const EMPTY_ADDRESS: Partial<RegistrationFormData> = {
+  municipality: DEFAULT_MUNICIPALITY,
+  province: DEFAULT_PROVINCE,
+};
+
+const SummaryRow = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex justify-between gap-4 py-2 border-b last:border-b-0">
+    <dt className="text-muted-foreground">{label}</dt>
+    <dd className="font-medium text-right">{value}</dd>
+  </div>
+);
 
 export const RegistrationForm = () => {
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [submittedData, setSubmittedData] = useState<SubmittedData | null>(null);
+  const [submittedData, setSubmittedData] = useState<RegistrationRecord | null>(null);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+  const [queuedOffline, setQueuedOffline] = useState(false);
+  const createRegistration = useCreateRegistration();
+  const queueRegistration = useQueueRegistration();
+  const checkConflicts = useCheckRegistrationConflicts();
+  const [existingRegistrationId, setExistingRegistrationId] = useState<string | null>(null);
+  const [files, setFiles] = useState<RegistrationFiles>({});
+  const { initialDraft, holder, saveDraft, clearDraft } = useRegistrationDraft();
+  const { data: stalls = [], isLoading: stallsLoading } = useApplicantStalls(holder);
+  const { data: stallTypes = [] } = useStallTypes();
+  const holdStall = useHoldStall();
+  const releaseStall = useReleaseStall();
+  const [step, setStep] = useState(() => Math.min(Math.max(initialDraft?.step ?? 0, 0), LAST_STEP));
 
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
+    setError,
+    trigger,
+    watch,
     reset,
     formState: { errors, isSubmitting },
   } = useForm<RegistrationFormData>({
     resolver: zodResolver(registrationSchema),
+    defaultValues: { ...EMPTY_ADDRESS, ...initialDraft?.values },
   });
 
   useEffect(() => {
-    if (submittedData) {
-      const generateQrCode = async () => {
-        try {
-          const dataUrl = await QRCode.toDataURL(JSON.stringify(submittedData));
-          setQrCodeDataUrl(dataUrl);
-        } catch (err) {
+    if (isSubmitted) return;
+    saveDraft(step, getValues());
+    const subscription = watch((values) => saveDraft(step, values));
+    return () => subscription.unsubscribe();
+  }, [step, isSubmitted, watch, getValues, saveDraft]);
+
+  const { data: qrToken, error: qrTokenError } = useRegistrationToken(submittedData?.registrationId);
+
+  useEffect(() => {
+    if (qrTokenError) {
+      console.error("Failed to issue QR code", qrTokenError);
+      toast.error("Could not generate QR code.");
+      return;
+    }
+    if (qrToken) {
+      QRCode.toDataURL(qrToken)
+        .then(setQrCodeDataUrl)
+        .catch((err) => {
           console.error("Failed to generate QR code", err);
           toast.error("Could not generate QR code.");
-        }
-      };
-      generateQrCode();
+        });
     }
-  }, [submittedData]);
+  }, [qrToken, qrTokenError]);
+
+  const goToStep = (next: number) => {
+    setStep(next);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Without a connection the application waits on this device and is submitted once back online.
+  const queueOffline = async (data: RegistrationFormData) => {
+    try {
+      await queueRegistration.mutateAsync({ data, files, holder });
+      clearDraft();
+      setQueuedOffline(true);
+      setIsSubmitted(true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to save registration on this device. ${message}`);
+    }
+  };
 
   const onSubmit = async (data: RegistrationFormData) => {
+    if (isOffline()) {
+      await queueOffline(data);
+      return;
+    }
     try {
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      
-      const submissionData = {
-        ...data,
-        registrationId: `REG-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      };
-
-      console.log("Form submitted:", submissionData);
-      setSubmittedData(submissionData);
+      const stall = stalls.find((candidate) => candidate.dbId === data.requestedStallDbId);
+      const conflicts = await checkConflicts.mutateAsync({ ...data, stallName: stall?.name });
+      setExistingRegistrationId(conflicts.existingRegistrationId);
+      if (conflicts.existingRegistrationId) return;
+      if (conflicts.stallUnavailable) {
+        setError("requestedStallDbId", {
+          message: "This stall is already occupied or requested by another applicant. Please choose another.",
+        });
+        goToStep(1);
+        return;
+      }
+
+      const record = await createRegistration.mutateAsync({ data, files, holder });
+      clearDraft();
+      setSubmittedData(record);
       setIsSubmitted(true);
       toast.success("Registration submitted successfully!");
     } catch (error) {
-      toast.error("Failed to submit registration. Please try again.");
+      if (isNetworkError(error)) {
+        await queueOffline(data);
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to submit registration. ${message}`);
     }
   };
 
   const handleAnotherRegistration = () => {
     setIsSubmitted(false);
+    setQueuedOffline(false);
     setSubmittedData(null);
     setQrCodeDataUrl(null);
-    reset();
+    setStep(0);
+    setFiles({});
+    setExistingRegistrationId(null);
+    reset(EMPTY_ADDRESS);
+  };
+
+  const handleNext = async () => {
+    const valid = await trigger(STEPS[step].fields);
+    if (valid) goToStep(Math.min(step + 1, LAST_STEP));
   };
 
+  // Enter on an earlier step advances instead of submitting an incomplete application.
+  const handleFormSubmit = (event: FormEvent<HTMLFormElement>) => {
+    if (step < LAST_STEP) {
+      event.preventDefault();
+      handleNext();
+      return;
+    }
+    handleSubmit(onSubmit)(event);
+  };
+
+  const handleMunicipalityChange = (municipality: string) => {
+    // The picker only offers Sibulan's barangays, so drop a barangay typed for another town.
+    if (isSibulan(municipality) && !isSibulanBarangay(getValues("barangay") ?? "")) {
+      setValue("barangay", "");
+    }
+  };
+
+  const handleStallTypeChange = (stallType: string) => {
+    setValue("stallType", stallType, { shouldValidate: true });
+    const requestedStallDbId = getValues("requestedStallDbId");
+    if (requestedStallDbId) {
+      setValue("requestedStallDbId", undefined);
+      releaseStall.mutate({ dbId: requestedStallDbId, holder });
+    }
+  };
+
+  const handleStallSelect = async (stall: StallRecord) => {
+    try {
+      await holdStall.mutateAsync({ dbId: stall.dbId, holder, previousDbId: getValues("requestedStallDbId") });
+      setValue("requestedStallDbId", stall.dbId, { shouldValidate: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Could not reserve ${stall.name}. ${message}`);
+    }
+  };
+
+  const values = watch();
+  const selectedStall = stalls.find((stall) => stall.dbId === Number(values.requestedStallDbId));
+  const selectedType = findStallType(stallTypes, values.stallType ?? "");
+  const heldUntil = selectedStall?.heldBy === holder ? selectedStall.heldUntil : null;
+  const inSibulan = isSibulan(values.municipality ?? "");
+  const CurrentIcon = STEPS[step].icon;
+
+  if (isSubmitted && queuedOffline) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-[image:var(--gradient-bg)]">
+        <Card className="w-full max-w-2xl shadow-2xl border-2">
+          <CardContent className="pt-12 pb-12 text-center">
+            <div className="mb-6 flex justify-center">
+              <div className="rounded-full bg-amber-100 p-6">
+                <CloudUpload className="h-16 w-16 text-amber-600" />
+              </div>
+            </div>
+            <h2 className="text-3xl font-bold mb-4 text-foreground">Saved on This Device</h2>
+            <p className="text-muted-foreground text-lg mb-8">
+              You are offline, so your registration will be submitted automatically when this device is back online.
+              The market office issues your registration ID once it is received.
+            </p>
+            <Button
+              onClick={handleAnotherRegistration}
+              className="bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity"
+            >
+              Submit Another Registration
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (isSubmitted && submittedData) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4 bg-[image:var(--gradient-bg)]">
@@ -96,7 +285,7 @@ export const RegistrationForm = () => {
             <p className="text-muted-foreground text-lg mb-8">
               Thank you for registering. Please present this QR code for verification.
             </p>
-            <div className="mb-8 flex justify-center">
+            <div className="mb-8 flex flex-col items-center gap-3">
               <div className="p-4 bg-white rounded-lg border">
                 {qrCodeDataUrl ? (
                   <img src={qrCodeDataUrl} alt="QR Code" />
@@ -104,6 +293,16 @@ export const RegistrationForm = () => {
                   <p>Generating QR code...</p>
                 )}
               </div>
+              <p className="text-sm text-muted-foreground">
+                Registration ID: <span className="font-mono font-medium text-foreground">{submittedData.registrationId}</span>
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Keep this ID to{" "}
+                <Link to="/status" className="text-primary underline">
+                  check your application status
+                </Link>
+                .
+              </p>
             </div>
             <Button 
               onClick={handleAnotherRegistration} 
@@ -129,134 +328,309 @@ export const RegistrationForm = () => {
               <CardTitle className="text-3xl font-bold">Sibulan Market Stall Rental</CardTitle>
               <CardDescription className="text-base mt-1">Registration Form</CardDescription>
             </div>
+            <SyncStatusBadge className="ml-auto self-start" />
           </div>
           <p className="text-sm text-muted-foreground">
-            Please fill out all required fields to register for a market stall rental.
+            Please fill out all required fields to register for a market stall rental. Your answers are saved on this
+            device as you type.
           </p>
+          <div className="space-y-2 pt-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">
+                Step {step + 1} of {STEPS.length}: {STEPS[step].title}
+              </span>
+              <span className="text-muted-foreground">{Math.round(((step + 1) / STEPS.length) * 100)}%</span>
+            </div>
+            <Progress value={((step + 1) / STEPS.length) * 100} className="h-2" />
+          </div>
         </CardHeader>
 
         <CardContent className="pt-8">
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
-            {/* Personal Information */}
+          <form onSubmit={handleFormSubmit} className="space-y-8">
             <div className="space-y-6">
               <div className="flex items-center gap-2 pb-2 border-b">
-                <User className="h-5 w-5 text-primary" />
-                <h3 className="text-xl font-semibold">Personal Information</h3>
+                <CurrentIcon className="h-5 w-5 text-primary" />
+                <h3 className="text-xl font-semibold">{STEPS[step].title}</h3>
               </div>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-2">
-                  <Label htmlFor="firstName">First Name *</Label>
-                  <Input
-                    id="firstName"
-                    {...register("firstName")}
-                    className={errors.firstName ? "border-destructive" : ""}
-                  />
-                  {errors.firstName && (
-                    <p className="text-sm text-destructive">{errors.firstName.message}</p>
-                  )}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="lastName">Last Name *</Label>
-                  <Input
-                    id="lastName"
-                    {...register("lastName")}
-                    className={errors.lastName ? "border-destructive" : ""}
-                  />
-                  {errors.lastName && (
-                    <p className="text-sm text-destructive">{errors.lastName.message}</p>
-                  )}
-                </div>
-              </div>
+              {step === 0 && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="firstName">First Name *</Label>
+                      <Input
+                        id="firstName"
+                        {...register("firstName")}
+                        className={errors.firstName ? "border-destructive" : ""}
+                      />
+                      {errors.firstName && (
+                        <p className="text-sm text-destructive">{errors.firstName.message}</p>
+                      )}
+                    </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="phone">Phone Number *</Label>
-                <Input
-                  id="phone"
-                  {...register("phone")}
-                  placeholder="+63 XXX XXX XXXX"
-                  className={errors.phone ? "border-destructive" : ""}
-                />
-                {errors.phone && (
-                  <p className="text-sm text-destructive">{errors.phone.message}</p>
-                )}
-              </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lastName">Last Name *</Label>
+                      <Input
+                        id="lastName"
+                        {...register("lastName")}
+                        className={errors.lastName ? "border-destructive" : ""}
+                      />
+                      {errors.lastName && (
+                        <p className="text-sm text-destructive">{errors.lastName.message}</p>
+                      )}
+                    </div>
+                  </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="address">Complete Address *</Label>
-                <Textarea
-                  id="address"
-                  {...register("address")}
-                  rows={3}
-                  className={errors.address ? "border-destructive" : ""}
-                />
-                {errors.address && (
-                  <p className="text-sm text-destructive">{errors.address.message}</p>
-                )}
-              </div>
-            </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Phone Number *</Label>
+                    <Input
+                      id="phone"
+                      {...register("phone", {
+                        onBlur: (event) => setValue("phone", formatPhilippinePhone(event.target.value)),
+                      })}
+                      placeholder="0917 123 4567"
+                      inputMode="tel"
+                      className={errors.phone ? "border-destructive" : ""}
+                    />
+                    {errors.phone && (
+                      <p className="text-sm text-destructive">{errors.phone.message}</p>
+                    )}
+                  </div>
 
-            {/* Stall Information */}
-            <div className="space-y-6">
-              <div className="flex items-center gap-2 pb-2 border-b">
-                <Building2 className="h-5 w-5 text-primary" />
-                <h3 className="text-xl font-semibold">Stall Information</h3>
-              </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="street">House No., Street / Purok *</Label>
+                    <Input
+                      id="street"
+                      {...register("street")}
+                      className={errors.street ? "border-destructive" : ""}
+                    />
+                    {errors.street && (
+                      <p className="text-sm text-destructive">{errors.street.message}</p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="barangay">Barangay *</Label>
+                      {inSibulan ? (
+                        <Select
+                          value={values.barangay ?? ""}
+                          onValueChange={(value) => setValue("barangay", value, { shouldValidate: true })}
+                        >
+                          <SelectTrigger id="barangay" className={errors.barangay ? "border-destructive" : ""}>
+                            <SelectValue placeholder="Select barangay" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SIBULAN_BARANGAYS.map((barangay) => (
+                              <SelectItem key={barangay} value={barangay}>{barangay}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          id="barangay"
+                          {...register("barangay")}
+                          className={errors.barangay ? "border-destructive" : ""}
+                        />
+                      )}
+                      {errors.barangay && (
+                        <p className="text-sm text-destructive">{errors.barangay.message}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="municipality">Municipality / City *</Label>
+                      <Input
+                        id="municipality"
+                        {...register("municipality", {
+                          onChange: (event) => handleMunicipalityChange(event.target.value),
+                        })}
+                        className={errors.municipality ? "border-destructive" : ""}
+                      />
+                      {errors.municipality && (
+                        <p className="text-sm text-destructive">{errors.municipality.message}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="province">Province *</Label>
+                      <Input
+                        id="province"
+                        {...register("province")}
+                        className={errors.province ? "border-destructive" : ""}
+                      />
+                      {errors.province && (
+                        <p className="text-sm text-destructive">{errors.province.message}</p>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-2">
-                  <Label htmlFor="stallName">Stall Name *</Label>
-                  <Input
-                    id="stallName"
-                    {...register("stallName")}
-                    className={errors.stallName ? "border-destructive" : ""}
-                  />
-                  {errors.stallName && (
-                    <p className="text-sm text-destructive">{errors.stallName.message}</p>
+              {step === 1 && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="stallType">Stall Type *</Label>
+                    <Select value={values.stallType ?? ""} onValueChange={handleStallTypeChange}>
+                      <SelectTrigger id="stallType" className={errors.stallType ? "border-destructive" : ""}>
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeStallTypeNames(stallTypes).map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.stallType && (
+                      <p className="text-sm text-destructive">{errors.stallType.message}</p>
+                    )}
+                    {selectedType?.description && (
+                      <p className="text-sm text-muted-foreground">{selectedType.description}</p>
+                    )}
+                    {selectedType && selectedType.requiredPermits.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        {selectedType.name} vendors also need: {selectedType.requiredPermits.join(", ")}. Bring these
+                        to the market office before your stall is turned over.
+                      </p>
+                    )}
+                  </div>
+
+                  {values.stallType && (
+                    <div className="space-y-2">
+                      <Label>Available Stalls *</Label>
+                      {stallsLoading ? (
+                        <p className="text-sm text-muted-foreground">Loading stalls...</p>
+                      ) : (
+                        <StallPicker
+                          stalls={stalls}
+                          stallType={values.stallType}
+                          holder={holder}
+                          selectedDbId={selectedStall?.dbId}
+                          onSelect={handleStallSelect}
+                          disabled={holdStall.isPending}
+                        />
+                      )}
+                      {errors.requestedStallDbId && (
+                        <p className="text-sm text-destructive">{errors.requestedStallDbId.message}</p>
+                      )}
+                    </div>
                   )}
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="stallType">Stall Type *</Label>
-                  <Select onValueChange={(value) => setValue("stallType", value)}>
-                    <SelectTrigger className={errors.stallType ? "border-destructive" : ""}>
-                      <SelectValue placeholder="Select type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {BASE_TYPE_OPTIONS.map((type) => (
-                        <SelectItem key={type} value={type}>{type}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {errors.stallType && (
-                    <p className="text-sm text-destructive">{errors.stallType.message}</p>
+                  {selectedStall && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="monthlyRent">Monthly Rent</Label>
+                        <Input id="monthlyRent" value={formatPeso(selectedStall.monthlyRent)} readOnly disabled />
+                        <p className="text-xs text-muted-foreground">Rent is set by the market office.</p>
+                      </div>
+                      <p className="self-end text-sm text-muted-foreground">
+                        {heldUntil && new Date(heldUntil) > new Date()
+                          ? `${selectedStall.name} is held for you until ${new Date(heldUntil).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}.`
+                          : `Stalls are held for ${STALL_HOLD_MINUTES} minutes. Your hold is renewed when you submit, if the stall is still free.`}
+                      </p>
+                    </div>
                   )}
+                </>
+              )}
+
+              {step === 2 && (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Upload a clear photo or PDF of each document. You may submit without some of them and bring the
+                    originals to the market office instead. Files are not saved in your draft, so attach them before
+                    leaving this page.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {REGISTRATION_REQUIREMENTS.map((requirement) => (
+                      <DocumentUploadField
+                        key={requirement}
+                        requirement={requirement}
+                        file={files[requirement]}
+                        onChange={(file) => setFiles((current) => ({ ...current, [requirement]: file }))}
+                      />
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
-              <div className="space-y-2">
-                <Label htmlFor="monthlyRent">Monthly Rent (PHP) *</Label>
-                <Input
-                  id="monthlyRent"
-                  type="number"
-                  {...register("monthlyRent")}
-                  className={errors.monthlyRent ? "border-destructive" : ""}
-                />
-                {errors.monthlyRent && (
-                  <p className="text-sm text-destructive">{errors.monthlyRent.message}</p>
-                )}
-              </div>
+              {step === LAST_STEP && (
+                <div className="space-y-6">
+                  {existingRegistrationId && (
+                    <Alert variant="destructive">
+                      <AlertTitle>You have already applied</AlertTitle>
+                      <AlertDescription>
+                        An application with this name and phone number is on file as{" "}
+                        <span className="font-mono">{existingRegistrationId}</span>. Please{" "}
+                        <Link to="/status" className="underline">
+                          check its status
+                        </Link>{" "}
+                        instead of applying again, or visit the market office if your details have changed.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Please check your details. Use Back to make changes before submitting.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="rounded-lg border p-4">
+                      <h4 className="font-semibold mb-2">Personal Information</h4>
+                      <dl className="text-sm">
+                        <SummaryRow label="Name" value={`${values.firstName ?? ""} ${values.lastName ?? ""}`.trim()} />
+                        <SummaryRow label="Phone" value={formatPhilippinePhone(values.phone ?? "")} />
+                        <SummaryRow label="Address" value={formatAddress(values)} />
+                      </dl>
+                    </div>
+                    <div className="rounded-lg border p-4">
+                      <h4 className="font-semibold mb-2">Stall Information</h4>
+                      <dl className="text-sm">
+                        <SummaryRow label="Stall" value={selectedStall?.name ?? "—"} />
+                        <SummaryRow label="Type" value={values.stallType ?? ""} />
+                        <SummaryRow label="Monthly rent" value={selectedStall ? formatPeso(selectedStall.monthlyRent) : "—"} />
+                      </dl>
+                    </div>
+                  </div>
+                  <div className="rounded-lg border p-4">
+                    <h4 className="font-semibold mb-2">Documents</h4>
+                    <dl className="text-sm">
+                      {REGISTRATION_REQUIREMENTS.map((requirement) => (
+                        <SummaryRow
+                          key={requirement}
+                          label={REGISTRATION_REQUIREMENT_LABELS[requirement]}
+                          value={files[requirement]?.name ?? "Not attached — bring to the market office"}
+                        />
+                      ))}
+                    </dl>
+                  </div>
+                </div>
+              )}
             </div>
 
-            <div className="pt-4">
+            <div className="pt-4 flex flex-col-reverse gap-3 md:flex-row md:justify-between">
               <Button
-                type="submit"
-                disabled={isSubmitting}
-                className="w-full md:w-auto bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity text-lg py-6 px-8"
+                type="button"
+                variant="outline"
+                onClick={() => goToStep(step - 1)}
+                disabled={step === 0 || isSubmitting}
+                className="py-6 px-8"
               >
-                {isSubmitting ? "Submitting..." : "Submit Registration"}
+                Back
               </Button>
+              {step < LAST_STEP ? (
+                <Button
+                  type="submit"
+                  className="bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity text-lg py-6 px-8"
+                >
+                  Next
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity text-lg py-6 px-8"
+                >
+                  {isSubmitting ? "Submitting..." : "Submit Registration"}
+                </Button>
+              )}
             </div>
           </form>
         </CardContent>
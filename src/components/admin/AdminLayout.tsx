@@ -0,0 +1,71 @@
+import type { ReactNode } from "react";
+import { NavLink } from "react-router-dom";
+import { Store } from "lucide-react";
+import { SignOutButton } from "@/components/auth/SignOutButton";
+import { SyncStatusBadge } from "@/components/sync/SyncStatusBadge";
+import { useRecomputeStallStatuses } from "@/hooks/use-stalls";
+import { cn } from "@/lib/utils";
+
+const NAV_ITEMS = [
+  { to: "/admin/stalls", label: "Stalls" },
+  { to: "/admin/registrations", label: "Registrations" },
+  { to: "/admin/map", label: "Floor Map" },
+  { to: "/admin/stall-types", label: "Stall Types" },
+  { to: "/admin/rent", label: "Rent Schedule" },
+  { to: "/admin/remittances", label: "Remittances" },
+  { to: "/admin/analytics", label: "Analytics" },
+  { to: "/collect", label: "Collect" },
+];
+
+type AdminLayoutProps = {
+  title: string;
+  description?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+};
+
+export const AdminLayout = ({ title, description, actions, children }: AdminLayoutProps) => {
+  useRecomputeStallStatuses();
+
+  return (
+    <div className="min-h-screen bg-[image:var(--gradient-bg)] print:bg-white">
+      <header className="border-b bg-card print:hidden">
+        <div className="container flex h-16 items-center gap-6">
+          <div className="flex items-center gap-2 font-semibold">
+            <div className="p-1.5 rounded-md bg-[image:var(--gradient-primary)]">
+              <Store className="h-5 w-5 text-white" />
+            </div>
+            <span>Sibulan Market Office</span>
+          </div>
+          <nav className="flex items-center gap-4 text-sm">
+            {NAV_ITEMS.map((item) => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                className={({ isActive }) =>
+                  cn("transition-colors hover:text-foreground", isActive ? "text-foreground font-medium" : "text-muted-foreground")
+                }
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+          <div className="ml-auto flex items-center gap-3">
+            <SyncStatusBadge />
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+      <main className="container py-8 space-y-6 print:p-0">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between print:hidden">
+          <div>
+            <h1 className="text-3xl font-bold">{title}</h1>
+            {description && <p className="text-muted-foreground mt-1">{description}</p>}
+          </div>
+          {actions && <div className="flex items-center gap-2">{actions}</div>}
+        </div>
+        {children}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { AlertTriangle } from "lucide-react";
+import { RegistrationStatusBadge } from "@/components/registrations/RegistrationStatusBadge";
+import { isSameApplicant, type DuplicateReport } from "@/data/duplicates";
+import { applicantName } from "@/data/registrations";
+import { formatStallDisplay } from "@/data/stalls";
+import { formatPhilippinePhone } from "@/lib/phone";
+
+export const DuplicateWarnings = ({ report }: { report: DuplicateReport }) => (
+  <div className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-950">
+    <h4 className="flex items-center gap-2 font-semibold">
+      <AlertTriangle className="h-4 w-4" />
+      Possible duplicates
+    </h4>
+    {report.applicants.length > 0 && (
+      <ul className="space-y-2">
+        {report.applicants.map(({ registration, samePhone, similarity }) => (
+          <li key={registration.registrationId} className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{applicantName(registration)}</span>
+            <span>{formatPhilippinePhone(registration.phone)}</span>
+            <span className="font-mono text-xs">{registration.registrationId}</span>
+            <RegistrationStatusBadge status={registration.status} />
+            <span className="text-xs">
+              {isSameApplicant({ samePhone, similarity })
+                ? "Same applicant"
+                : samePhone
+                  ? "Same phone number"
+                  : `Similar name (${Math.round(similarity * 100)}%)`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+    {report.stalls.length > 0 && (
+      <ul className="space-y-2">
+        {report.stalls.map((conflict) =>
+          conflict.kind === "occupied" ? (
+            <li key={`stall-${conflict.stall.dbId}`}>
+              Stall already occupied: <span className="font-medium">{formatStallDisplay(conflict.stall)}</span>
+            </li>
+          ) : (
+            <li key={`request-${conflict.registration.registrationId}`} className="flex flex-wrap items-center gap-2">
+              Same stall requested by <span className="font-medium">{applicantName(conflict.registration)}</span>
+              <span className="font-mono text-xs">{conflict.registration.registrationId}</span>
+              <RegistrationStatusBadge status={conflict.registration.status} />
+            </li>
+          ),
+        )}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,59 @@
+import { Fragment } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from "@/lib/csv";
+
+export type ExportOption = {
+  label: string; // what is exported, e.g. "Stalls"
+  count: number;
+  onExport: (format: ExportFormat) => Promise<void>;
+};
+
+type ExportMenuProps = {
+  options: ExportOption[];
+  disabled?: boolean;
+};
+
+const runExport = async (option: ExportOption, format: ExportFormat) => {
+  try {
+    await option.onExport(format);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Please try again.";
+    toast.error(`Failed to export ${option.label.toLowerCase()}. ${message}`);
+  }
+};
+
+export const ExportMenu = ({ options, disabled }: ExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" disabled={disabled}>
+        <Download className="mr-1 h-4 w-4" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {options.map((option, index) => (
+        <Fragment key={option.label}>
+          {index > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuLabel>
+            {option.label} ({option.count})
+          </DropdownMenuLabel>
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <DropdownMenuItem key={format} disabled={option.count === 0} onSelect={() => runExport(option, format)}>
+              {EXPORT_FORMAT_LABELS[format]}
+            </DropdownMenuItem>
+          ))}
+        </Fragment>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,211 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { useNavigate } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PAYMENT_METHOD_LABELS, paymentSchema, type PaymentFormData, type PaymentMethod } from "@/data/payments";
+import { computeAmountDue } from "@/data/penalties";
+import { closedDayMessage, findClosingRemittance } from "@/data/remittances";
+import { formatStallDisplay, type StallRecord } from "@/data/stalls";
+import { useRecordPayment, useStallPayments } from "@/hooks/use-payments";
+import { useStallPenaltyWaivers } from "@/hooks/use-penalties";
+import { useDayRemittances } from "@/hooks/use-remittances";
+import { formatDate, formatPeso } from "@/lib/format";
+
+type RecordPaymentDialogProps = {
+  stall: StallRecord;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const defaultValues = (stall: StallRecord): PaymentFormData => ({
+  amount: stall.monthlyRent,
+  method: "cash",
+  collector: "",
+  paidOn: format(new Date(), "yyyy-MM-dd"),
+  notes: "",
+});
+
+export const RecordPaymentDialog = ({ stall, open, onOpenChange }: RecordPaymentDialogProps) => {
+  const recordPayment = useRecordPayment();
+  const navigate = useNavigate();
+  const { data: payments } = useStallPayments(open ? stall.dbId : null);
+  const { data: waivers } = useStallPenaltyWaivers(open ? stall.dbId : null);
+  const form = useForm<PaymentFormData>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: defaultValues(stall),
+  });
+
+  const paidOn = form.watch("paidOn");
+  const amount = Number(form.watch("amount")) || 0;
+  const collector = form.watch("collector")?.trim() ?? "";
+  const { data: remittances = [] } = useDayRemittances(open && paidOn ? paidOn : "");
+  const dayClosed = collector !== "" && Boolean(findClosingRemittance(remittances, collector, paidOn));
+  const due = payments && waivers && paidOn ? computeAmountDue(stall, payments, waivers, paidOn) : null;
+  // Surcharges are settled before rent, so that is how the amount entered will be split.
+  const towardSurcharge = due ? Math.min(amount, due.surcharge) : 0;
+
+  useEffect(() => {
+    if (open) form.reset(defaultValues(stall));
+  }, [open, stall, form]);
+
+  const onSubmit = async (data: PaymentFormData) => {
+    try {
+      const { payment, receipt, queued } = await recordPayment.mutateAsync({ stall, data });
+      onOpenChange(false);
+      if (queued) {
+        toast.success(`Saved ${formatPeso(data.amount)} for ${stall.name} offline`, {
+          description: "The receipt will be issued when it syncs.",
+        });
+        return;
+      }
+      toast.success(`Recorded ${formatPeso(payment.amount)} for ${stall.name}`);
+      navigate(`/receipts/${receipt.orNumber}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to record payment. ${message}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {formatStallDisplay(stall)} · {formatPeso(stall.monthlyRent)} per month
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {due && due.total > 0 && (
+              <div className="rounded-md border bg-muted/40 p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">Due as of {formatDate(paidOn)}</span>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => form.setValue("amount", due.total, { shouldValidate: true })}
+                  >
+                    Pay {formatPeso(due.total)}
+                  </Button>
+                </div>
+                <div className="mt-1 grid grid-cols-3 gap-2 text-muted-foreground">
+                  <span>Rent {formatPeso(due.principal)}</span>
+                  <span>Surcharge {formatPeso(due.surcharge)}</span>
+                  <span>{due.lines.length} {due.lines.length === 1 ? "month" : "months"} unpaid</span>
+                </div>
+                {towardSurcharge > 0 && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    {formatPeso(towardSurcharge)} of this payment goes to surcharges and{" "}
+                    {formatPeso(Math.max(0, amount - towardSurcharge))} to rent.
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount (PHP) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="paidOn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date Paid *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="collector"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Collector *</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {dayClosed && <p className="text-sm text-destructive">{closedDayMessage(collector, paidOn)}</p>}
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={recordPayment.isPending || dayClosed}>
+                {recordPayment.isPending ? "Saving..." : "Record Payment"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { DuplicateWarnings } from "@/components/admin/DuplicateWarnings";
+import { DocumentAttachments } from "@/components/registrations/DocumentAttachments";
+import { RegistrationStatusBadge } from "@/components/registrations/RegistrationStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatAddress } from "@/data/address";
+import { hasDuplicates, type DuplicateReport } from "@/data/duplicates";
+import {
+  REGISTRATION_REQUIREMENTS,
+  REGISTRATION_REQUIREMENT_LABELS,
+  REGISTRATION_STATUS_LABELS,
+  REGISTRATION_TRANSITIONS,
+  applicantName,
+  type RegistrationRecord,
+  type RegistrationRequirement,
+  type RegistrationStatus,
+} from "@/data/registrations";
+import { findStallType } from "@/data/stallTypes";
+import { useAddReviewNote, useReviewRegistration, useUpdateRegistration } from "@/hooks/use-registrations";
+import { useStallTypes } from "@/hooks/use-stall-types";
+import { formatPeso } from "@/lib/format";
+import { formatPhilippinePhone } from "@/lib/phone";
+
+const REVIEWER_STORAGE_KEY = "sibulan-market:reviewer";
+
+const ACTION_LABELS: Record<RegistrationStatus, string> = {
+  submitted: "Submit",
+  under_review: "Start Review",
+  approved: "Approve",
+  rejected: "Reject",
+  waitlisted: "Waitlist",
+};
+
+type RegistrationReviewDialogProps = {
+  registration: RegistrationRecord;
+  duplicates: DuplicateReport;
+  onOpenChange: (open: boolean) => void;
+};
+
+const Detail = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-medium">{value}</p>
+  </div>
+);
+
+// Render with `key={registrationId}` so the draft note and reason reset per application.
+export const RegistrationReviewDialog = ({ registration, duplicates, onOpenChange }: RegistrationReviewDialogProps) => {
+  const reviewRegistration = useReviewRegistration();
+  const addReviewNote = useAddReviewNote();
+  const updateRegistration = useUpdateRegistration();
+  const { data: stallTypes = [] } = useStallTypes();
+  const requiredPermits = findStallType(stallTypes, registration.stallType)?.requiredPermits ?? [];
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  const [note, setNote] = useState("");
+  const [rejectionReason, setRejectionReason] = useState(registration.rejectionReason);
+
+  const handleReviewerChange = (value: string) => {
+    setReviewer(value);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, value);
+  };
+
+  const nextStatuses = REGISTRATION_TRANSITIONS[registration.status];
+  const reviewerName = reviewer.trim();
+
+  const handleDecision = async (to: RegistrationStatus) => {
+    try {
+      await reviewRegistration.mutateAsync({ registration, decision: { to, reviewer: reviewerName, rejectionReason } });
+      toast.success(`${applicantName(registration)}: ${REGISTRATION_STATUS_LABELS[to]}`);
+      if (to !== "under_review") onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to update application. ${message}`);
+    }
+  };
+
+  const handleAddNote = async () => {
+    try {
+      await addReviewNote.mutateAsync({ registration, author: reviewerName, note });
+      setNote("");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to save note. ${message}`);
+    }
+  };
+
+  const toggleRequirement = async (requirement: RegistrationRequirement, missing: boolean) => {
+    const missingRequirements = missing
+      ? [...registration.missingRequirements, requirement]
+      : registration.missingRequirements.filter((item) => item !== requirement);
+    try {
+      await updateRegistration.mutateAsync({ registrationId: registration.registrationId, changes: { missingRequirements } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to update requirements. ${message}`);
+    }
+  };
+
+  const busy = reviewRegistration.isPending || addReviewNote.isPending || updateRegistration.isPending;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {applicantName(registration)}
+            <RegistrationStatusBadge status={registration.status} />
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">{registration.registrationId}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 rounded-lg border p-4 text-sm">
+          <Detail label="Phone" value={formatPhilippinePhone(registration.phone)} />
+          <Detail label="Submitted" value={new Date(registration.createdAt).toLocaleString()} />
+          <div className="col-span-2">
+            <Detail label="Address" value={formatAddress(registration)} />
+          </div>
+          <Detail label="Requested stall" value={registration.stallName} />
+          <Detail label="Type" value={registration.stallType} />
+          <Detail label="Monthly rent" value={formatPeso(registration.monthlyRent)} />
+          {registration.reviewedBy && (
+            <Detail
+              label="Last reviewed"
+              value={`${registration.reviewedBy}${registration.reviewedAt ? `, ${new Date(registration.reviewedAt).toLocaleDateString()}` : ""}`}
+            />
+          )}
+        </div>
+
+        {hasDuplicates(duplicates) && <DuplicateWarnings report={duplicates} />}
+
+        {registration.status === "rejected" && registration.rejectionReason && (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-800">
+            Rejection reason: {registration.rejectionReason}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Attachments</h4>
+          <DocumentAttachments documents={registration.documents} />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Missing requirements</h4>
+          <p className="text-xs text-muted-foreground">Checked items are listed on the applicant's status page.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {REGISTRATION_REQUIREMENTS.map((requirement) => (
+              <label key={requirement} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={registration.missingRequirements.includes(requirement)}
+                  onCheckedChange={(checked) => toggleRequirement(requirement, checked === true)}
+                  disabled={busy}
+                />
+                {REGISTRATION_REQUIREMENT_LABELS[requirement]}
+              </label>
+            ))}
+          </div>
+          {requiredPermits.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {registration.stallType} stalls also require: {requiredPermits.join(", ")}.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reviewer">Reviewer</Label>
+          <Input id="reviewer" value={reviewer} onChange={(event) => handleReviewerChange(event.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Reviewer notes</h4>
+          {registration.reviewNotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No notes yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {registration.reviewNotes.map((entry) => (
+                <li key={entry.createdAt} className="rounded border px-3 py-2">
+                  <p>{entry.note}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.author} · {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Textarea
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              rows={2}
+              placeholder="Internal note (not shown to the applicant)"
+            />
+            <Button variant="outline" onClick={handleAddNote} disabled={busy || !note.trim() || !reviewerName}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {nextStatuses.includes("rejected") && (
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Rejection reason (shown to the applicant)</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(event) => setRejectionReason(event.target.value)}
+              rows={2}
+            />
+          </div>
+        )}
+
+        {nextStatuses.length > 0 && (
+          <DialogFooter className="gap-2">
+            {!reviewerName && <p className="mr-auto self-center text-sm text-muted-foreground">Enter your name to review.</p>}
+            {nextStatuses.map((status) => (
+              <Button
+                key={status}
+                variant={status === "rejected" ? "destructive" : status === "approved" ? "default" : "outline"}
+                onClick={() => handleDecision(status)}
+                disabled={busy || !reviewerName || (status === "rejected" && !rejectionReason.trim())}
+              >
+                {ACTION_LABELS[status]}
+              </Button>
+            ))}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
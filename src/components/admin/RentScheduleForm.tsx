@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { compareStallLocation } from "@/data/floorMap";
+import {
+  defaultEffectivePeriod,
+  formatEffectivePeriod,
+  previewRentSchedule,
+  ratesFromSchedule,
+  rentScheduleSchema,
+  summarizeRentPreview,
+  type RentScheduleFormData,
+} from "@/data/rentRates";
+import type { StallRecord } from "@/data/stalls";
+import { useApplyRentSchedule } from "@/hooks/use-rent-rates";
+import { formatPeso } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+// Radix selects cannot hold an empty value, so "every type" is stored as "" outside the select.
+const ALL_TYPES = "__all__";
+
+const SKIP_REASONS = {
+  no_area: "No floor area recorded",
+  no_rate: "Not covered by this ordinance",
+};
+
+type RentScheduleFormProps = {
+  stalls: StallRecord[];
+  typeOptions: string[];
+  sectionOptions: string[];
+};
+
+export const RentScheduleForm = ({ stalls, typeOptions, sectionOptions }: RentScheduleFormProps) => {
+  const applySchedule = useApplyRentSchedule();
+  const [confirming, setConfirming] = useState(false);
+
+  const form = useForm<RentScheduleFormData>({
+    resolver: zodResolver(rentScheduleSchema),
+    defaultValues: {
+      ordinance: "",
+      effectiveFrom: defaultEffectivePeriod(),
+      rates: [{ stallType: "", section: "", ratePerSqm: 0 }],
+    },
+  });
+  const lines = useFieldArray({ control: form.control, name: "rates" });
+
+  const values = form.watch();
+  // Lines still being typed are left out; the preview updates as each rate becomes valid.
+  const draftRates = ratesFromSchedule({
+    ordinance: values.ordinance ?? "",
+    effectiveFrom: values.effectiveFrom ?? "",
+    rates: (values.rates ?? []).filter((rate) => Number(rate.ratePerSqm) > 0),
+  }).map((rate) => ({ ...rate, ratePerSqm: Number(rate.ratePerSqm) }));
+  const preview = (values.effectiveFrom ? previewRentSchedule(stalls, draftRates, values.effectiveFrom) : []).sort(
+    (a, b) => Number(a.newRent === null) - Number(b.newRent === null) || compareStallLocation(a.stall, b.stall),
+  );
+  const summary = summarizeRentPreview(preview);
+
+  const handleApply = async () => {
+    const data = form.getValues();
+    try {
+      const changed = await applySchedule.mutateAsync({ schedule: rentScheduleSchema.parse(data), stalls });
+      toast.success(`${data.ordinance} adopted. ${changed} ${changed === 1 ? "stall" : "stalls"} repriced.`);
+      setConfirming(false);
+      form.reset();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to apply the rate schedule. ${message}`);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(() => setConfirming(true))} className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="ordinance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ordinance *</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="e.g. Municipal Ordinance No. 2025-014" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="effectiveFrom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Effective from *</FormLabel>
+                <FormControl>
+                  <Input type="month" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Rates per square meter</h4>
+          <p className="text-xs text-muted-foreground">
+            Leave type or section blank to cover all of them. A line for a type and section beats a line for the type
+            alone, which beats a line for the section alone.
+          </p>
+          {lines.fields.map((line, index) => (
+            <div key={line.id} className="grid grid-cols-[1fr_1fr_8rem_auto] items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`rates.${index}.stallType`}
+                render={({ field }) => (
+                  <FormItem>
+                    <Select
+                      value={field.value || ALL_TYPES}
+                      onValueChange={(value) => field.onChange(value === ALL_TYPES ? "" : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger aria-label="Stall type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                        {typeOptions.map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`rates.${index}.section`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input {...field} list="rent-section-options" placeholder="All sections" aria-label="Section" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`rates.${index}.ratePerSqm`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} aria-label="Rate per sqm (PHP)" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => lines.remove(index)}
+                disabled={lines.fields.length === 1}
+                aria-label="Remove rate"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <datalist id="rent-section-options">
+            {sectionOptions.map((section) => (
+              <option key={section} value={section} />
+            ))}
+          </datalist>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => lines.append({ stallType: "", section: "", ratePerSqm: 0 })}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add rate
+          </Button>
+          {form.formState.errors.rates?.root && (
+            <p className="text-sm text-destructive">{form.formState.errors.rates.root.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Impact preview</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Stalls repriced</p>
+              <p className="text-lg font-semibold">{summary.changed}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Not priced</p>
+              <p className="text-lg font-semibold">{summary.skipped}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Monthly rent now</p>
+              <p className="text-lg font-semibold">{formatPeso(summary.currentTotal)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Under this ordinance</p>
+              <p className="text-lg font-semibold">{formatPeso(summary.newTotal)}</p>
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stall</TableHead>
+                  <TableHead className="text-right">Area</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                  <TableHead className="text-right">New</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                      No stalls to price.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  preview.map((row) => (
+                    <TableRow key={row.stall.dbId} className={row.skipped ? "text-muted-foreground" : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{row.stall.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[row.stall.type, row.stall.section].filter(Boolean).join(" · ")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.stall.areaSqm ? `${row.stall.areaSqm} sqm` : "—"}</TableCell>
+                      <TableCell className="text-right">{formatPeso(row.currentRent)}</TableCell>
+                      {row.skipped ? (
+                        <TableCell colSpan={2} className="text-right text-xs">
+                          {SKIP_REASONS[row.skipped]}
+                        </TableCell>
+                      ) : (
+                        <>
+                          <TableCell className="text-right">{formatPeso(row.newRent ?? 0)}</TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right",
+                              row.difference > 0 && "text-red-700",
+                              row.difference < 0 && "text-emerald-700",
+                            )}
+                          >
+                            {row.difference > 0 ? "+" : ""}
+                            {formatPeso(row.difference)}
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={applySchedule.isPending}>
+            Adopt ordinance
+          </Button>
+        </div>
+      </form>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Adopt {values.ordinance}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {summary.changed} {summary.changed === 1 ? "stall" : "stalls"} will be charged the new rent from{" "}
+              {values.effectiveFrom ? formatEffectivePeriod(values.effectiveFrom) : "the effective month"}. Months
+              before that keep the rent they were billed, and the rates cannot be edited once adopted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button onClick={handleApply} disabled={applySchedule.isPending}>
+              {applySchedule.isPending ? "Applying..." : "Adopt and apply"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Form>
+  );
+};
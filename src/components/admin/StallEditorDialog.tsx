@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { calculateRent, findRentRate } from "@/data/rentRates";
+import { stallEditorSchema, suggestStallIdentity, type StallEditorData, type StallRecord } from "@/data/stalls";
+import { findStallType, type StallType } from "@/data/stallTypes";
+import { useRentRates } from "@/hooks/use-rent-rates";
+import { useSaveStall, useStallTenancies } from "@/hooks/use-stalls";
+import { formatDate, formatPeso } from "@/lib/format";
+
+type StallEditorDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stall: StallRecord | null;
+  stalls: StallRecord[];
+  stallTypes: StallType[];
+  typeOptions: string[];
+};
+
+const EMPTY_FORM: StallEditorData = {
+  type: "",
+  name: "",
+  monthlyRent: 0,
+  vendor: "",
+  contact: "",
+  section: "",
+  row: "",
+  areaSqm: "",
+};
+
+export const StallEditorDialog = ({ open, onOpenChange, stall, stalls, stallTypes, typeOptions }: StallEditorDialogProps) => {
+  const saveStall = useSaveStall();
+  const { data: tenancies = [] } = useStallTenancies(stall?.dbId);
+  const { data: rentRates = [] } = useRentRates();
+  const [nameEdited, setNameEdited] = useState(false);
+
+  const form = useForm<StallEditorData>({
+    resolver: zodResolver(stallEditorSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setNameEdited(false);
+    form.reset(
+      stall
+        ? {
+            type: stall.type,
+            name: stall.name,
+            monthlyRent: stall.monthlyRent,
+            vendor: stall.vendor,
+            contact: stall.contact,
+            section: stall.section,
+            row: stall.row,
+            areaSqm: stall.areaSqm ?? "",
+          }
+        : EMPTY_FORM,
+    );
+  }, [open, stall, form]);
+
+  const selectedType = form.watch("type");
+  const vendor = form.watch("vendor");
+  const section = form.watch("section");
+  const areaSqm = form.watch("areaSqm");
+  const scheduleRate = selectedType
+    ? findRentRate(rentRates, { type: selectedType, section }, format(new Date(), "yyyy-MM"))
+    : null;
+  const scheduleRent = scheduleRate ? calculateRent({ areaSqm: Number(areaSqm) || null }, scheduleRate.ratePerSqm) : null;
+  const suggestion = !stall && selectedType ? suggestStallIdentity(stalls, selectedType, stallTypes) : null;
+
+  const handleTypeChange = (type: string) => {
+    form.setValue("type", type, { shouldValidate: true });
+    if (stall) return;
+    if (!nameEdited) {
+      form.setValue("name", suggestStallIdentity(stalls, type, stallTypes).name);
+    }
+    const catalogEntry = findStallType(stallTypes, type);
+    if (catalogEntry && !form.getFieldState("monthlyRent").isDirty) {
+      form.setValue("monthlyRent", catalogEntry.defaultRent);
+    }
+  };
+
+  const onSubmit = async (data: StallEditorData) => {
+    try {
+      const saved = await saveStall.mutateAsync({ existing: stall, data, stalls, stallTypes });
+      toast.success(stall ? `${saved.name} updated` : `${saved.name} created`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to save stall. ${message}`);
+    }
+  };
+
+  const willVacate = !!stall?.vendor && vendor.trim() !== stall.vendor;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{stall ? `Edit ${stall.name}` : "Add Stall"}</DialogTitle>
+          <DialogDescription>
+            {stall ? stall.id : suggestion ? `Will be created as ${suggestion.id}` : "Choose a type to generate the stall number."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type *</FormLabel>
+                    <Select value={field.value} onValueChange={handleTypeChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {typeOptions.map((type) => (
+                          <SelectItem key={type} value={type}>{type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stall Name *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        onChange={(event) => {
+                          setNameEdited(true);
+                          field.onChange(event);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="monthlyRent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Monthly Rent (PHP) *</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    {scheduleRent !== null && scheduleRent !== Number(field.value) && (
+                      <FormDescription>
+                        Rate schedule: {formatPeso(scheduleRate.ratePerSqm)}/sqm × {areaSqm} sqm = {formatPeso(scheduleRent)}.{" "}
+                        <button
+                          type="button"
+                          className="underline"
+                          onClick={() => form.setValue("monthlyRent", scheduleRent, { shouldDirty: true })}
+                        >
+                          Use
+                        </button>
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="areaSqm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Floor Area (sqm)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} placeholder="Used by the rent schedule" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="section"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Section</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Fish Section" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="row"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Row</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. B" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vendor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Leave blank if vacant" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contact"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="+63 XXX XXX XXXX" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {willVacate && (
+              <p className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                {stall.vendor}'s tenancy will be moved to the stall history.
+              </p>
+            )}
+
+            {stall && tenancies.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Previous tenants</h4>
+                <ul className="max-h-40 space-y-1 overflow-y-auto text-sm">
+                  {tenancies.map((tenancy) => (
+                    <li key={tenancy.id} className="flex justify-between gap-4 rounded border px-3 py-2">
+                      <span>
+                        {tenancy.vendor}
+                        {tenancy.reason && <span className="text-muted-foreground"> — {tenancy.reason}</span>}
+                      </span>
+                      <span className="shrink-0 text-muted-foreground">
+                        {formatDate(tenancy.vacatedOn)} · {formatPeso(tenancy.monthlyRent)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveStall.isPending}>
+                {saveStall.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
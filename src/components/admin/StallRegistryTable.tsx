@@ -0,0 +1,173 @@
+import type { MouseEvent } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDown, ArrowUp, ArrowUpDown, DoorOpen, FileText, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatStallLocation } from "@/data/floorMap";
+import { isHeldByOther, type StallRecord } from "@/data/stalls";
+import type { SortDirection, StallSortKey } from "@/data/stallRegistry";
+import { formatDate, formatPeso } from "@/lib/format";
+import { StallStatusBadge } from "./StallStatusBadge";
+
+type Column = { key: StallSortKey; label: string; className?: string };
+
+const COLUMNS: Column[] = [
+  { key: "id", label: "ID" },
+  { key: "name", label: "Stall" },
+  { key: "type", label: "Type" },
+  { key: "vendor", label: "Vendor" },
+  { key: "monthlyRent", label: "Monthly Rent", className: "text-right" },
+  { key: "nextDue", label: "Next Due" },
+  { key: "status", label: "Status" },
+];
+
+type StallRegistryTableProps = {
+  stalls: StallRecord[];
+  sortKey: StallSortKey;
+  sortDirection: SortDirection;
+  onSortChange: (key: StallSortKey, direction: SortDirection) => void;
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  onEdit: (stall: StallRecord) => void;
+  onVacate: (stall: StallRecord) => void;
+};
+
+export const StallRegistryTable = ({
+  stalls,
+  sortKey,
+  sortDirection,
+  onSortChange,
+  page,
+  pageCount,
+  onPageChange,
+  onEdit,
+  onVacate,
+}: StallRegistryTableProps) => {
+  const toggleSort = (key: StallSortKey) => {
+    if (key === sortKey) {
+      onSortChange(key, sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      onSortChange(key, "asc");
+    }
+  };
+
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (target >= 1 && target <= pageCount) onPageChange(target);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((column) => {
+                const SortIcon = column.key !== sortKey ? ArrowUpDown : sortDirection === "asc" ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead key={column.key} className={column.className}>
+                    <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(column.key)}>
+                      {column.label}
+                      <SortIcon className="ml-1 h-3.5 w-3.5" />
+                    </Button>
+                  </TableHead>
+                );
+              })}
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stalls.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={COLUMNS.length + 1} className="h-24 text-center text-muted-foreground">
+                  No stalls match the current filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              stalls.map((stall) => (
+                <TableRow key={stall.id}>
+                  <TableCell className="font-mono text-xs">{stall.id}</TableCell>
+                  <TableCell className="font-medium">
+                    <Link to={`/admin/stalls/${stall.dbId}`} className="hover:underline">
+                      {stall.name}
+                    </Link>
+                    {formatStallLocation(stall) && (
+                      <div className="text-xs font-normal text-muted-foreground">{formatStallLocation(stall)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{stall.type}</TableCell>
+                  <TableCell>
+                    {stall.vendor ? (
+                      <div>
+                        <div>{stall.vendor}</div>
+                        {stall.contact && <div className="text-xs text-muted-foreground">{stall.contact}</div>}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPeso(stall.monthlyRent)}</TableCell>
+                  <TableCell>{formatDate(stall.nextDue)}</TableCell>
+                  <TableCell>
+                    <StallStatusBadge status={stall.status} />
+                    {!stall.occupied && isHeldByOther(stall, "") && (
+                      <span className="ml-2 text-xs text-muted-foreground">Held for applicant</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link to={`/admin/stalls/${stall.dbId}/statement`} aria-label={`Statement of account for ${stall.name}`}>
+                        <FileText className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(stall)} aria-label={`Edit ${stall.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onVacate(stall)}
+                      disabled={!stall.occupied}
+                      aria-label={`Vacate ${stall.name}`}
+                    >
+                      <DoorOpen className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 1} />
+            </PaginationItem>
+            {Array.from({ length: pageCount }, (_, index) => index + 1).map((number) => (
+              <PaginationItem key={number}>
+                <PaginationLink href="#" isActive={number === page} onClick={goTo(number)}>
+                  {number}
+                </PaginationLink>
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === pageCount} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { STALL_STATUS_LABELS, STALL_STATUS_OPTIONS, type StallStatus } from "@/data/stalls";
+import type { StallRegistryFilters } from "@/data/stallRegistry";
+
+type StallRegistryToolbarProps = {
+  filters: StallRegistryFilters;
+  typeOptions: string[];
+  onChange: (filters: StallRegistryFilters) => void;
+};
+
+export const StallRegistryToolbar = ({ filters, typeOptions, onChange }: StallRegistryToolbarProps) => (
+  <div className="flex flex-col gap-3 md:flex-row md:items-center">
+    <div className="relative md:w-80">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={filters.search}
+        onChange={(event) => onChange({ ...filters, search: event.target.value })}
+        placeholder="Search stall or vendor"
+        className="pl-9"
+        aria-label="Search stall or vendor"
+      />
+    </div>
+    <Select value={filters.type} onValueChange={(type) => onChange({ ...filters, type })}>
+      <SelectTrigger className="md:w-48" aria-label="Filter by type">
+        <SelectValue placeholder="All types" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All types</SelectItem>
+        {typeOptions.map((type) => (
+          <SelectItem key={type} value={type}>{type}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Select
+      value={filters.status}
+      onValueChange={(status) => onChange({ ...filters, status: status as StallStatus | "all" })}
+    >
+      <SelectTrigger className="md:w-48" aria-label="Filter by status">
+        <SelectValue placeholder="All statuses" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All statuses</SelectItem>
+        {STALL_STATUS_OPTIONS.map((status) => (
+          <SelectItem key={status} value={status}>{STALL_STATUS_LABELS[status]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
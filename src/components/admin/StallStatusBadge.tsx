@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { STALL_STATUS_LABELS, type StallStatus } from "@/data/stalls";
+import { cn } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<StallStatus, string> = {
+  current: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100",
+  due: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  overdue: "bg-red-100 text-red-800 hover:bg-red-100",
+  vacant: "bg-slate-100 text-slate-700 hover:bg-slate-100",
+};
+
+export const StallStatusBadge = ({ status, className }: { status: StallStatus; className?: string }) => (
+  <Badge variant="outline" className={cn("border-transparent", STATUS_CLASSES[status], className)}>
+    {STALL_STATUS_LABELS[status]}
+  </Badge>
+);
@@ -0,0 +1,163 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { stallTypeSchema, type StallType, type StallTypeFormData } from "@/data/stallTypes";
+import { useSaveStallType } from "@/hooks/use-stall-types";
+
+type StallTypeEditorDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stallType: StallType | null;
+};
+
+const EMPTY_FORM: StallTypeFormData = {
+  name: "",
+  description: "",
+  defaultRent: 0,
+  requiredPermits: "",
+  active: true,
+};
+
+export const StallTypeEditorDialog = ({ open, onOpenChange, stallType }: StallTypeEditorDialogProps) => {
+  const saveStallType = useSaveStallType();
+
+  const form = useForm<StallTypeFormData>({
+    resolver: zodResolver(stallTypeSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      stallType
+        ? {
+            name: stallType.name,
+            description: stallType.description,
+            defaultRent: stallType.defaultRent,
+            requiredPermits: stallType.requiredPermits.join("\n"),
+            active: stallType.active,
+          }
+        : EMPTY_FORM,
+    );
+  }, [open, stallType, form]);
+
+  const onSubmit = async (data: StallTypeFormData) => {
+    try {
+      const saved = await saveStallType.mutateAsync({ existing: stallType, data });
+      toast.success(stallType ? `${saved.name} updated` : `${saved.name} added`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to save stall type. ${message}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{stallType ? `Edit ${stallType.name}` : "Add Stall Type"}</DialogTitle>
+          <DialogDescription>
+            {stallType
+              ? "The name cannot be changed because existing stalls and applications use it."
+              : "New types are offered to applicants as soon as they are active."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g. Rice" disabled={!!stallType} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="defaultRent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Default Monthly Rent (PHP)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="What is sold in these stalls" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="requiredPermits"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Required Permits</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={3} placeholder={"Sanitary permit\nHealth certificate"} />
+                  </FormControl>
+                  <FormDescription>One per line. Applicants for this type are told to bring them.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive types stay on existing stalls but are not offered to applicants.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveStallType.isPending}>
+                {saveStallType.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { StallRecord } from "@/data/stalls";
+import { useVacateStall } from "@/hooks/use-stalls";
+
+type VacateStallDialogProps = {
+  stall: StallRecord | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const VacateStallDialog = ({ stall, onOpenChange }: VacateStallDialogProps) => {
+  const vacateStall = useVacateStall();
+  const [vacatedOn, setVacatedOn] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (stall) {
+      setVacatedOn(format(new Date(), "yyyy-MM-dd"));
+      setReason("");
+    }
+  }, [stall]);
+
+  const handleVacate = async () => {
+    if (!stall) return;
+    try {
+      await vacateStall.mutateAsync({ dbId: stall.dbId, input: { vacatedOn, reason: reason.trim() } });
+      toast.success(`${stall.name} is now vacant`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to vacate stall. ${message}`);
+    }
+  };
+
+  return (
+    <AlertDialog open={stall !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Vacate {stall?.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {stall?.vendor}'s tenancy will be kept in the stall history and the stall will be marked vacant.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vacatedOn">Vacated on</Label>
+            <Input id="vacatedOn" type="date" value={vacatedOn} onChange={(event) => setVacatedOn(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vacateReason">Reason</Label>
+            <Textarea
+              id="vacateReason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              rows={3}
+              placeholder="e.g. Contract ended, vendor relocated"
+            />
+          </div>
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleVacate} disabled={!vacatedOn || vacateStall.isPending}>
+            {vacateStall.isPending ? "Vacating..." : "Vacate Stall"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
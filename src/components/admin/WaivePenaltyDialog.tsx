@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { formatPeriod } from "@/data/payments";
+import { waiverSchema, type PenaltyLine, type WaiverFormData } from "@/data/penalties";
+import type { StallRecord } from "@/data/stalls";
+import { useWaivePenalty } from "@/hooks/use-penalties";
+import { formatPeso } from "@/lib/format";
+
+type WaivePenaltyDialogProps = {
+  stall: StallRecord;
+  line: PenaltyLine | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const WaivePenaltyDialog = ({ stall, line, onOpenChange }: WaivePenaltyDialogProps) => {
+  const waivePenalty = useWaivePenalty();
+  const form = useForm<WaiverFormData>({
+    resolver: zodResolver(waiverSchema),
+    defaultValues: { amount: 0, reason: "", approvedBy: "" },
+  });
+
+  useEffect(() => {
+    if (line) form.reset({ amount: line.surcharge, reason: "", approvedBy: "" });
+  }, [line, form]);
+
+  const onSubmit = async (data: WaiverFormData) => {
+    if (!line) return;
+    if (data.amount > line.surcharge) {
+      form.setError("amount", { message: `At most ${formatPeso(line.surcharge)} can be waived.` });
+      return;
+    }
+    try {
+      await waivePenalty.mutateAsync({
+        stallDbId: stall.dbId,
+        vendor: stall.vendor,
+        period: line.period,
+        amount: data.amount,
+        reason: data.reason,
+        approvedBy: data.approvedBy,
+      });
+      toast.success(`Waived ${formatPeso(data.amount)} of the ${formatPeriod(line.period)} surcharge`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to waive surcharge. ${message}`);
+    }
+  };
+
+  return (
+    <Dialog open={line !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Waive Surcharge</DialogTitle>
+          <DialogDescription>
+            {line && `${stall.name} · ${formatPeriod(line.period)} · ${formatPeso(line.surcharge)} outstanding`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount to waive (PHP) *</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason *</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} placeholder="e.g. Market closed for repairs during the month" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="approvedBy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Approved by *</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Name and position of the approving officer" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={waivePenalty.isPending}>
+                {waivePenalty.isPending ? "Saving..." : "Waive"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { AgingBucket, AgingBucketKey } from "@/data/analytics";
+import { formatDate, formatPeso, formatPesoCompact } from "@/lib/format";
+
+const chartConfig = {
+  amount: { label: "Unpaid rent" },
+} satisfies ChartConfig;
+
+// Older debt is harder to collect, so the bars darken from amber to red.
+const BUCKET_COLORS: Record<AgingBucketKey, string> = {
+  "1-30": "hsl(38 92% 50%)",
+  "31-60": "hsl(25 95% 53%)",
+  "61-90": "hsl(0 72% 51%)",
+  "90+": "hsl(0 74% 35%)",
+};
+
+export const AgingChart = ({ data, asOf }: { data: AgingBucket[]; asOf: string }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">Overdue Aging</CardTitle>
+      <CardDescription>Unpaid rent by days past due as of {formatDate(asOf)}, surcharges excluded</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <BarChart data={data} margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis tickFormatter={formatPesoCompact} tickLine={false} axisLine={false} width={56} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                hideIndicator
+                formatter={(value, _name, item) => (
+                  <div className="grid w-full gap-1">
+                    <div className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">Unpaid rent</span>
+                      <span className="font-mono font-medium tabular-nums text-foreground">
+                        {formatPeso(Number(value))}
+                      </span>
+                    </div>
+                    <span className="text-muted-foreground">
+                      {item.payload.stalls} {item.payload.stalls === 1 ? "stall" : "stalls"} behind this long
+                    </span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Bar dataKey="amount" radius={4}>
+            {data.map((bucket) => (
+              <Cell key={bucket.key} fill={BUCKET_COLORS[bucket.key]} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </CardContent>
+  </Card>
+);
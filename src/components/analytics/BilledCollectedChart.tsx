@@ -0,0 +1,46 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { MonthlyTrendPoint } from "@/data/analytics";
+import { formatPesoCompact } from "@/lib/format";
+import { PesoTooltipRow } from "./PesoTooltipRow";
+
+const chartConfig = {
+  billed: { label: "Rent billed", color: "hsl(var(--primary))" },
+  collected: { label: "Collected", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+export const BilledCollectedChart = ({ data }: { data: MonthlyTrendPoint[] }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">Billed vs. Collected</CardTitle>
+      <CardDescription>Rent billed for each month against payments received in it, surcharges included</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <BarChart data={data} margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis tickFormatter={formatPesoCompact} tickLine={false} axisLine={false} width={56} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                formatter={(value, name) => <PesoTooltipRow config={chartConfig} name={name} value={value} />}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="billed" fill="var(--color-billed)" radius={4} />
+          <Bar dataKey="collected" fill="var(--color-collected)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,48 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { MonthlyTrendPoint } from "@/data/analytics";
+
+const chartConfig = {
+  occupancyRate: { label: "Occupancy", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+export const OccupancyChart = ({ data }: { data: MonthlyTrendPoint[] }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">Occupancy Rate</CardTitle>
+      <CardDescription>Share of stalls leased each month</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <AreaChart data={data} margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                formatter={(value, _name, item) => (
+                  <div className="flex w-full items-center justify-between gap-4">
+                    <span className="text-muted-foreground">
+                      {item.payload.occupied} of {item.payload.total} stalls
+                    </span>
+                    <span className="font-mono font-medium tabular-nums text-foreground">{value}%</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Area
+            dataKey="occupancyRate"
+            type="monotone"
+            fill="var(--color-occupancyRate)"
+            fillOpacity={0.2}
+            stroke="var(--color-occupancyRate)"
+            strokeWidth={2}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </CardContent>
+  </Card>
+);
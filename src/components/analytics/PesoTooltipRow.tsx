@@ -0,0 +1,10 @@
+import type { ChartConfig } from "@/components/ui/chart";
+import { formatPeso } from "@/lib/format";
+
+/** A tooltip row for a peso series: its label from the chart config and the amount. */
+export const PesoTooltipRow = ({ config, name, value }: { config: ChartConfig; name: unknown; value: unknown }) => (
+  <div className="flex w-full items-center justify-between gap-4">
+    <span className="text-muted-foreground">{config[String(name)]?.label ?? String(name)}</span>
+    <span className="font-mono font-medium tabular-nums text-foreground">{formatPeso(Number(value))}</span>
+  </div>
+);
@@ -0,0 +1,88 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { TypeRevenue } from "@/data/analytics";
+import { formatPeso, formatPesoCompact } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { PesoTooltipRow } from "./PesoTooltipRow";
+
+const chartConfig = {
+  rent: { label: "Rent", color: "hsl(var(--primary))" },
+  surcharge: { label: "Surcharges", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+export const RevenueByTypeChart = ({ data }: { data: TypeRevenue[] }) => {
+  const total = fromCentavos(data.reduce((sum, row) => sum + toCentavos(row.total), 0));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Revenue by Stall Type</CardTitle>
+        <CardDescription>Payments received during the period</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No payments received in this period.</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={data} layout="vertical" margin={{ left: 0, right: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickFormatter={formatPesoCompact} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="type" tickLine={false} axisLine={false} width={96} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => <PesoTooltipRow config={chartConfig} name={name} value={value} />}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="rent" stackId="revenue" fill="var(--color-rent)" />
+                <Bar dataKey="surcharge" stackId="revenue" fill="var(--color-surcharge)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.map((row) => (
+                  <TableRow key={row.type}>
+                    <TableCell>{row.type}</TableCell>
+                    <TableCell className="text-right">{row.payments}</TableCell>
+                    <TableCell className="text-right">{formatPeso(row.total)}</TableCell>
+                    <TableCell className="text-right">
+                      {total > 0 ? `${((row.total / total) * 100).toFixed(1)}%` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{data.reduce((sum, row) => sum + row.payments, 0)}</TableCell>
+                  <TableCell className="text-right">{formatPeso(total)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,23 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useStaffSession } from "@/hooks/use-staff-session";
+
+/**
+ * Layout route for the staff pages: visitors who are not signed in go to the sign-in page and
+ * come back here afterwards.
+ */
+export const RequireStaff = () => {
+  const { session, isLoading, required } = useStaffSession();
+  const location = useLocation();
+
+  if (!required) return <Outlet />;
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-muted-foreground">Checking sign-in...</div>
+    );
+  }
+  if (!session) {
+    const next = encodeURIComponent(`${location.pathname}${location.search}`);
+    return <Navigate to={`/login?next=${next}`} replace />;
+  }
+  return <Outlet />;
+};
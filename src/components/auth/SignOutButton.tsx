@@ -0,0 +1,30 @@
+import { LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useSignOut, useStaffSession } from "@/hooks/use-staff-session";
+
+export const SignOutButton = () => {
+  const { session } = useStaffSession();
+  const signOut = useSignOut();
+
+  if (!session) return null;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut.mutateAsync();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to sign out. ${message}`);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="hidden text-muted-foreground lg:inline">{session.email}</span>
+      <Button variant="ghost" size="sm" onClick={handleSignOut} disabled={signOut.isPending}>
+        <LogOut className="mr-1 h-4 w-4" />
+        Sign out
+      </Button>
+    </div>
+  );
+};
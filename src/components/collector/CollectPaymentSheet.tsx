@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { CheckCircle2, CloudUpload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatStallLocation } from "@/data/floorMap";
+import { formatPeriod } from "@/data/payments";
+import type { AmountDue } from "@/data/penalties";
+import type { StallRecord } from "@/data/stalls";
+import { useRecordPayment, type RecordPaymentResult } from "@/hooks/use-payments";
+import { formatPeso } from "@/lib/format";
+import { CollectorSheet } from "./CollectorSheet";
+
+type CollectPaymentSheetProps = {
+  stall: StallRecord | null;
+  amountDue: AmountDue | null;
+  collector: string;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const CollectPaymentSheet = ({ stall, amountDue, collector, onOpenChange }: CollectPaymentSheetProps) => {
+  const recordPayment = useRecordPayment();
+  const [amount, setAmount] = useState("");
+  const [result, setResult] = useState<RecordPaymentResult | null>(null);
+  const [openedFor, setOpenedFor] = useState<number | null>(null);
+
+  // Start fresh for each stall opened, but not when its balance refreshes after paying.
+  if ((stall?.dbId ?? null) !== openedFor) {
+    setOpenedFor(stall?.dbId ?? null);
+    setResult(null);
+    if (stall) setAmount(String(amountDue && amountDue.total > 0 ? amountDue.total : stall.monthlyRent));
+  }
+
+  const value = Number(amount);
+  const valid = Number.isFinite(value) && value > 0;
+  const oldestMonth = amountDue?.lines[0];
+
+  const handleCollect = async () => {
+    if (!stall || !valid) return;
+    try {
+      const recorded = await recordPayment.mutateAsync({
+        stall,
+        data: {
+          amount: value,
+          method: "cash",
+          collector,
+          paidOn: format(new Date(), "yyyy-MM-dd"),
+          notes: "Collected on route",
+        },
+      });
+      setResult(recorded);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to record payment. ${message}`);
+    }
+  };
+
+  return (
+    <CollectorSheet
+      open={stall !== null}
+      onOpenChange={onOpenChange}
+      title={stall ? stall.name : ""}
+      description={stall ? [stall.vendor, formatStallLocation(stall)].filter(Boolean).join(" · ") : undefined}
+    >
+      {stall && result?.queued ? (
+        <div className="space-y-4 text-center">
+          <CloudUpload className="mx-auto h-12 w-12 text-amber-600" />
+          <div>
+            <p className="text-2xl font-bold">{formatPeso(value)}</p>
+            <p className="text-sm text-muted-foreground">
+              Saved on this phone. The official receipt is issued when it syncs.
+            </p>
+          </div>
+          <Button className="w-full" onClick={() => onOpenChange(false)}>
+            Next stall
+          </Button>
+        </div>
+      ) : stall && result?.receipt ? (
+        <div className="space-y-4 text-center">
+          <CheckCircle2 className="mx-auto h-12 w-12 text-emerald-600" />
+          <div>
+            <p className="text-2xl font-bold">{formatPeso(result.receipt.amount)}</p>
+            <p className="text-sm text-muted-foreground">Official receipt {result.receipt.orNumber}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" asChild>
+              <Link to={`/receipts/${result.receipt.orNumber}`}>View receipt</Link>
+            </Button>
+            <Button onClick={() => onOpenChange(false)}>Next stall</Button>
+          </div>
+        </div>
+      ) : stall ? (
+        <div className="space-y-4">
+          {amountDue && amountDue.total > 0 && (
+            <div className="grid grid-cols-3 gap-2 rounded-md border bg-muted/40 p-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Rent</p>
+                <p className="font-semibold">{formatPeso(amountDue.principal)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Surcharge</p>
+                <p className="font-semibold">{formatPeso(amountDue.surcharge)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Total</p>
+                <p className="font-semibold">{formatPeso(amountDue.total)}</p>
+              </div>
+              {oldestMonth && (
+                <p className="col-span-3 text-xs text-muted-foreground">
+                  Unpaid since {formatPeriod(oldestMonth.period)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="collect-amount">Cash received (PHP)</Label>
+            <Input
+              id="collect-amount"
+              type="number"
+              inputMode="decimal"
+              step="0.01"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              className="h-12 text-lg"
+            />
+            <div className="flex flex-wrap gap-2">
+              {amountDue && amountDue.total > 0 && (
+                <Button type="button" variant="secondary" size="sm" onClick={() => setAmount(String(amountDue.total))}>
+                  Full {formatPeso(amountDue.total)}
+                </Button>
+              )}
+              <Button type="button" variant="secondary" size="sm" onClick={() => setAmount(String(stall.monthlyRent))}>
+                One month {formatPeso(stall.monthlyRent)}
+              </Button>
+            </div>
+          </div>
+
+          <Button
+            className="h-12 w-full text-base"
+            onClick={handleCollect}
+            disabled={!valid || !collector || recordPayment.isPending}
+          >
+            {recordPayment.isPending ? "Recording..." : `Collect ${valid ? formatPeso(value) : ""} cash`}
+          </Button>
+          {!collector && <p className="text-center text-xs text-destructive">Enter your name at the top first.</p>}
+        </div>
+      ) : null}
+    </CollectorSheet>
+  );
+};
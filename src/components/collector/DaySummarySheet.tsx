@@ -0,0 +1,70 @@
+import { Link } from "react-router-dom";
+import type { CollectionSummary } from "@/data/collections";
+import { formatDate, formatPeso } from "@/lib/format";
+import { CollectorSheet } from "./CollectorSheet";
+
+type DaySummarySheetProps = {
+  summary: CollectionSummary;
+  stallNames: Map<number, string>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const DaySummarySheet = ({ summary, stallNames, open, onOpenChange }: DaySummarySheetProps) => (
+  <CollectorSheet
+    open={open}
+    onOpenChange={onOpenChange}
+    title="Today's Collections"
+    description={`${summary.collector || "Collector"} · ${formatDate(summary.day)}`}
+  >
+    <div className="space-y-4 text-sm">
+      <div className="rounded-md border p-3">
+        <div className="flex items-baseline justify-between">
+          <span className="text-muted-foreground">To remit</span>
+          <span className="text-2xl font-bold">{formatPeso(summary.total)}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {summary.count} {summary.count === 1 ? "receipt" : "receipts"}
+          {summary.surcharge > 0 && `, including ${formatPeso(summary.surcharge)} in surcharges`}
+        </p>
+        {summary.byMethod.length > 1 && (
+          <ul className="mt-2 space-y-1">
+            {summary.byMethod.map((method) => (
+              <li key={method.method} className="flex justify-between">
+                <span>
+                  {method.label} ({method.count})
+                </span>
+                <span>{formatPeso(method.total)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {summary.payments.length === 0 ? (
+        <p className="text-center text-muted-foreground">Nothing collected yet today.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {summary.payments.map((payment) => (
+            <li key={payment.dbId} className="flex items-center justify-between gap-2 p-3">
+              <div>
+                <p className="font-medium">{stallNames.get(payment.stallDbId) ?? payment.vendor}</p>
+                <p className="text-xs text-muted-foreground">
+                  {payment.vendor} ·{" "}
+                  {payment.orNumber ? (
+                    <Link to={`/receipts/${payment.orNumber}`} className="underline">
+                      OR {payment.orNumber}
+                    </Link>
+                  ) : (
+                    "No receipt"
+                  )}
+                </p>
+              </div>
+              <span className="font-semibold">{formatPeso(payment.amount)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </CollectorSheet>
+);
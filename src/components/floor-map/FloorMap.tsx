@@ -0,0 +1,132 @@
+import type { KeyboardEvent, PointerEvent, ReactNode, SVGProps } from "react";
+import {
+  FLOOR_MAP_HEIGHT,
+  FLOOR_MAP_WIDTH,
+  GRID_SIZE,
+  STALL_STATUS_FILLS,
+  sectionBounds,
+  stallMapLabel,
+  stallTypeColor,
+  type StallPosition,
+} from "@/data/floorMap";
+import { STALL_STATUS_LABELS, type StallRecord } from "@/data/stalls";
+import { cn } from "@/lib/utils";
+
+type FloorMapProps = {
+  stalls: StallRecord[];
+  selectedDbId?: number | null;
+  onSelect?: (stall: StallRecord) => void;
+  /** When given, other stalls are dimmed and cannot be clicked. */
+  isSelectable?: (stall: StallRecord) => boolean;
+  /** Overrides stored positions, e.g. while a stall is being dragged in the editor. */
+  positionOf?: (stall: StallRecord) => StallPosition | null;
+  onStallPointerDown?: (stall: StallRecord, event: PointerEvent<SVGGElement>) => void;
+  svgProps?: Omit<SVGProps<SVGSVGElement>, "viewBox">;
+  showGrid?: boolean;
+  children?: ReactNode;
+  className?: string;
+};
+
+export const FloorMap = ({
+  stalls,
+  selectedDbId,
+  onSelect,
+  isSelectable,
+  positionOf = (stall) => stall.position,
+  onStallPointerDown,
+  svgProps,
+  showGrid = false,
+  children,
+  className,
+}: FloorMapProps) => {
+  const placed = stalls.flatMap((stall) => {
+    const position = positionOf(stall);
+    return position ? [{ stall, position }] : [];
+  });
+  const sections = sectionBounds(placed.map(({ stall, position }) => ({ ...stall, position })));
+
+  const handleKeyDown = (stall: StallRecord) => (event: KeyboardEvent<SVGGElement>) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      onSelect?.(stall);
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${FLOOR_MAP_WIDTH} ${FLOOR_MAP_HEIGHT}`}
+      className={cn("w-full h-auto rounded-lg border bg-white touch-none select-none", className)}
+      role="img"
+      aria-label="Market floor map"
+      {...svgProps}
+    >
+      <defs>
+        <pattern id="floor-map-grid" width={GRID_SIZE * 5} height={GRID_SIZE * 5} patternUnits="userSpaceOnUse">
+          <path d={`M ${GRID_SIZE * 5} 0 L 0 0 0 ${GRID_SIZE * 5}`} fill="none" stroke="#e2e8f0" strokeWidth={1} />
+        </pattern>
+      </defs>
+      {showGrid && <rect width={FLOOR_MAP_WIDTH} height={FLOOR_MAP_HEIGHT} fill="url(#floor-map-grid)" />}
+
+      {sections.map((section) => (
+        <g key={section.section}>
+          <rect
+            x={section.x}
+            y={section.y}
+            width={section.width}
+            height={section.height}
+            rx={8}
+            fill="none"
+            stroke="#94a3b8"
+            strokeDasharray="6 4"
+          />
+          <text x={section.x + 6} y={section.y - 4} fontSize={13} fill="#475569" fontWeight={600}>
+            {section.section}
+          </text>
+        </g>
+      ))}
+
+      {placed.map(({ stall, position }) => {
+        const selectable = isSelectable ? isSelectable(stall) : !!onSelect;
+        const selected = stall.dbId === selectedDbId;
+        return (
+          <g
+            key={stall.dbId}
+            transform={`translate(${position.x} ${position.y})`}
+            opacity={isSelectable && !selectable && !selected ? 0.35 : 1}
+            className={cn((selectable || onStallPointerDown) && "cursor-pointer")}
+            role={selectable ? "button" : undefined}
+            tabIndex={selectable ? 0 : undefined}
+            aria-label={`${stall.name}, ${stall.type}, ${STALL_STATUS_LABELS[stall.status]}`}
+            aria-pressed={selectable ? selected : undefined}
+            onClick={selectable ? () => onSelect?.(stall) : undefined}
+            onKeyDown={selectable ? handleKeyDown(stall) : undefined}
+            onPointerDown={onStallPointerDown ? (event) => onStallPointerDown(stall, event) : undefined}
+          >
+            <title>{`${stall.name} · ${stall.type} · ${STALL_STATUS_LABELS[stall.status]}${stall.vendor ? ` · ${stall.vendor}` : ""}`}</title>
+            <rect
+              width={position.width}
+              height={position.height}
+              rx={4}
+              fill={STALL_STATUS_FILLS[stall.status]}
+              stroke={selected ? "#0f172a" : "#64748b"}
+              strokeWidth={selected ? 3 : 1}
+            />
+            <rect width={6} height={position.height} rx={2} fill={stallTypeColor(stall.type)} />
+            <text
+              x={position.width / 2 + 3}
+              y={position.height / 2}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={Math.min(16, position.height / 2.5)}
+              fill="#0f172a"
+              pointerEvents="none"
+            >
+              {stallMapLabel(stall)}
+            </text>
+          </g>
+        );
+      })}
+      {children}
+    </svg>
+  );
+};
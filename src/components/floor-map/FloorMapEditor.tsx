@@ -0,0 +1,244 @@
+import { useMemo, useRef, useState, type PointerEvent } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_STALL_SIZE,
+  clampPosition,
+  compareStallLocation,
+  findFreePosition,
+  type StallPosition,
+} from "@/data/floorMap";
+import type { StallRecord } from "@/data/stalls";
+import { useUpdateStallLayouts, type StallLayoutChange } from "@/hooks/use-stalls";
+import { FloorMap } from "./FloorMap";
+
+type StallLayout = Pick<StallRecord, "section" | "row" | "position">;
+
+type DragState = { dbId: number; offsetX: number; offsetY: number };
+
+const samePosition = (a: StallPosition | null, b: StallPosition | null) =>
+  a === b || (!!a && !!b && a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height);
+
+const isChanged = (stall: StallRecord, layout: StallLayout) =>
+  stall.section !== layout.section || stall.row !== layout.row || !samePosition(stall.position, layout.position);
+
+// Converts a pointer position to map units, whatever size the SVG is rendered at.
+const toMapPoint = (svg: SVGSVGElement, clientX: number, clientY: number) => {
+  const point = svg.createSVGPoint();
+  point.x = clientX;
+  point.y = clientY;
+  return point.matrixTransform(svg.getScreenCTM()?.inverse());
+};
+
+/**
+ * Drag stalls around the floor plan, set their section and row, and place stalls that are
+ * not on the map yet. Nothing is saved until "Save layout".
+ */
+export const FloorMapEditor = ({ stalls }: { stalls: StallRecord[] }) => {
+  const updateLayouts = useUpdateStallLayouts();
+  const [drafts, setDrafts] = useState<Record<number, StallLayout>>({});
+  const [selectedDbId, setSelectedDbId] = useState<number | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const layoutOf = (stall: StallRecord): StallLayout =>
+    drafts[stall.dbId] ?? { section: stall.section, row: stall.row, position: stall.position };
+
+  const updateLayout = (stall: StallRecord, changes: Partial<StallLayout>) =>
+    setDrafts((current) => ({
+      ...current,
+      [stall.dbId]: { ...(current[stall.dbId] ?? layoutOf(stall)), ...changes },
+    }));
+
+  const changes: StallLayoutChange[] = stalls
+    .filter((stall) => drafts[stall.dbId] && isChanged(stall, drafts[stall.dbId]))
+    .map((stall) => ({ dbId: stall.dbId, changes: drafts[stall.dbId] }));
+
+  const unplaced = stalls.filter((stall) => !layoutOf(stall).position).sort(compareStallLocation);
+  const selected = stalls.find((stall) => stall.dbId === selectedDbId) ?? null;
+  const selectedLayout = selected ? layoutOf(selected) : null;
+  const sectionOptions = useMemo(
+    () => Array.from(new Set(stalls.map((stall) => stall.section).filter(Boolean))).sort(),
+    [stalls],
+  );
+
+  const placeStall = (stall: StallRecord) => {
+    const taken = stalls.flatMap((other) => layoutOf(other).position ?? []);
+    updateLayout(stall, { position: findFreePosition(taken, DEFAULT_STALL_SIZE) });
+    setSelectedDbId(stall.dbId);
+  };
+
+  const handleStallPointerDown = (stall: StallRecord, event: PointerEvent<SVGGElement>) => {
+    const svg = event.currentTarget.ownerSVGElement;
+    const position = layoutOf(stall).position;
+    if (!svg || !position) return;
+    const point = toMapPoint(svg, event.clientX, event.clientY);
+    svg.setPointerCapture(event.pointerId);
+    dragRef.current = { dbId: stall.dbId, offsetX: point.x - position.x, offsetY: point.y - position.y };
+    setSelectedDbId(stall.dbId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const stall = drag && stalls.find((candidate) => candidate.dbId === drag.dbId);
+    const position = stall && layoutOf(stall).position;
+    if (!position) return;
+    const point = toMapPoint(event.currentTarget, event.clientX, event.clientY);
+    const next = clampPosition({ ...position, x: point.x - drag.offsetX, y: point.y - drag.offsetY });
+    if (!samePosition(next, position)) updateLayout(stall, { position: next });
+  };
+
+  const endDrag = (event: PointerEvent<SVGSVGElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const resize = (dimension: "width" | "height", value: number) => {
+    if (!selected || !selectedLayout?.position || !Number.isFinite(value)) return;
+    updateLayout(selected, { position: clampPosition({ ...selectedLayout.position, [dimension]: value }) });
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateLayouts.mutateAsync(changes);
+      setDrafts({});
+      toast.success(`Saved the layout of ${changes.length} ${changes.length === 1 ? "stall" : "stalls"}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to save the floor map. ${message}`);
+    }
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+      <div className="space-y-2">
+        <FloorMap
+          stalls={stalls}
+          selectedDbId={selectedDbId}
+          onSelect={(stall) => setSelectedDbId(stall.dbId)}
+          positionOf={(stall) => layoutOf(stall).position}
+          onStallPointerDown={handleStallPointerDown}
+          svgProps={{ onPointerMove: handlePointerMove, onPointerUp: endDrag, onPointerCancel: endDrag }}
+          showGrid
+        />
+        <div className="flex items-center justify-end gap-2">
+          <span className="mr-auto text-sm text-muted-foreground">
+            {changes.length > 0 ? `${changes.length} unsaved ${changes.length === 1 ? "change" : "changes"}` : "No changes"}
+          </span>
+          <Button variant="outline" onClick={() => setDrafts({})} disabled={changes.length === 0 || updateLayouts.isPending}>
+            Discard
+          </Button>
+          <Button onClick={handleSave} disabled={changes.length === 0 || updateLayouts.isPending}>
+            {updateLayouts.isPending ? "Saving..." : "Save layout"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">{selected ? selected.name : "No stall selected"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {selected && selectedLayout ? (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="map-section">Section</Label>
+                  <Input
+                    id="map-section"
+                    list="map-section-options"
+                    value={selectedLayout.section}
+                    onChange={(event) => updateLayout(selected, { section: event.target.value })}
+                    placeholder="e.g. Wet Section"
+                  />
+                  <datalist id="map-section-options">
+                    {sectionOptions.map((section) => (
+                      <option key={section} value={section} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="map-row">Row</Label>
+                  <Input
+                    id="map-row"
+                    value={selectedLayout.row}
+                    onChange={(event) => updateLayout(selected, { row: event.target.value })}
+                    placeholder="e.g. A"
+                  />
+                </div>
+                {selectedLayout.position ? (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="map-width">Width</Label>
+                        <Input
+                          id="map-width"
+                          type="number"
+                          step={10}
+                          value={selectedLayout.position.width}
+                          onChange={(event) => resize("width", event.target.valueAsNumber)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="map-height">Height</Label>
+                        <Input
+                          id="map-height"
+                          type="number"
+                          step={10}
+                          value={selectedLayout.position.height}
+                          onChange={(event) => resize("height", event.target.valueAsNumber)}
+                        />
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => updateLayout(selected, { position: null })}>
+                      Remove from map
+                    </Button>
+                  </>
+                ) : (
+                  <Button size="sm" onClick={() => placeStall(selected)}>
+                    Place on map
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Click a stall on the map, then drag it to move it.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Not on the map ({unplaced.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {unplaced.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every stall has been placed.</p>
+            ) : (
+              <ul className="max-h-80 space-y-1 overflow-y-auto text-sm">
+                {unplaced.map((stall) => (
+                  <li key={stall.dbId} className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className="truncate text-left hover:underline"
+                      onClick={() => setSelectedDbId(stall.dbId)}
+                    >
+                      {stall.name}
+                    </button>
+                    <Button variant="ghost" size="sm" onClick={() => placeStall(stall)}>
+                      Place
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
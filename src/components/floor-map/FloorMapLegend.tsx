@@ -0,0 +1,27 @@
+import { STALL_STATUS_FILLS, stallTypeColor } from "@/data/floorMap";
+import { STALL_STATUS_LABELS, STALL_STATUS_OPTIONS } from "@/data/stalls";
+
+export const FloorMapLegend = ({ types }: { types: string[] }) => (
+  <div className="flex flex-wrap gap-x-6 gap-y-2 text-xs text-muted-foreground">
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="font-medium text-foreground">Status</span>
+      {STALL_STATUS_OPTIONS.map((status) => (
+        <span key={status} className="flex items-center gap-1">
+          <span className="h-3 w-4 rounded-sm border" style={{ backgroundColor: STALL_STATUS_FILLS[status] }} />
+          {STALL_STATUS_LABELS[status]}
+        </span>
+      ))}
+    </div>
+    {types.length > 0 && (
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-foreground">Type</span>
+        {types.map((type) => (
+          <span key={type} className="flex items-center gap-1">
+            <span className="h-3 w-1.5 rounded-sm" style={{ backgroundColor: stallTypeColor(type) }} />
+            {type}
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,49 @@
+import { Link } from "react-router-dom";
+import { StallStatusBadge } from "@/components/admin/StallStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatStallLocation } from "@/data/floorMap";
+import type { StallRecord } from "@/data/stalls";
+import { formatDate, formatPeso } from "@/lib/format";
+
+type StallDetailsDialogProps = {
+  stall: StallRecord | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const StallDetailsDialog = ({ stall, onOpenChange }: StallDetailsDialogProps) => (
+  <Dialog open={!!stall} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      {stall && (
+        <>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {stall.name}
+              <StallStatusBadge status={stall.status} />
+            </DialogTitle>
+            <DialogDescription>
+              {[stall.type, formatStallLocation(stall)].filter(Boolean).join(" · ")}
+            </DialogDescription>
+          </DialogHeader>
+          <dl className="grid grid-cols-[8rem_1fr] gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Vendor</dt>
+            <dd>{stall.vendor || "—"}</dd>
+            <dt className="text-muted-foreground">Contact</dt>
+            <dd>{stall.contact || "—"}</dd>
+            <dt className="text-muted-foreground">Monthly rent</dt>
+            <dd>{formatPeso(stall.monthlyRent)}</dd>
+            <dt className="text-muted-foreground">Last payment</dt>
+            <dd>{formatDate(stall.lastPayment)}</dd>
+            <dt className="text-muted-foreground">Next due</dt>
+            <dd>{formatDate(stall.nextDue)}</dd>
+          </dl>
+          <DialogFooter>
+            <Button asChild>
+              <Link to={`/admin/stalls/${stall.dbId}`}>Open ledger</Link>
+            </Button>
+          </DialogFooter>
+        </>
+      )}
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,89 @@
+import { useEffect, useState, type ReactNode } from "react";
+import QRCode from "qrcode";
+import { formatPeriod } from "@/data/payments";
+import { isDuplicatePrint, receiptVerificationUrl, type Receipt } from "@/data/receipts";
+import { formatStallDisplay } from "@/data/stalls";
+import { pesoAmountInWords } from "@/lib/amount-in-words";
+import { formatDate, formatPeso } from "@/lib/format";
+
+const Row = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="grid grid-cols-[9rem_1fr] gap-2 border-b border-dashed py-2 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium">{children}</span>
+  </div>
+);
+
+export const OfficialReceipt = ({ receipt }: { receipt: Receipt }) => {
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(receiptVerificationUrl(receipt.orNumber), { margin: 1, width: 160 })
+      .then(setQrCodeDataUrl)
+      .catch((err) => console.error("Failed to generate receipt QR code", err));
+  }, [receipt.orNumber]);
+
+  const periodCovered =
+    receipt.periodStart === receipt.periodEnd
+      ? formatPeriod(receipt.periodStart)
+      : `${formatPeriod(receipt.periodStart)} – ${formatPeriod(receipt.periodEnd)}`;
+
+  return (
+    <div className="relative mx-auto w-full max-w-xl bg-white p-8 text-black shadow-lg print:max-w-none print:p-0 print:shadow-none">
+      {isDuplicatePrint(receipt) && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="-rotate-12 rounded border-4 border-red-600 px-6 py-2 text-5xl font-black tracking-widest text-red-600/60">
+            DUPLICATE
+          </span>
+        </div>
+      )}
+
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide">Republic of the Philippines</p>
+        <p className="text-xs uppercase tracking-wide">Municipality of Sibulan, Negros Oriental</p>
+        <h2 className="mt-2 text-2xl font-bold">OFFICIAL RECEIPT</h2>
+        <p className="text-sm">Public Market Stall Rental</p>
+      </div>
+
+      <div className="mt-6 flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs text-gray-500">OR No.</p>
+          <p className="font-mono text-2xl font-bold text-red-700">{receipt.orNumber}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-gray-500">Date</p>
+          <p className="font-medium">{formatDate(receipt.paidOn)}</p>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <Row label="Received from">{receipt.vendor}</Row>
+        <Row label="Stall">{formatStallDisplay({ name: receipt.stallName, vendor: receipt.vendor })}</Row>
+        <Row label="Period covered">{periodCovered}</Row>
+        <Row label="Payment method">{receipt.method}</Row>
+        {receipt.surcharge > 0 && (
+          <>
+            <Row label="Rent">{formatPeso(receipt.amount - receipt.surcharge)}</Row>
+            <Row label="Late surcharge">{formatPeso(receipt.surcharge)}</Row>
+          </>
+        )}
+        <Row label="Amount">{formatPeso(receipt.amount)}</Row>
+        <Row label="Amount in words">{pesoAmountInWords(receipt.amount)}</Row>
+      </div>
+
+      <div className="mt-6 flex items-end justify-between gap-4">
+        <div className="flex flex-col items-center">
+          {qrCodeDataUrl ? (
+            <img src={qrCodeDataUrl} alt={`Verification QR for OR ${receipt.orNumber}`} className="h-28 w-28" />
+          ) : (
+            <div className="h-28 w-28 animate-pulse bg-gray-100" />
+          )}
+          <p className="mt-1 text-[10px] text-gray-500">Scan to verify</p>
+        </div>
+        <div className="min-w-48 text-center">
+          <p className="border-b border-black pb-1 font-medium">{receipt.collector}</p>
+          <p className="text-xs text-gray-500">Collecting Officer</p>
+        </div>
+      </div>
+    </div>
+  );
+};
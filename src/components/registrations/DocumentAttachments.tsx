@@ -0,0 +1,50 @@
+import { ExternalLink, FileText } from "lucide-react";
+import { formatFileSize, isImageDocument, type RegistrationDocument } from "@/data/documents";
+import { REGISTRATION_REQUIREMENT_LABELS } from "@/data/registrations";
+import { useDocumentUrl } from "@/hooks/use-documents";
+
+const Attachment = ({ document }: { document: RegistrationDocument }) => {
+  const { data: url, isError } = useDocumentUrl(document.path);
+  const label = REGISTRATION_REQUIREMENT_LABELS[document.requirement];
+
+  return (
+    <li className="flex items-center gap-3 rounded border p-2">
+      {url && isImageDocument(document.mimeType) ? (
+        <a href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt={label} className="h-16 w-16 rounded object-cover" />
+        </a>
+      ) : (
+        <div className="flex h-16 w-16 items-center justify-center rounded bg-muted">
+          <FileText className="h-6 w-6 text-muted-foreground" />
+        </div>
+      )}
+      <div className="min-w-0 text-sm">
+        <p className="font-medium">{label}</p>
+        <p className="truncate text-xs text-muted-foreground">
+          {document.fileName} · {formatFileSize(document.size)}
+        </p>
+        {isError ? (
+          <p className="text-xs text-destructive">File unavailable</p>
+        ) : (
+          url && (
+            <a href={url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-xs text-primary hover:underline">
+              Open
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )
+        )}
+      </div>
+    </li>
+  );
+};
+
+export const DocumentAttachments = ({ documents }: { documents: RegistrationDocument[] }) =>
+  documents.length === 0 ? (
+    <p className="text-sm text-muted-foreground">No documents were uploaded.</p>
+  ) : (
+    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {documents.map((document) => (
+        <Attachment key={document.path} document={document} />
+      ))}
+    </ul>
+  );
@@ -0,0 +1,96 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import { FileText, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DOCUMENT_RULES, describeAcceptedTypes, formatFileSize, isImageDocument } from "@/data/documents";
+import { REGISTRATION_REQUIREMENT_LABELS, type RegistrationRequirement } from "@/data/registrations";
+import { prepareDocumentFile } from "@/lib/document-upload";
+
+type DocumentUploadFieldProps = {
+  requirement: RegistrationRequirement;
+  file: File | undefined;
+  onChange: (file: File | undefined) => void;
+};
+
+export const DocumentUploadField = ({ requirement, file, onChange }: DocumentUploadFieldProps) => {
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const rule = DOCUMENT_RULES[requirement];
+  const inputId = `document-${requirement}`;
+
+  useEffect(() => {
+    if (!file || !isImageDocument(file.type)) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    setError(null);
+    setProcessing(true);
+    try {
+      onChange(await prepareDocumentFile(requirement, selected));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "The file could not be used.");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">{REGISTRATION_REQUIREMENT_LABELS[requirement]}</p>
+          <p className="text-xs text-muted-foreground">
+            {describeAcceptedTypes(rule)} · up to {formatFileSize(rule.maxBytes)}
+          </p>
+        </div>
+        {file && (
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange(undefined)} aria-label="Remove file">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {file ? (
+        <div className="flex items-center gap-3">
+          {previewUrl ? (
+            <img src={previewUrl} alt={REGISTRATION_REQUIREMENT_LABELS[requirement]} className="h-20 w-20 rounded object-cover border" />
+          ) : (
+            <div className="flex h-20 w-20 items-center justify-center rounded border bg-muted">
+              <FileText className="h-8 w-8 text-muted-foreground" />
+            </div>
+          )}
+          <div className="text-sm min-w-0">
+            <p className="truncate">{file.name}</p>
+            <p className="text-muted-foreground">{formatFileSize(file.size)}</p>
+          </div>
+        </div>
+      ) : (
+        <label
+          htmlFor={inputId}
+          className="flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed py-4 text-sm text-muted-foreground hover:bg-muted/50"
+        >
+          <Upload className="h-4 w-4" />
+          {processing ? "Preparing file..." : "Choose file or take a photo"}
+        </label>
+      )}
+      <input
+        id={inputId}
+        type="file"
+        accept={rule.mimeTypes.join(",")}
+        className="sr-only"
+        onChange={handleSelect}
+        disabled={processing}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { REGISTRATION_STATUS_LABELS, type RegistrationStatus } from "@/data/registrations";
+import { cn } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<RegistrationStatus, string> = {
+  submitted: "bg-sky-100 text-sky-800 hover:bg-sky-100",
+  under_review: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  approved: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+  waitlisted: "bg-slate-100 text-slate-700 hover:bg-slate-100",
+};
+
+export const RegistrationStatusBadge = ({ status, className }: { status: RegistrationStatus; className?: string }) => (
+  <Badge variant="outline" className={cn("border-transparent", STATUS_CLASSES[status], className)}>
+    {REGISTRATION_STATUS_LABELS[status]}
+  </Badge>
+);
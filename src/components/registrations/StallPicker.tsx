@@ -0,0 +1,84 @@
+import { Check } from "lucide-react";
+import { FloorMap } from "@/components/floor-map/FloorMap";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatStallLocation } from "@/data/floorMap";
+import { isAvailableForApplicant, type StallRecord } from "@/data/stalls";
+import { formatPeso } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+type StallPickerProps = {
+  stalls: StallRecord[];
+  stallType: string;
+  holder: string;
+  selectedDbId: number | undefined;
+  onSelect: (stall: StallRecord) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Vacant stalls of the chosen type that are not held for another applicant, as a list or,
+ * once the market office has drawn the floor plan, on the map.
+ */
+export const StallPicker = ({ stalls, stallType, holder, selectedDbId, onSelect, disabled }: StallPickerProps) => {
+  const isAvailable = (stall: StallRecord) =>
+    stall.type === stallType && (stall.dbId === selectedDbId || isAvailableForApplicant(stall, holder));
+  const available = stalls.filter(isAvailable);
+  const hasMap = stalls.some((stall) => stall.position);
+
+  if (available.length === 0) {
+    return (
+      <p className="rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+        No {stallType} stalls are vacant right now. Please choose another type or check again later.
+      </p>
+    );
+  }
+
+  const list = (
+    <div role="radiogroup" className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {available.map((stall) => {
+        const selected = stall.dbId === selectedDbId;
+        return (
+          <button
+            key={stall.dbId}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            disabled={disabled}
+            onClick={() => onSelect(stall)}
+            className={cn(
+              "flex items-center justify-between rounded-lg border p-4 text-left transition-colors hover:bg-muted/50 disabled:opacity-60",
+              selected && "border-primary bg-primary/5 ring-1 ring-primary",
+            )}
+          >
+            <div>
+              <p className="font-medium">{stall.name}</p>
+              {formatStallLocation(stall) && (
+                <p className="text-xs text-muted-foreground">{formatStallLocation(stall)}</p>
+              )}
+              <p className="text-sm text-muted-foreground">{formatPeso(stall.monthlyRent)} per month</p>
+            </div>
+            {selected && <Check className="h-5 w-5 text-primary" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  if (!hasMap) return list;
+
+  return (
+    <Tabs defaultValue="list">
+      <TabsList>
+        <TabsTrigger value="list">List</TabsTrigger>
+        <TabsTrigger value="map">Map</TabsTrigger>
+      </TabsList>
+      <TabsContent value="list">{list}</TabsContent>
+      <TabsContent value="map" className="space-y-2">
+        <FloorMap stalls={stalls} selectedDbId={selectedDbId} onSelect={onSelect} isSelectable={(stall) => !disabled && isAvailable(stall)} />
+        <p className="text-xs text-muted-foreground">
+          Highlighted stalls are vacant {stallType} stalls you can choose. Stalls not shown on the map are in the list.
+        </p>
+      </TabsContent>
+    </Tabs>
+  );
+};
@@ -0,0 +1,44 @@
+import { Input } from "@/components/ui/input";
+import { DENOMINATIONS, formatDenomination, type DenominationCounts } from "@/data/remittances";
+import { formatPeso } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+
+type DenominationCountFieldsProps = {
+  counts: DenominationCounts;
+  onChange: (counts: DenominationCounts) => void;
+};
+
+/** One "pieces" input per bill and coin, with the subtotal beside it. */
+export const DenominationCountFields = ({ counts, onChange }: DenominationCountFieldsProps) => (
+  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+    {DENOMINATIONS.map((denomination) => {
+      const key = String(denomination);
+      const pieces = counts[key] ?? 0;
+      return (
+        <div key={key} className="flex items-center gap-2">
+          <label htmlFor={`denomination-${key}`} className="w-16 shrink-0 text-right text-sm font-medium">
+            {formatDenomination(denomination)}
+          </label>
+          <span className="text-muted-foreground">×</span>
+          <Input
+            id={`denomination-${key}`}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={1}
+            value={pieces || ""}
+            placeholder="0"
+            onChange={(event) => {
+              const value = Math.max(0, Math.floor(Number(event.target.value) || 0));
+              onChange({ ...counts, [key]: value });
+            }}
+            className="h-10 w-20"
+          />
+          <span className="flex-1 text-right text-sm tabular-nums text-muted-foreground">
+            {pieces > 0 ? formatPeso(fromCentavos(toCentavos(denomination) * pieces)) : ""}
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Payment } from "@/data/payments";
+import {
+  countedTotal,
+  expectedCash,
+  remittanceVariance,
+  type DenominationCounts,
+  type Remittance,
+} from "@/data/remittances";
+import { useSubmitRemittance } from "@/hooks/use-remittances";
+import { formatDate, formatPeso } from "@/lib/format";
+import { DenominationCountFields } from "./DenominationCountFields";
+import { VarianceBadge } from "./VarianceBadge";
+
+type RemittanceCountFormProps = {
+  collector: string;
+  day: string;
+  payments: Payment[];
+  onSubmitted: (remittance: Remittance) => void;
+};
+
+/** The collector's cash count for closing a day, checked against the cash payments they recorded. */
+export const RemittanceCountForm = ({ collector, day, payments, onSubmitted }: RemittanceCountFormProps) => {
+  const submitRemittance = useSubmitRemittance();
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [notes, setNotes] = useState("");
+
+  const expected = expectedCash(payments, collector, day);
+  const counted = countedTotal(counts);
+  const variance = remittanceVariance({ counted, expected: expected.total });
+
+  const handleSubmit = async () => {
+    try {
+      const remittance = await submitRemittance.mutateAsync({
+        collector,
+        day,
+        counts,
+        counted,
+        expected: expected.total,
+        paymentCount: expected.count,
+        notes: notes.trim(),
+      });
+      toast.success(`Remitted ${formatPeso(counted)} for ${formatDate(day)}`);
+      onSubmitted(remittance);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to submit remittance. ${message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-3 gap-2 rounded-md border bg-muted/40 p-3">
+        <div>
+          <p className="text-muted-foreground">Recorded</p>
+          <p className="font-semibold">{formatPeso(expected.total)}</p>
+          <p className="text-xs text-muted-foreground">
+            {expected.count} cash {expected.count === 1 ? "payment" : "payments"}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Counted</p>
+          <p className="font-semibold">{formatPeso(counted)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Difference</p>
+          <VarianceBadge variance={variance} className="mt-1" />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Only cash is counted; GCash, bank transfer and check payments go to the treasurer directly.
+      </p>
+
+      <DenominationCountFields counts={counts} onChange={setCounts} />
+
+      <div className="space-y-2">
+        <Label htmlFor="remittance-notes">Notes{variance.kind !== "balanced" && " *"}</Label>
+        <Textarea
+          id="remittance-notes"
+          rows={2}
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          placeholder={
+            variance.kind === "balanced" ? "Optional" : `Explain why the cash is ${variance.kind === "short" ? "short" : "over"}`
+          }
+        />
+      </div>
+
+      <Button
+        className="h-12 w-full text-base"
+        onClick={handleSubmit}
+        disabled={submitRemittance.isPending || (variance.kind !== "balanced" && notes.trim() === "")}
+      >
+        {submitRemittance.isPending ? "Submitting..." : `Close day and remit ${formatPeso(counted)}`}
+      </Button>
+      <p className="text-center text-xs text-muted-foreground">
+        Once submitted, no more payments can be recorded for {collector} on {formatDate(day)}.
+      </p>
+    </div>
+  );
+};
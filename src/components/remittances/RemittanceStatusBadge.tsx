@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge";
+import { REMITTANCE_STATUS_LABELS, type RemittanceStatus } from "@/data/remittances";
+import { cn } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<RemittanceStatus, string> = {
+  submitted: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  approved: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100",
+  returned: "bg-slate-100 text-slate-700 hover:bg-slate-100",
+};
+
+export const RemittanceStatusBadge = ({ status, className }: { status: RemittanceStatus; className?: string }) => (
+  <Badge variant="outline" className={cn("border-transparent", STATUS_CLASSES[status], className)}>
+    {REMITTANCE_STATUS_LABELS[status]}
+  </Badge>
+);
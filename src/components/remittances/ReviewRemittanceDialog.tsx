@@ -0,0 +1,198 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DENOMINATIONS,
+  formatDenomination,
+  remittanceReviewSchema,
+  remittanceVariance,
+  type Remittance,
+  type RemittanceReview,
+  type RemittanceReviewFormData,
+} from "@/data/remittances";
+import { useReviewRemittance } from "@/hooks/use-remittances";
+import { formatDate, formatPeso } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { RemittanceStatusBadge } from "./RemittanceStatusBadge";
+import { VarianceBadge } from "./VarianceBadge";
+
+type ReviewRemittanceDialogProps = {
+  remittance: Remittance | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const ReviewRemittanceDialog = ({ remittance, onOpenChange }: ReviewRemittanceDialogProps) => {
+  const reviewRemittance = useReviewRemittance();
+  const form = useForm<RemittanceReviewFormData>({
+    resolver: zodResolver(remittanceReviewSchema),
+    defaultValues: { reviewedBy: "", reviewNote: "" },
+  });
+
+  useEffect(() => {
+    if (remittance) form.reset({ reviewedBy: "", reviewNote: "" });
+  }, [remittance, form]);
+
+  const variance = remittance ? remittanceVariance(remittance) : null;
+  const counted = remittance
+    ? DENOMINATIONS.filter((denomination) => (remittance.counts[String(denomination)] ?? 0) > 0)
+    : [];
+
+  const submitReview = (status: RemittanceReview["status"]) =>
+    form.handleSubmit(async (data) => {
+      if (!remittance) return;
+      // A shortage or overage is approved only with the treasurer's explanation on record.
+      if (!data.reviewNote && (status === "returned" || variance?.kind !== "balanced")) {
+        form.setError("reviewNote", {
+          message: status === "returned" ? "Say what needs recounting." : "Explain how the difference was settled.",
+        });
+        return;
+      }
+      try {
+        await reviewRemittance.mutateAsync({
+          dbId: remittance.dbId,
+          review: { status, reviewedBy: data.reviewedBy, reviewNote: data.reviewNote },
+        });
+        toast.success(
+          status === "approved"
+            ? `Approved ${remittance.collector}'s remittance`
+            : `Returned ${remittance.collector}'s remittance for recount`,
+        );
+        onOpenChange(false);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Please try again.";
+        toast.error(`Failed to review remittance. ${message}`);
+      }
+    });
+
+  return (
+    <Dialog open={remittance !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Remittance</DialogTitle>
+          <DialogDescription>
+            {remittance && `${remittance.collector} · ${formatDate(remittance.day)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {remittance && variance && (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-3 gap-2 rounded-md border bg-muted/40 p-3">
+              <div>
+                <p className="text-muted-foreground">Recorded</p>
+                <p className="font-semibold">{formatPeso(remittance.expected)}</p>
+                <p className="text-xs text-muted-foreground">{remittance.paymentCount} cash payments</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Counted</p>
+                <p className="font-semibold">{formatPeso(remittance.counted)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Difference</p>
+                <VarianceBadge variance={variance} className="mt-1" />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Denomination</TableHead>
+                  <TableHead className="text-right">Pieces</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {counted.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No cash counted.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  counted.map((denomination) => {
+                    const pieces = remittance.counts[String(denomination)] ?? 0;
+                    return (
+                      <TableRow key={denomination}>
+                        <TableCell>{formatDenomination(denomination)}</TableCell>
+                        <TableCell className="text-right">{pieces}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPeso(fromCentavos(toCentavos(denomination) * pieces))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+
+            {remittance.notes && (
+              <p>
+                <span className="text-muted-foreground">Collector's note:</span> {remittance.notes}
+              </p>
+            )}
+
+            {remittance.status === "submitted" ? (
+              <Form {...form}>
+                <form onSubmit={(event) => event.preventDefault()} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="reviewedBy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Treasurer *</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Name of the receiving treasurer" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="reviewNote"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Note{variance.kind !== "balanced" && " *"}</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} {...field} placeholder="e.g. Shortage paid by the collector" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={submitReview("returned")}
+                      disabled={reviewRemittance.isPending}
+                    >
+                      Return for recount
+                    </Button>
+                    <Button type="button" onClick={submitReview("approved")} disabled={reviewRemittance.isPending}>
+                      {reviewRemittance.isPending ? "Saving..." : "Approve"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            ) : (
+              <div className="space-y-1 rounded-md border p-3">
+                <RemittanceStatusBadge status={remittance.status} />
+                <p>
+                  By {remittance.reviewedBy} on {formatDate(remittance.reviewedAt, "MMM d, yyyy h:mm a")}
+                </p>
+                {remittance.reviewNote && <p className="text-muted-foreground">{remittance.reviewNote}</p>}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
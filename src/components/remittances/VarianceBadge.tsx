@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { VARIANCE_LABELS, type VarianceKind } from "@/data/remittances";
+import { formatPeso } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+const VARIANCE_CLASSES: Record<VarianceKind, string> = {
+  balanced: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100",
+  short: "bg-red-100 text-red-800 hover:bg-red-100",
+  over: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+};
+
+type VarianceBadgeProps = {
+  variance: { kind: VarianceKind; amount: number };
+  className?: string;
+};
+
+export const VarianceBadge = ({ variance, className }: VarianceBadgeProps) => (
+  <Badge variant="outline" className={cn("border-transparent", VARIANCE_CLASSES[variance.kind], className)}>
+    {VARIANCE_LABELS[variance.kind]}
+    {variance.kind !== "balanced" && ` ${formatPeso(Math.abs(variance.amount))}`}
+  </Badge>
+);
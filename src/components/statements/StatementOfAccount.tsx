@@ -0,0 +1,99 @@
+import type { ReactNode } from "react";
+import type { Statement } from "@/data/statements";
+import { formatDate, formatPeso } from "@/lib/format";
+
+const SummaryRow = ({ label, children, strong }: { label: string; children: ReactNode; strong?: boolean }) => (
+  <div className={strong ? "flex justify-between border-t border-black pt-1 font-bold" : "flex justify-between"}>
+    <span>{label}</span>
+    <span>{children}</span>
+  </div>
+);
+
+const formatBalance = (amount: number) => (amount < 0 ? `(${formatPeso(-amount)})` : formatPeso(amount));
+
+export const StatementOfAccount = ({ statement, preparedOn }: { statement: Statement; preparedOn: string }) => {
+  const showStall = statement.stallNames.length > 1;
+
+  return (
+    <div className="mx-auto w-full max-w-4xl bg-white p-8 text-black shadow-lg print:max-w-none print:p-0 print:shadow-none">
+      <div className="text-center">
+        <p className="text-xs uppercase tracking-wide">Republic of the Philippines</p>
+        <p className="text-xs uppercase tracking-wide">Municipality of Sibulan, Negros Oriental</p>
+        <h2 className="mt-2 text-2xl font-bold">STATEMENT OF ACCOUNT</h2>
+        <p className="text-sm">Public Market Stall Rental</p>
+      </div>
+
+      <div className="mt-6 grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-xs text-gray-500">Vendor</p>
+          <p className="font-medium">{statement.vendor || "—"}</p>
+          <p className="mt-2 text-xs text-gray-500">{showStall ? "Stalls" : "Stall"}</p>
+          <p className="font-medium">{statement.stallNames.join(", ")}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-gray-500">Period</p>
+          <p className="font-medium">
+            {formatDate(statement.from)} – {formatDate(statement.to)}
+          </p>
+          <p className="mt-2 text-xs text-gray-500">Prepared</p>
+          <p className="font-medium">{formatDate(preparedOn)}</p>
+        </div>
+      </div>
+
+      <table className="mt-6 w-full text-sm">
+        <thead>
+          <tr className="border-b border-black text-left">
+            <th className="py-1 font-semibold">Date</th>
+            {showStall && <th className="py-1 font-semibold">Stall</th>}
+            <th className="py-1 font-semibold">Particulars</th>
+            <th className="py-1 text-right font-semibold">Charges</th>
+            <th className="py-1 text-right font-semibold">Payments</th>
+            <th className="py-1 text-right font-semibold">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-b border-dashed">
+            <td className="py-1">{formatDate(statement.from)}</td>
+            {showStall && <td />}
+            <td className="py-1 font-medium">Opening balance</td>
+            <td />
+            <td />
+            <td className="py-1 text-right font-medium">{formatBalance(statement.openingBalance)}</td>
+          </tr>
+          {statement.entries.map((entry, index) => (
+            <tr key={index} className="border-b border-dashed break-inside-avoid">
+              <td className="py-1 whitespace-nowrap">{formatDate(entry.date)}</td>
+              {showStall && <td className="py-1">{entry.stallName}</td>}
+              <td className="py-1">{entry.description}</td>
+              <td className="py-1 text-right">{entry.charge ? formatPeso(entry.charge) : ""}</td>
+              <td className="py-1 text-right">{entry.credit ? formatPeso(entry.credit) : ""}</td>
+              <td className="py-1 text-right">{formatBalance(entry.balance)}</td>
+            </tr>
+          ))}
+          {statement.entries.length === 0 && (
+            <tr>
+              <td colSpan={showStall ? 6 : 5} className="py-4 text-center text-gray-500">
+                No charges or payments in this period.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="mt-6 ml-auto w-full max-w-xs space-y-1 text-sm">
+        <SummaryRow label="Opening balance">{formatBalance(statement.openingBalance)}</SummaryRow>
+        <SummaryRow label="Rent charged">{formatPeso(statement.totals.rent)}</SummaryRow>
+        <SummaryRow label="Late surcharges">{formatPeso(statement.totals.surcharge)}</SummaryRow>
+        <SummaryRow label="Payments">({formatPeso(statement.totals.payment)})</SummaryRow>
+        <SummaryRow label="Surcharges waived">({formatPeso(statement.totals.waiver)})</SummaryRow>
+        <SummaryRow label={statement.closingBalance < 0 ? "Advance payment" : "Balance due"} strong>
+          {formatPeso(Math.abs(statement.closingBalance))}
+        </SummaryRow>
+      </div>
+
+      <p className="mt-8 text-xs text-gray-500">
+        Amounts in parentheses are credits. Payments made after {formatDate(statement.to)} are not reflected.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { describeOutboxEntry, OUTBOX_KIND_LABELS, type OutboxEntry } from "@/data/outbox";
+import { useDiscardOutboxEntry } from "@/hooks/use-outbox";
+import { useApplyOutboxEntry } from "@/hooks/use-sync";
+import { formatDate } from "@/lib/format";
+
+const APPLY_LABELS: Record<OutboxEntry["kind"], string> = {
+  payment: "Record anyway",
+  registration: "Submit anyway",
+};
+
+const DISCARD_HINTS: Record<OutboxEntry["kind"], string> = {
+  payment: "Discarding removes the payment from this device; return the cash to the vendor or record it again by hand.",
+  registration: "Discarding removes the application from this device; the applicant will need to apply again.",
+};
+
+type OutboxReviewDialogProps = {
+  entry: OutboxEntry | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+export const OutboxReviewDialog = ({ entry, onOpenChange }: OutboxReviewDialogProps) => {
+  const applyEntry = useApplyOutboxEntry();
+  const discardEntry = useDiscardOutboxEntry();
+  const busy = applyEntry.isPending || discardEntry.isPending;
+
+  const handleApply = async () => {
+    if (!entry) return;
+    try {
+      const result = await applyEntry.mutateAsync(entry);
+      if (result === "conflict") {
+        toast.error("This change still cannot be applied. Discard it instead.");
+        return;
+      }
+      toast.success(`${OUTBOX_KIND_LABELS[entry.kind]} saved.`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to apply the queued change. ${message}`);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!entry) return;
+    try {
+      await discardEntry.mutateAsync(entry.id);
+      toast.success(`${OUTBOX_KIND_LABELS[entry.kind]} discarded.`);
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to discard the queued change. ${message}`);
+    }
+  };
+
+  return (
+    <AlertDialog open={entry !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        {entry && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Review queued {OUTBOX_KIND_LABELS[entry.kind].toLowerCase()}</AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-3">
+                  <p>
+                    <span className="font-medium text-foreground">{describeOutboxEntry(entry)}</span>, queued on{" "}
+                    {formatDate(entry.queuedAt, "MMM d, yyyy h:mm a")}.
+                  </p>
+                  <p className="rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-900">{entry.conflict}</p>
+                  <p>{DISCARD_HINTS[entry.kind]}</p>
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={busy}>Decide later</AlertDialogCancel>
+              <Button variant="outline" onClick={handleDiscard} disabled={busy}>
+                Discard
+              </Button>
+              <Button onClick={handleApply} disabled={busy}>
+                {applyEntry.isPending ? "Saving..." : APPLY_LABELS[entry.kind]}
+              </Button>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
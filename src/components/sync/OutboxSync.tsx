@@ -0,0 +1,7 @@
+import { useOutboxSync } from "@/hooks/use-sync";
+
+/** Runs the outbox replay for the whole app; renders nothing. */
+export const OutboxSync = () => {
+  useOutboxSync();
+  return null;
+};
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { describeOutboxEntry, type OutboxEntry } from "@/data/outbox";
+import { useOnlineStatus, useOutbox } from "@/hooks/use-outbox";
+import { formatDate } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import { OutboxReviewDialog } from "./OutboxReviewDialog";
+
+/** Connection and outbox state; hidden while online with nothing waiting to sync. */
+export const SyncStatusBadge = ({ className }: { className?: string }) => {
+  const online = useOnlineStatus();
+  const { data: entries = [] } = useOutbox();
+  const [reviewing, setReviewing] = useState<OutboxEntry | null>(null);
+
+  const conflicts = entries.filter((entry) => entry.status === "conflict").length;
+  const pending = entries.length - conflicts;
+  if (online && entries.length === 0) return null;
+
+  const Icon = conflicts > 0 ? TriangleAlert : online ? RefreshCw : CloudOff;
+  const label = [
+    !online && "Offline",
+    pending > 0 && `${pending} pending sync`,
+    conflicts > 0 && `${conflicts} to review`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" className={cn("shrink-0", className)} aria-label={`Sync status: ${label}`}>
+            <Badge
+              variant="outline"
+              className={cn(
+                "gap-1 border-transparent",
+                conflicts > 0
+                  ? "bg-red-100 text-red-800 hover:bg-red-100"
+                  : online
+                    ? "bg-amber-100 text-amber-800 hover:bg-amber-100"
+                    : "bg-slate-100 text-slate-700 hover:bg-slate-100",
+              )}
+            >
+              <Icon className="h-3 w-3" />
+              {label}
+            </Badge>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3 text-sm">
+          <p className="text-muted-foreground">
+            {online
+              ? "Queued changes are sent automatically, oldest first."
+              : "You are offline. Payments and applications are saved on this device and sent when the connection returns."}
+          </p>
+          {entries.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between gap-2 p-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{describeOutboxEntry(entry)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Queued {formatDate(entry.queuedAt, "MMM d, h:mm a")}
+                    </p>
+                  </div>
+                  {entry.status === "conflict" ? (
+                    <Button size="sm" variant="destructive" onClick={() => setReviewing(entry)}>
+                      Review
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Pending</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+      <OutboxReviewDialog entry={reviewing} onOpenChange={(open) => !open && setReviewing(null)} />
+    </>
+  );
+};
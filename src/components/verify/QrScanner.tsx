@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { CameraOff } from "lucide-react";
+import { createVideoQrDecoder } from "@/lib/qr-decode";
+
+type QrScannerProps = {
+  onDecode: (value: string) => void;
+  paused?: boolean;
+};
+
+const SCAN_INTERVAL_MS = 250;
+
+export const QrScanner = ({ onDecode, paused = false }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDecodeRef = useRef(onDecode);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDecodeRef.current = onDecode;
+  }, [onDecode]);
+
+  useEffect(() => {
+    if (paused) return;
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const decode = createVideoQrDecoder();
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const value = await decode(video);
+        if (value && !cancelled) {
+          onDecodeRef.current(value);
+          return;
+        }
+      } catch (error) {
+        console.error("QR decode failed", error);
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("This browser cannot open the camera. Upload a photo or type the code instead.");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraError(null);
+        scan();
+      } catch (error) {
+        const denied = error instanceof DOMException && error.name === "NotAllowedError";
+        setCameraError(
+          denied
+            ? "Camera permission was denied. Allow camera access or use the upload and manual entry options."
+            : "Could not start the camera. Use the upload and manual entry options instead.",
+        );
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [paused]);
+
+  if (cameraError) {
+    return (
+      <div className="flex aspect-square w-full flex-col items-center justify-center gap-3 rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+        <CameraOff className="h-8 w-8" />
+        <p>{cameraError}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} className="h-full w-full object-cover" playsInline muted />
+      <div className="pointer-events-none absolute inset-[15%] rounded-lg border-4 border-white/70" />
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import type { ReactNode } from "react";
+import { AlertTriangle, CheckCircle2, ShieldAlert, XCircle } from "lucide-react";
+import { StallStatusBadge } from "@/components/admin/StallStatusBadge";
+import { RegistrationStatusBadge } from "@/components/registrations/RegistrationStatusBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { applicantName } from "@/data/registrations";
+import { formatStallDisplay } from "@/data/stalls";
+import { computeStallStatus } from "@/data/stallStatus";
+import type { VerificationResult } from "@/hooks/use-verification";
+import { formatDate, formatPeso, sameName } from "@/lib/format";
+
+const Detail = ({ label, value }: { label: string; value: ReactNode }) => (
+  <div className="flex justify-between gap-4 border-b py-2 text-sm last:border-0">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="text-right font-medium">{value}</span>
+  </div>
+);
+
+export const VerificationResultCard = ({ result }: { result: VerificationResult }) => {
+  if (result.kind === "invalid") {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="flex items-start gap-3 pt-6">
+          <XCircle className="h-6 w-6 shrink-0 text-destructive" />
+          <div>
+            <p className="font-semibold text-destructive">Not valid</p>
+            <p className="text-sm text-muted-foreground">{result.message}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (result.kind === "not_found") {
+    return (
+      <Card className="border-amber-400">
+        <CardContent className="flex items-start gap-3 pt-6">
+          <AlertTriangle className="h-6 w-6 shrink-0 text-amber-500" />
+          <div>
+            <p className="font-semibold">Registration not found</p>
+            <p className="text-sm text-muted-foreground">
+              No registration with ID <span className="font-mono">{result.registrationId}</span> exists.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { registration, stall, signed } = result;
+  // The stall awarded on approval may since have been vacated or passed to another tenant.
+  const leased = stall && sameName(stall.vendor, applicantName(registration)) ? stall : null;
+  // The stored status is only refreshed when the admin screens load, so work it out from the due date.
+  const rentStatus = leased ? computeStallStatus(leased, new Date()) : null;
+  const rentCurrent = rentStatus === "current";
+
+  return (
+    <Card className={signed ? "border-emerald-400" : "border-amber-400"}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {signed ? (
+            <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-amber-500" />
+          )}
+          {registration.firstName} {registration.lastName}
+        </CardTitle>
+        {!signed && (
+          <p className="text-sm text-amber-700">Looked up by ID only — ask the vendor for their QR code to confirm.</p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Detail label="Registration ID" value={<span className="font-mono text-xs">{registration.registrationId}</span>} />
+        <Detail label="Application" value={<RegistrationStatusBadge status={registration.status} />} />
+        {leased ? (
+          <>
+            <Detail label="Stall" value={formatStallDisplay(leased)} />
+            <Detail label="Rent status" value={<StallStatusBadge status={rentStatus} />} />
+            <Detail
+              label="Rent current"
+              value={rentCurrent ? "Yes" : <span className="text-destructive">No — next due {formatDate(leased.nextDue)}</span>}
+            />
+            <Detail label="Monthly rent" value={formatPeso(leased.monthlyRent)} />
+          </>
+        ) : stall ? (
+          <>
+            <Detail label="Stall" value={formatStallDisplay(stall)} />
+            <Detail label="Assignment" value={<span className="text-destructive">No longer assigned</span>} />
+          </>
+        ) : (
+          <>
+            <Detail label="Requested stall" value={`${registration.stallName} (${registration.stallType})`} />
+            <Detail label="Stall" value={<span className="text-muted-foreground">Not yet assigned</span>} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
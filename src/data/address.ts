@@ -0,0 +1,40 @@
+export const DEFAULT_MUNICIPALITY = "Sibulan";
+export const DEFAULT_PROVINCE = "Negros Oriental";
+
+export const SIBULAN_BARANGAYS = [
+  "Agan-an",
+  "Ajong",
+  "Balugo",
+  "Bolocboloc",
+  "Calabnugan",
+  "Cangmating",
+  "Enrique Villanueva",
+  "Looc",
+  "Magatas",
+  "Maningcao",
+  "Maslog",
+  "Poblacion",
+  "San Antonio",
+  "Tubigon",
+  "Tubtubon",
+] as const;
+
+export type StructuredAddress = {
+  street: string; // house number, street, purok or sitio
+  barangay: string;
+  municipality: string;
+  province: string;
+};
+
+export const isSibulan = (municipality: string): boolean =>
+  municipality.trim().toLowerCase() === DEFAULT_MUNICIPALITY.toLowerCase();
+
+export const isSibulanBarangay = (barangay: string): boolean =>
+  (SIBULAN_BARANGAYS as readonly string[]).includes(barangay);
+
+/** One-line address for lists and printouts, e.g. "Purok 2, Brgy. Maslog, Sibulan, Negros Oriental". */
+export const formatAddress = (address: Partial<StructuredAddress>): string =>
+  [address.street, address.barangay && `Brgy. ${address.barangay}`, address.municipality, address.province]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
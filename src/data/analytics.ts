@@ -0,0 +1,213 @@
+import {
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  parseISO,
+  startOfQuarter,
+  subMonths,
+  subQuarters,
+} from "date-fns";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import {
+  billedPeriods,
+  currentTenantPayments,
+  duePeriodsAsOf,
+  formatPeriod,
+  nextPeriod,
+  paidByPeriod,
+  type Payment,
+} from "./payments";
+import { totalSurcharge } from "./penalties";
+import { rentForPeriod } from "./rentRates";
+import type { StallRecord } from "./stalls";
+
+/** Months shown on the dashboard, inclusive, as "yyyy-MM". */
+export type AnalyticsRange = {
+  from: string;
+  to: string;
+};
+
+export type AnalyticsPreset = "quarter" | "last-quarter" | "year";
+
+export const ANALYTICS_PRESET_LABELS: Record<AnalyticsPreset, string> = {
+  quarter: "This quarter",
+  "last-quarter": "Last quarter",
+  year: "Last 12 months",
+};
+
+export const analyticsRange = (preset: AnalyticsPreset, today: Date = new Date()): AnalyticsRange => {
+  const month = (date: Date) => format(date, "yyyy-MM");
+  if (preset === "quarter") return { from: month(startOfQuarter(today)), to: month(today) };
+  if (preset === "last-quarter") {
+    const start = startOfQuarter(subQuarters(today, 1));
+    return { from: month(start), to: month(addMonths(start, 2)) };
+  }
+  return { from: month(subMonths(today, 11)), to: month(today) };
+};
+
+export const monthsInRange = ({ from, to }: AnalyticsRange): string[] => {
+  const months: string[] = [];
+  for (let period = from; period <= to && months.length < 120; period = nextPeriod(period)) months.push(period);
+  return months;
+};
+
+const paymentsByStall = (payments: Payment[]) => {
+  const byStall = new Map<number, Payment[]>();
+  for (const payment of payments) byStall.set(payment.stallDbId, [...(byStall.get(payment.stallDbId) ?? []), payment]);
+  return byStall;
+};
+
+/**
+ * Rent billed on a stall per month up to `asOf`. Stalls do not keep a dated occupancy log, so a
+ * month counts as occupied when it was billed to the current tenant (see `billedPeriods`) or
+ * falls between the first and last month an earlier tenant paid for.
+ */
+export const billedRentByPeriod = (stall: StallRecord, payments: Payment[], asOf: string): Map<string, number> => {
+  const billed = new Map<string, number>();
+  const earlier = new Map<string, Payment[]>();
+  for (const payment of payments) {
+    if (stall.occupied && sameName(payment.vendor, stall.vendor)) continue;
+    const key = payment.vendor.trim().toLowerCase();
+    earlier.set(key, [...(earlier.get(key) ?? []), payment]);
+  }
+  for (const tenantPayments of earlier.values()) {
+    const periods = Array.from(paidByPeriod(tenantPayments).keys()).sort();
+    for (let period = periods[0]; period && period <= periods[periods.length - 1]; period = nextPeriod(period)) {
+      if (`${period}-01` <= asOf) billed.set(period, rentForPeriod(stall, period));
+    }
+  }
+  if (stall.occupied) {
+    const own = currentTenantPayments(stall, payments);
+    for (const period of billedPeriods(stall, own, asOf)) billed.set(period.period, period.charged);
+  }
+  return billed;
+};
+
+export type MonthlyTrendPoint = {
+  period: string;
+  label: string;       // "Jan 2025"
+  occupied: number;
+  total: number;
+  occupancyRate: number; // percent of stalls
+  billed: number;
+  collected: number;   // payments received during the month, surcharges included
+};
+
+/** Occupancy and rent billed vs. collected for each month of `range`, counting up to `asOf` ("yyyy-MM-dd"). */
+export const monthlyTrend = (
+  stalls: StallRecord[],
+  payments: Payment[],
+  range: AnalyticsRange,
+  asOf: string,
+): MonthlyTrendPoint[] => {
+  const byStall = paymentsByStall(payments);
+  const billedByStall = stalls.map((stall) => billedRentByPeriod(stall, byStall.get(stall.dbId) ?? [], asOf));
+
+  return monthsInRange(range).map((period) => {
+    let occupied = 0;
+    let billed = 0;
+    for (const stallBilled of billedByStall) {
+      const charged = stallBilled.get(period);
+      if (charged === undefined) continue;
+      occupied += 1;
+      billed += toCentavos(charged);
+    }
+    const collected = payments
+      .filter((payment) => payment.paidOn.startsWith(period) && payment.paidOn <= asOf)
+      .reduce((total, payment) => total + toCentavos(payment.amount), 0);
+    return {
+      period,
+      label: format(parseISO(`${period}-01`), "MMM yyyy"),
+      occupied,
+      total: stalls.length,
+      occupancyRate: stalls.length === 0 ? 0 : Math.round((occupied / stalls.length) * 1000) / 10,
+      billed: fromCentavos(billed),
+      collected: fromCentavos(collected),
+    };
+  });
+};
+
+export type AgingBucketKey = "1-30" | "31-60" | "61-90" | "90+";
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string; minDays: number }[] = [
+  { key: "1-30", label: "1–30 days", minDays: 1 },
+  { key: "31-60", label: "31–60 days", minDays: 31 },
+  { key: "61-90", label: "61–90 days", minDays: 61 },
+  { key: "90+", label: "90+ days", minDays: 91 },
+];
+
+export type AgingBucket = {
+  key: AgingBucketKey;
+  label: string;
+  stalls: number;  // stalls whose oldest unpaid month falls in the bucket
+  amount: number;  // unpaid rent of the months that fall in the bucket
+};
+
+const bucketFor = (daysLate: number) =>
+  [...AGING_BUCKETS].reverse().find((bucket) => daysLate >= bucket.minDays) ?? null;
+
+/** Unpaid rent as of `asOf` ("yyyy-MM-dd") by days past its due date. Surcharges are left out. */
+export const agingBuckets = (stalls: StallRecord[], payments: Payment[], asOf: string): AgingBucket[] => {
+  const byStall = paymentsByStall(payments);
+  const amounts = new Map<AgingBucketKey, number>();
+  const counts = new Map<AgingBucketKey, number>();
+  for (const stall of stalls) {
+    const own = currentTenantPayments(stall, byStall.get(stall.dbId) ?? []);
+    const unpaid = duePeriodsAsOf(stall, own, asOf);
+    unpaid.forEach((line, index) => {
+      const bucket = bucketFor(differenceInCalendarDays(parseISO(asOf), parseISO(line.dueDate)));
+      if (!bucket) return;
+      amounts.set(bucket.key, (amounts.get(bucket.key) ?? 0) + toCentavos(line.balance));
+      if (index === 0) counts.set(bucket.key, (counts.get(bucket.key) ?? 0) + 1);
+    });
+  }
+  return AGING_BUCKETS.map((bucket) => ({
+    key: bucket.key,
+    label: bucket.label,
+    stalls: counts.get(bucket.key) ?? 0,
+    amount: fromCentavos(amounts.get(bucket.key) ?? 0),
+  }));
+};
+
+export type TypeRevenue = {
+  type: string;
+  payments: number;
+  rent: number;
+  surcharge: number;
+  total: number;
+};
+
+/** Payments received during `range`, grouped by the type of stall they were for, largest first. */
+export const revenueByType = (stalls: StallRecord[], payments: Payment[], range: AnalyticsRange): TypeRevenue[] => {
+  const typeOf = new Map(stalls.map((stall) => [stall.dbId, stall.type || "Unassigned"]));
+  const lastDay = format(endOfMonth(parseISO(`${range.to}-01`)), "yyyy-MM-dd");
+  const byType = new Map<string, { payments: number; total: number; surcharge: number }>();
+  for (const payment of payments) {
+    if (payment.paidOn < `${range.from}-01` || payment.paidOn > lastDay) continue;
+    const type = typeOf.get(payment.stallDbId) ?? "Unassigned";
+    const entry = byType.get(type) ?? { payments: 0, total: 0, surcharge: 0 };
+    entry.payments += 1;
+    entry.total += toCentavos(payment.amount);
+    entry.surcharge += toCentavos(totalSurcharge(payment));
+    byType.set(type, entry);
+  }
+  return Array.from(byType, ([type, entry]) => ({
+    type,
+    payments: entry.payments,
+    rent: fromCentavos(entry.total - entry.surcharge),
+    surcharge: fromCentavos(entry.surcharge),
+    total: fromCentavos(entry.total),
+  })).sort((a, b) => b.total - a.total || a.type.localeCompare(b.type));
+};
+
+/** Last day of `range` that has happened, so a range running into the future is reported as of today. */
+export const rangeAsOf = (range: AnalyticsRange, today: Date = new Date()): string => {
+  const end = format(endOfMonth(parseISO(`${range.to}-01`)), "yyyy-MM-dd");
+  const now = format(today, "yyyy-MM-dd");
+  return end < now ? end : now;
+};
+
+export const formatRange = ({ from, to }: AnalyticsRange): string =>
+  from === to ? formatPeriod(from) : `${formatPeriod(from)} – ${formatPeriod(to)}`;
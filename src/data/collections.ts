@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { compareStallLocation } from "./floorMap";
+import { PAYMENT_METHOD_LABELS, type Payment, type PaymentMethod } from "./payments";
+import { totalSurcharge } from "./penalties";
+import type { StallRecord } from "./stalls";
+import { computeStallStatus, DEFAULT_STATUS_POLICY, type StallStatusPolicy } from "./stallStatus";
+
+export type RouteSection = {
+  section: string; // "" for stalls not yet assigned to a section
+  stalls: StallRecord[];
+};
+
+/**
+ * The collector's walk for the day: occupied stalls that are due or overdue as of `today`,
+ * grouped by section in the order staff walk the market (see `compareStallLocation`).
+ */
+export const collectionRoute = (
+  stalls: StallRecord[],
+  today: Date,
+  policy: StallStatusPolicy = DEFAULT_STATUS_POLICY,
+): RouteSection[] => {
+  const sections: RouteSection[] = [];
+  const onRoute = stalls
+    .map((stall) => ({ ...stall, status: computeStallStatus(stall, today, policy) }))
+    .filter((stall) => stall.status === "due" || stall.status === "overdue")
+    .sort(compareStallLocation);
+  for (const stall of onRoute) {
+    const last = sections[sections.length - 1];
+    if (last && last.section === stall.section) last.stalls.push(stall);
+    else sections.push({ section: stall.section, stalls: [stall] });
+  }
+  return sections;
+};
+
+export type CollectionSummary = {
+  day: string;
+  collector: string;
+  payments: Payment[];
+  count: number;
+  total: number;
+  surcharge: number;
+  byMethod: { method: PaymentMethod; label: string; count: number; total: number }[];
+};
+
+/** What a collector took in on `day` ("yyyy-MM-dd"), for handing over at remittance. */
+export const summarizeCollections = (
+  payments: Payment[],
+  collector: string,
+  day: string = format(new Date(), "yyyy-MM-dd"),
+): CollectionSummary => {
+  const collected = payments.filter((payment) => payment.paidOn === day && sameName(payment.collector, collector));
+  const byMethod = (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).flatMap((method) => {
+    const matching = collected.filter((payment) => payment.method === method);
+    if (matching.length === 0) return [];
+    const total = fromCentavos(matching.reduce((sum, payment) => sum + toCentavos(payment.amount), 0));
+    return [{ method, label: PAYMENT_METHOD_LABELS[method], count: matching.length, total }];
+  });
+
+  return {
+    day,
+    collector,
+    payments: collected,
+    count: collected.length,
+    total: fromCentavos(collected.reduce((sum, payment) => sum + toCentavos(payment.amount), 0)),
+    surcharge: fromCentavos(collected.reduce((sum, payment) => sum + toCentavos(totalSurcharge(payment)), 0)),
+    byMethod,
+  };
+};
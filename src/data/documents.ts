@@ -0,0 +1,81 @@
+import type { RegistrationRequirement } from "./registrations";
+
+/** A file an applicant attached for one of the registration requirements. */
+export type RegistrationDocument = {
+  requirement: RegistrationRequirement;
+  path: string;     // key in document storage
+  fileName: string; // original name, for reviewers
+  mimeType: string;
+  size: number;     // bytes, after compression
+  uploadedAt: string;
+};
+
+export type DocumentRule = {
+  mimeTypes: string[];
+  maxBytes: number;
+  /** Longest side in pixels that images are scaled down to before upload. */
+  maxDimension: number;
+};
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MB = 1024 * 1024;
+
+export const DOCUMENT_RULES: Record<RegistrationRequirement, DocumentRule> = {
+  barangay_clearance: { mimeTypes: [...IMAGE_TYPES, "application/pdf"], maxBytes: 5 * MB, maxDimension: 2000 },
+  valid_id: { mimeTypes: [...IMAGE_TYPES, "application/pdf"], maxBytes: 5 * MB, maxDimension: 1600 },
+  sanitary_permit: { mimeTypes: [...IMAGE_TYPES, "application/pdf"], maxBytes: 5 * MB, maxDimension: 2000 },
+  photo_2x2: { mimeTypes: IMAGE_TYPES, maxBytes: 2 * MB, maxDimension: 600 },
+};
+
+// Phone cameras produce large originals; anything bigger is refused before we try to decode it.
+export const MAX_SOURCE_BYTES = 20 * MB;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+export const extensionForMimeType = (mimeType: string): string => MIME_EXTENSIONS[mimeType] ?? "bin";
+
+export const isImageDocument = (mimeType: string): boolean => mimeType.startsWith("image/");
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+/** Identifies the file type from its first bytes, since the browser's `file.type` only reflects the extension. */
+export const sniffMimeType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return "application/pdf";
+  return null;
+};
+
+export const describeAcceptedTypes = (rule: DocumentRule): string => {
+  const names = rule.mimeTypes.map((type) => extensionForMimeType(type).toUpperCase());
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}` : names[0];
+};
+
+/**
+ * Checks a selected file against the rule for its requirement. `detectedType` is the sniffed
+ * content type; a file whose content does not match its declared type is refused.
+ */
+export const validateDocumentFile = (
+  requirement: RegistrationRequirement,
+  file: { type: string; size: number },
+  detectedType: string | null,
+): string | null => {
+  const rule = DOCUMENT_RULES[requirement];
+  if (file.size === 0) return "The file is empty.";
+  if (file.size > MAX_SOURCE_BYTES) return `The file is larger than ${formatFileSize(MAX_SOURCE_BYTES)}.`;
+  if (!detectedType || !rule.mimeTypes.includes(detectedType)) {
+    return `Please upload a ${describeAcceptedTypes(rule)} file.`;
+  }
+  if (file.type && file.type !== detectedType) return "The file's contents do not match its file type.";
+  return null;
+};
@@ -0,0 +1,124 @@
+import { phonesMatch, type RegistrationFormData, type RegistrationRecord } from "./registrations";
+import type { StallRecord } from "./stalls";
+
+// Names at or above this similarity (0–1) are treated as the same person.
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+type Applicant = Pick<RegistrationFormData, "firstName" | "lastName" | "phone">;
+/** The application being checked; `registrationId` and `stallDbId` exclude its own record and stall. */
+export type ConflictCandidate = Applicant & {
+  stallName?: string;
+  registrationId?: string;
+  stallDbId?: number | null;
+};
+
+/** Lowercase, accents removed (Ñ → n), punctuation dropped and words sorted so "Cruz, Juan" matches "Juan Cruz". */
+export const normalizePersonName = (firstName: string, lastName: string): string =>
+  `${firstName} ${lastName}`
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+export const normalizeStallName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, " ");
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 1 for identical normalized names, falling towards 0 as more characters differ. */
+export const nameSimilarity = (a: Applicant, b: Applicant): number => {
+  const left = normalizePersonName(a.firstName ?? "", a.lastName ?? "");
+  const right = normalizePersonName(b.firstName ?? "", b.lastName ?? "");
+  const length = Math.max(left.length, right.length);
+  return length === 0 ? 0 : 1 - levenshtein(left, right) / length;
+};
+
+export type ApplicantMatch = {
+  registration: RegistrationRecord;
+  samePhone: boolean;
+  similarity: number;
+};
+
+export type StallConflict =
+  | { kind: "occupied"; stall: StallRecord }
+  | { kind: "requested"; registration: RegistrationRecord };
+
+export type DuplicateReport = {
+  applicants: ApplicantMatch[];
+  stalls: StallConflict[];
+};
+
+/** Same phone and the same (fuzzy) name: the applicant is registering again. */
+export const isSameApplicant = (match: Pick<ApplicantMatch, "samePhone" | "similarity">): boolean =>
+  match.samePhone && match.similarity >= NAME_MATCH_THRESHOLD;
+
+// Rejected applications neither block a new attempt nor reserve their stall.
+const isActive = (registration: RegistrationRecord) => registration.status !== "rejected";
+
+/**
+ * Finds other applications from what looks like the same person (same phone, or a very
+ * similar name) and stalls that are already occupied or requested by another open application.
+ */
+export const findDuplicates = (
+  candidate: ConflictCandidate,
+  registrations: RegistrationRecord[],
+  stalls: StallRecord[],
+): DuplicateReport => {
+  const others = registrations.filter(
+    (registration) => registration.registrationId !== candidate.registrationId && isActive(registration),
+  );
+
+  const applicants = others
+    .map((registration) => ({
+      registration,
+      samePhone: phonesMatch(registration.phone, candidate.phone ?? ""),
+      similarity: nameSimilarity(registration, candidate),
+    }))
+    .filter((match) => match.samePhone || match.similarity >= NAME_MATCH_THRESHOLD)
+    .sort((a, b) => Number(isSameApplicant(b)) - Number(isSameApplicant(a)) || b.similarity - a.similarity);
+
+  const stallName = normalizeStallName(candidate.stallName ?? "");
+  const stallConflicts: StallConflict[] = [
+    ...stalls
+      .filter(
+        (stall) =>
+          stall.occupied && stall.dbId !== candidate.stallDbId && normalizeStallName(stall.name) === stallName,
+      )
+      .map((stall) => ({ kind: "occupied" as const, stall })),
+    ...others
+      .filter(
+        (registration) =>
+          registration.status !== "approved" && normalizeStallName(registration.stallName) === stallName,
+      )
+      .map((registration) => ({ kind: "requested" as const, registration })),
+  ];
+
+  return { applicants, stalls: stallName ? stallConflicts : [] };
+};
+
+export const hasDuplicates = (report: DuplicateReport): boolean =>
+  report.applicants.length > 0 || report.stalls.length > 0;
+
+/** What an applicant is told before submitting; never exposes other applicants' details. */
+export type SubmissionConflicts = {
+  existingRegistrationId: string | null; // their own earlier application
+  stallUnavailable: boolean;
+};
+
+export const toSubmissionConflicts = (report: DuplicateReport): SubmissionConflicts => ({
+  existingRegistrationId: report.applicants.find(isSameApplicant)?.registration.registrationId ?? null,
+  stallUnavailable: report.stalls.length > 0,
+});
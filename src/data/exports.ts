@@ -0,0 +1,86 @@
+import type { ExportColumn } from "@/lib/csv";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { formatPhilippinePhone } from "@/lib/phone";
+import { formatAddress } from "./address";
+import { PAYMENT_METHOD_LABELS, formatPeriod, type Payment } from "./payments";
+import { totalSurcharge } from "./penalties";
+import { REGISTRATION_REQUIREMENT_LABELS, REGISTRATION_STATUS_LABELS, type RegistrationRecord } from "./registrations";
+import { STALL_STATUS_LABELS, type StallRecord } from "./stalls";
+
+// Spreadsheet columns for the auditors' exports. Amounts are plain numbers (headed "PHP") and
+// dates are real dates, so totals and filters work once the file is opened.
+
+export const STALL_EXPORT_COLUMNS: ExportColumn<StallRecord>[] = [
+  { header: "Stall ID", value: (stall) => stall.id },
+  { header: "Stall", value: (stall) => stall.name },
+  { header: "Vendor", value: (stall) => stall.vendor },
+  { header: "Contact", type: "phone", value: (stall) => formatPhilippinePhone(stall.contact) },
+  { header: "Type", value: (stall) => stall.type },
+  { header: "Section", value: (stall) => stall.section },
+  { header: "Row", value: (stall) => stall.row },
+  { header: "Area (sq m)", type: "number", value: (stall) => stall.areaSqm },
+  { header: "Monthly Rent (PHP)", type: "currency", value: (stall) => stall.monthlyRent },
+  { header: "Status", value: (stall) => STALL_STATUS_LABELS[stall.status] },
+  { header: "Occupied", value: (stall) => (stall.occupied ? "Yes" : "No") },
+  { header: "Last Payment", type: "date", value: (stall) => stall.lastPayment },
+  { header: "Next Due", type: "date", value: (stall) => stall.nextDue },
+];
+
+export const REGISTRATION_EXPORT_COLUMNS: ExportColumn<RegistrationRecord>[] = [
+  { header: "Registration ID", value: (registration) => registration.registrationId },
+  { header: "Filed", type: "datetime", value: (registration) => registration.createdAt },
+  { header: "Status", value: (registration) => REGISTRATION_STATUS_LABELS[registration.status] },
+  { header: "Last Name", value: (registration) => registration.lastName },
+  { header: "First Name", value: (registration) => registration.firstName },
+  { header: "Phone", type: "phone", value: (registration) => formatPhilippinePhone(registration.phone) },
+  { header: "Address", value: (registration) => formatAddress(registration) },
+  { header: "Stall Type", value: (registration) => registration.stallType },
+  { header: "Requested Stall", value: (registration) => registration.stallName },
+  { header: "Monthly Rent (PHP)", type: "currency", value: (registration) => registration.monthlyRent },
+  {
+    header: "Missing Requirements",
+    value: (registration) =>
+      registration.missingRequirements.map((requirement) => REGISTRATION_REQUIREMENT_LABELS[requirement]).join("; "),
+  },
+  { header: "Reviewed By", value: (registration) => registration.reviewedBy },
+  { header: "Reviewed At", type: "datetime", value: (registration) => registration.reviewedAt },
+  { header: "Rejection Reason", value: (registration) => registration.rejectionReason },
+];
+
+/** Payment ledger columns; `stalls` supplies the stall names, since a payment only keeps the stall's key. */
+export const paymentExportColumns = (stalls: Pick<StallRecord, "dbId" | "id" | "name">[]): ExportColumn<Payment>[] => {
+  const byDbId = new Map(stalls.map((stall) => [stall.dbId, stall]));
+  return [
+    { header: "Date Paid", type: "date", value: (payment) => payment.paidOn },
+    { header: "OR No.", value: (payment) => payment.orNumber },
+    { header: "Stall ID", value: (payment) => byDbId.get(payment.stallDbId)?.id ?? `stall-${payment.stallDbId}` },
+    { header: "Stall", value: (payment) => byDbId.get(payment.stallDbId)?.name },
+    { header: "Vendor", value: (payment) => payment.vendor },
+    {
+      header: "Period Covered",
+      value: (payment) =>
+        payment.periodStart === payment.periodEnd
+          ? formatPeriod(payment.periodStart)
+          : `${formatPeriod(payment.periodStart)} – ${formatPeriod(payment.periodEnd)}`,
+    },
+    { header: "Method", value: (payment) => PAYMENT_METHOD_LABELS[payment.method] },
+    { header: "Collector", value: (payment) => payment.collector },
+    {
+      header: "Rent (PHP)",
+      type: "currency",
+      value: (payment) => fromCentavos(toCentavos(payment.amount) - toCentavos(totalSurcharge(payment))),
+    },
+    { header: "Surcharge (PHP)", type: "currency", value: (payment) => totalSurcharge(payment) },
+    { header: "Amount (PHP)", type: "currency", value: (payment) => payment.amount },
+    { header: "Notes", value: (payment) => payment.notes },
+    { header: "Recorded At", type: "datetime", value: (payment) => payment.createdAt },
+  ];
+};
+
+/** Payments on `stalls`, oldest first, for a ledger that follows the registry's filters. */
+export const paymentsOfStalls = (payments: Payment[], stalls: Pick<StallRecord, "dbId">[]): Payment[] => {
+  const included = new Set(stalls.map((stall) => stall.dbId));
+  return payments
+    .filter((payment) => included.has(payment.stallDbId))
+    .sort((a, b) => a.paidOn.localeCompare(b.paidOn) || a.createdAt.localeCompare(b.createdAt));
+};
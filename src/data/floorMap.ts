@@ -0,0 +1,110 @@
+import type { StallRecord, StallStatus } from "./stalls";
+
+/** A stall's rectangle on the floor map, in map units (see FLOOR_MAP_WIDTH/HEIGHT). */
+export type StallPosition = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export const FLOOR_MAP_WIDTH = 1200;
+export const FLOOR_MAP_HEIGHT = 800;
+export const GRID_SIZE = 10;
+export const DEFAULT_STALL_SIZE = { width: 80, height: 50 };
+const MIN_STALL_SIZE = 20;
+
+export const STALL_STATUS_FILLS: Record<StallStatus, string> = {
+  vacant: "#e2e8f0",
+  current: "#bbf7d0",
+  due: "#fde68a",
+  overdue: "#fecaca",
+};
+
+const TYPE_COLORS: Record<string, string> = {
+  Fish: "#0284c7",
+  Meat: "#b91c1c",
+  Vegetables: "#15803d",
+  Fruits: "#ea580c",
+  "Dry Goods": "#a16207",
+  General: "#475569",
+  "Frozen Goods": "#0891b2",
+  Poultry: "#c2410c",
+  Spices: "#9f1239",
+};
+
+const FALLBACK_TYPE_COLORS = ["#7c3aed", "#db2777", "#4d7c0f", "#0f766e", "#6d28d9", "#be123c"];
+
+/** A stable accent color per stall type; types added later get one from a fallback palette. */
+export const stallTypeColor = (type: string): string => {
+  if (TYPE_COLORS[type]) return TYPE_COLORS[type];
+  const hash = Array.from(type).reduce((total, char) => total + char.charCodeAt(0), 0);
+  return FALLBACK_TYPE_COLORS[hash % FALLBACK_TYPE_COLORS.length];
+};
+
+export const snapToGrid = (value: number): number => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+/** Snaps a rectangle to the grid and keeps it inside the map. */
+export const clampPosition = (position: StallPosition): StallPosition => {
+  const width = Math.min(Math.max(snapToGrid(position.width), MIN_STALL_SIZE), FLOOR_MAP_WIDTH);
+  const height = Math.min(Math.max(snapToGrid(position.height), MIN_STALL_SIZE), FLOOR_MAP_HEIGHT);
+  return {
+    x: Math.min(Math.max(snapToGrid(position.x), 0), FLOOR_MAP_WIDTH - width),
+    y: Math.min(Math.max(snapToGrid(position.y), 0), FLOOR_MAP_HEIGHT - height),
+    width,
+    height,
+  };
+};
+
+const overlaps = (a: StallPosition, b: StallPosition) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/** First free spot, scanning rows from the top-left, for a stall being placed on the map. */
+export const findFreePosition = (
+  taken: StallPosition[],
+  size: Pick<StallPosition, "width" | "height"> = DEFAULT_STALL_SIZE,
+): StallPosition => {
+  for (let y = GRID_SIZE; y + size.height <= FLOOR_MAP_HEIGHT; y += GRID_SIZE) {
+    for (let x = GRID_SIZE; x + size.width <= FLOOR_MAP_WIDTH; x += GRID_SIZE) {
+      const candidate = { x, y, ...size };
+      if (!taken.some((position) => overlaps(position, candidate))) return candidate;
+    }
+  }
+  return { x: 0, y: 0, ...size };
+};
+
+/** Short label drawn inside a stall: its number if the name has one ("Fish Stall 3" → "3"). */
+export const stallMapLabel = (stall: Pick<StallRecord, "name">): string => {
+  const match = /(\d+)\s*$/.exec(stall.name);
+  return match ? match[1] : stall.name.slice(0, 6);
+};
+
+export const formatStallLocation = (stall: Pick<StallRecord, "section" | "row">): string =>
+  [stall.section, stall.row && `Row ${stall.row}`].filter(Boolean).join(" · ");
+
+// Sorts after any real name, so stalls without a section or row come last.
+const LAST = "\uffff";
+
+/** Orders stalls the way staff walk the market: by section, then row, then stall name. */
+export const compareStallLocation = (a: StallRecord, b: StallRecord): number =>
+  (a.section || LAST).localeCompare(b.section || LAST) ||
+  (a.row || LAST).localeCompare(b.row || LAST, undefined, { numeric: true }) ||
+  a.name.localeCompare(b.name, undefined, { numeric: true });
+
+export type SectionBounds = StallPosition & { section: string };
+
+/** Outline around each section's placed stalls, for labelling areas on the map. */
+export const sectionBounds = (stalls: StallRecord[], padding = GRID_SIZE): SectionBounds[] => {
+  const bySection = new Map<string, StallPosition[]>();
+  for (const stall of stalls) {
+    if (!stall.section || !stall.position) continue;
+    bySection.set(stall.section, [...(bySection.get(stall.section) ?? []), stall.position]);
+  }
+  return Array.from(bySection, ([section, positions]) => {
+    const left = Math.min(...positions.map((position) => position.x)) - padding;
+    const top = Math.min(...positions.map((position) => position.y)) - padding;
+    const right = Math.max(...positions.map((position) => position.x + position.width)) + padding;
+    const bottom = Math.max(...positions.map((position) => position.y + position.height)) + padding;
+    return { section, x: left, y: top, width: right - left, height: bottom - top };
+  });
+};
@@ -0,0 +1,89 @@
+import { formatDate, formatPeso, sameName } from "@/lib/format";
+import { formatPeriod, toPeriod, type Payment, type PaymentFormData } from "./payments";
+import type { RegistrationFormData, RegistrationRequirement } from "./registrations";
+import type { StallRecord } from "./stalls";
+import { parseStallDate } from "./stallStatus";
+
+/** A collector payment recorded while offline, with the stall's due date as the collector saw it. */
+export type QueuedPayment = {
+  kind: "payment";
+  stallDbId: number;
+  stallName: string;
+  vendor: string;
+  expectedNextDue: string;
+  idempotencyKey: string; // the payment's key, in case the first attempt reached the server
+  data: PaymentFormData;
+};
+
+/** An application submitted while offline; the attached files are kept on the device until it syncs. */
+export type QueuedRegistration = {
+  kind: "registration";
+  applicant: string;
+  holder: string;
+  data: RegistrationFormData;
+  files: Partial<Record<RegistrationRequirement, File>>;
+};
+
+export type OutboxMutation = QueuedPayment | QueuedRegistration;
+
+export type OutboxStatus = "pending" | "conflict";
+
+export type OutboxEntry = OutboxMutation & {
+  id: number;
+  queuedAt: string;
+  status: OutboxStatus;
+  conflict: string; // why a reviewer has to decide, "" unless status is "conflict"
+};
+
+export const OUTBOX_KIND_LABELS: Record<OutboxMutation["kind"], string> = {
+  payment: "Payment",
+  registration: "Registration",
+};
+
+export const isOffline = (): boolean => typeof navigator !== "undefined" && navigator.onLine === false;
+
+// fetch() rejects with a TypeError whose wording differs by browser; Supabase passes the text along.
+const NETWORK_ERROR = /failed to fetch|networkerror|network request failed|load failed|fetch failed/i;
+
+/** True when `error` means the request never reached the server, so it is safe to queue and retry. */
+export const isNetworkError = (error: unknown): boolean =>
+  isOffline() || (error instanceof Error && NETWORK_ERROR.test(error.message));
+
+export const describeOutboxEntry = (entry: OutboxMutation): string =>
+  entry.kind === "payment"
+    ? `${formatPeso(entry.data.amount)} from ${entry.vendor} for ${entry.stallName}`
+    : `Application of ${entry.applicant}`;
+
+/**
+ * Why a queued payment should not be applied without a reviewer, or null if it can be. A payment
+ * conflicts when the stall changed hands or when the month it was meant to pay was paid by
+ * someone else while it waited, e.g. two collectors taking the same month's rent. `replayed` are
+ * the payments this device has just sent from its own outbox: when they alone moved the due date,
+ * the stall's next month simply takes this payment.
+ */
+export const paymentConflict = (
+  entry: QueuedPayment,
+  stall: StallRecord | null,
+  payments: Payment[],
+  replayed: Payment[] = [],
+): string | null => {
+  if (!stall || !stall.occupied) {
+    return `${entry.stallName} is no longer occupied, so the payment cannot be applied to it.`;
+  }
+  if (!sameName(stall.vendor, entry.vendor)) {
+    return `${entry.stallName} is now leased to ${stall.vendor}, not ${entry.vendor}.`;
+  }
+  const expected = parseStallDate(entry.expectedNextDue);
+  if (!expected || stall.nextDue === entry.expectedNextDue) return null;
+
+  const period = toPeriod(expected);
+  const ownDbIds = new Set(replayed.map((payment) => payment.dbId));
+  const others = payments.filter(
+    (payment) => !ownDbIds.has(payment.dbId) && payment.allocations.some((allocation) => allocation.period === period),
+  );
+  if (others.length === 0 && replayed.some((payment) => payment.stallDbId === entry.stallDbId)) return null;
+  const paidBy = others
+    .map((payment) => `${formatPeso(payment.amount)} by ${payment.collector} on ${formatDate(payment.paidOn)}`)
+    .join("; ");
+  return `${formatPeriod(period)} rent for ${entry.stallName} was paid${paidBy ? ` (${paidBy})` : ""} while this payment was waiting to sync.`;
+};
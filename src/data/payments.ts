@@ -0,0 +1,230 @@
+import { addMonths, format, getDaysInMonth, parseISO, setDate } from "date-fns";
+import * as z from "zod";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { rentForPeriod } from "./rentRates";
+import type { StallRecord } from "./stalls";
+import { parseStallDate } from "./stallStatus";
+
+export type PaymentMethod = "cash" | "gcash" | "bank_transfer" | "check";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  gcash: "GCash",
+  bank_transfer: "Bank Transfer",
+  check: "Check",
+};
+
+/** Portion of a payment applied to one rent month ("yyyy-MM"). */
+export type PaymentAllocation = {
+  period: string;
+  amount: number;
+};
+
+export type Payment = {
+  dbId: number;
+  stallDbId: number;
+  vendor: string;
+  amount: number;
+  method: PaymentMethod;
+  orNumber: string;    // empty until the official receipt is issued
+  collector: string;
+  paidOn: string;      // "yyyy-MM-dd"
+  periodStart: string; // first month covered, "yyyy-MM"
+  periodEnd: string;   // last month covered, "yyyy-MM"
+  allocations: PaymentAllocation[]; // rent paid, by month
+  surcharges: PaymentAllocation[];  // late-payment surcharges paid, by the rent month they were charged on
+  notes: string;
+  idempotencyKey: string; // chosen by the device that took the payment, so a resend finds it; "" on older payments
+  createdAt: string;
+};
+
+export type NewPayment = Omit<Payment, "dbId" | "createdAt">;
+
+export type PeriodBalance = {
+  period: string;
+  dueDate: string;
+  charged: number;
+  paid: number;
+  balance: number;
+};
+
+// Rent falls due on the first of the month for stalls that have no schedule yet.
+export const DEFAULT_DUE_DAY = 1;
+
+export const paymentSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be a positive number."),
+  method: z.enum(["cash", "gcash", "bank_transfer", "check"]),
+  collector: z.string().trim().min(2, "Collector name required").max(100),
+  paidOn: z.string().min(1, "Payment date required"),
+  notes: z.string().trim().max(500),
+});
+
+export type PaymentFormData = z.infer<typeof paymentSchema>;
+
+export const toPeriod = (date: Date): string => format(date, "yyyy-MM");
+
+export const nextPeriod = (period: string): string => toPeriod(addMonths(parseISO(`${period}-01`), 1));
+
+export const formatPeriod = (period: string): string => format(parseISO(`${period}-01`), "MMMM yyyy");
+
+export const dueDateForPeriod = (period: string, dueDay: number): string => {
+  const start = parseISO(`${period}-01`);
+  return format(setDate(start, Math.min(dueDay, getDaysInMonth(start))), "yyyy-MM-dd");
+};
+
+/**
+ * Payments made by the stall's current tenant. Earlier tenants' months are settled on their own
+ * account; stalls keep no dated occupancy log, so payments are matched by vendor name.
+ */
+export const currentTenantPayments = (stall: Pick<StallRecord, "vendor">, payments: Payment[]): Payment[] =>
+  payments.filter((payment) => sameName(payment.vendor, stall.vendor));
+
+export const paidByPeriod = (payments: Payment[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const payment of payments) {
+    for (const allocation of payment.allocations) {
+      totals.set(allocation.period, (totals.get(allocation.period) ?? 0) + toCentavos(allocation.amount));
+    }
+  }
+  return new Map(Array.from(totals, ([period, centavos]) => [period, fromCentavos(centavos)]));
+};
+
+const billingAnchor = (stall: StallRecord, fallbackDate: string) => {
+  const nextDue = parseStallDate(stall.nextDue);
+  if (nextDue) {
+    return { period: toPeriod(nextDue), dueDay: nextDue.getDate() };
+  }
+  const fallback = parseStallDate(fallbackDate) ?? new Date();
+  return { period: toPeriod(fallback), dueDay: DEFAULT_DUE_DAY };
+};
+
+export type PaymentAllocationResult = {
+  allocations: PaymentAllocation[];
+  periodStart: string;
+  periodEnd: string;
+  nextDue: string;
+};
+
+/**
+ * Applies an amount to the current tenant's oldest unsettled month first, then to later months
+ * in advance. `nextDue` only moves past a month once that month is fully paid. Each month
+ * is charged the rent in effect for it (see `rentForPeriod`).
+ */
+export const allocatePayment = (
+  stall: StallRecord,
+  payments: Payment[],
+  amount: number,
+  paidOn: string,
+): PaymentAllocationResult => {
+  const { period: firstPeriod, dueDay } = billingAnchor(stall, paidOn);
+  const rentFor = (period: string) => toCentavos(rentForPeriod(stall, period));
+  if (rentFor(firstPeriod) <= 0) {
+    throw new Error(`${stall.name} has no monthly rent set`);
+  }
+
+  const alreadyPaid = paidByPeriod(currentTenantPayments(stall, payments));
+  const allocations: PaymentAllocation[] = [];
+  let remaining = toCentavos(amount);
+  let period = firstPeriod;
+
+  while (remaining > 0) {
+    const outstanding = rentFor(period) - toCentavos(alreadyPaid.get(period) ?? 0);
+    if (outstanding > 0) {
+      const applied = Math.min(outstanding, remaining);
+      allocations.push({ period, amount: fromCentavos(applied) });
+      remaining -= applied;
+    }
+    if (remaining > 0) {
+      period = nextPeriod(period);
+    }
+  }
+
+  const settled = new Map(alreadyPaid);
+  for (const allocation of allocations) {
+    settled.set(allocation.period, (settled.get(allocation.period) ?? 0) + allocation.amount);
+  }
+  let unsettled = firstPeriod;
+  while (rentFor(unsettled) > 0 && toCentavos(settled.get(unsettled) ?? 0) >= rentFor(unsettled)) {
+    unsettled = nextPeriod(unsettled);
+  }
+
+  return {
+    allocations,
+    periodStart: allocations[0]?.period ?? firstPeriod,
+    periodEnd: allocations[allocations.length - 1]?.period ?? firstPeriod,
+    nextDue: dueDateForPeriod(unsettled, dueDay),
+  };
+};
+
+/**
+ * Unsettled months whose due date is on or before `asOf` ("yyyy-MM-dd"), oldest first, counting
+ * only the current tenant's payments made by then.
+ */
+export const duePeriodsAsOf = (stall: StallRecord, payments: Payment[], asOf: string): PeriodBalance[] => {
+  if (!stall.occupied) return [];
+  const paid = paidByPeriod(currentTenantPayments(stall, payments).filter((payment) => payment.paidOn <= asOf));
+  const { period: firstPeriod, dueDay } = billingAnchor(stall, asOf);
+  const balances: PeriodBalance[] = [];
+  for (let period = firstPeriod; dueDateForPeriod(period, dueDay) <= asOf; period = nextPeriod(period)) {
+    const charged = rentForPeriod(stall, period);
+    const paidAmount = paid.get(period) ?? 0;
+    const balance = fromCentavos(Math.max(0, toCentavos(charged) - toCentavos(paidAmount)));
+    if (balance > 0) {
+      balances.push({ period, dueDate: dueDateForPeriod(period, dueDay), charged, paid: paidAmount, balance });
+    }
+  }
+  return balances;
+};
+
+/**
+ * Every month billed to the stall's occupant with a due date on or before `asOf`: from the first
+ * month `payments` paid for (or the month now due, if earlier) onwards.
+ */
+export const billedPeriods = (stall: StallRecord, payments: Payment[], asOf: string): PeriodBalance[] => {
+  const paid = paidByPeriod(payments);
+  const { period: duePeriod, dueDay } = billingAnchor(stall, asOf);
+  const periods = Array.from(paid.keys());
+  if (stall.occupied) periods.push(duePeriod);
+  if (periods.length === 0) return [];
+
+  const balances: PeriodBalance[] = [];
+  for (let period = periods.sort()[0]; dueDateForPeriod(period, dueDay) <= asOf; period = nextPeriod(period)) {
+    if (!stall.occupied && period > periods[periods.length - 1]) break;
+    const charged = rentForPeriod(stall, period);
+    const paidAmount = paid.get(period) ?? 0;
+    balances.push({
+      period,
+      dueDate: dueDateForPeriod(period, dueDay),
+      charged,
+      paid: paidAmount,
+      balance: fromCentavos(Math.max(0, toCentavos(charged) - toCentavos(paidAmount))),
+    });
+  }
+  return balances;
+};
+
+/**
+ * Per-month charges and payments for every month the current tenant has paid for, plus the month
+ * now due.
+ */
+export const summarizePeriods = (stall: StallRecord, payments: Payment[]): PeriodBalance[] => {
+  const paid = paidByPeriod(currentTenantPayments(stall, payments));
+  const { period: duePeriod, dueDay } = billingAnchor(stall, format(new Date(), "yyyy-MM-dd"));
+  const periods = new Set(paid.keys());
+  if (stall.occupied) periods.add(duePeriod);
+
+  return Array.from(periods)
+    .sort()
+    .map((period) => {
+      const charged = rentForPeriod(stall, period);
+      const paidAmount = paid.get(period) ?? 0;
+      return {
+        period,
+        dueDate: dueDateForPeriod(period, dueDay),
+        charged,
+        paid: paidAmount,
+        balance: fromCentavos(Math.max(0, toCentavos(charged) - toCentavos(paidAmount))),
+      };
+    });
+};
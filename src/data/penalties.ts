@@ -0,0 +1,249 @@
+import { addDays, addMonths, format, parseISO } from "date-fns";
+import * as z from "zod";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import {
+  allocatePayment,
+  billedPeriods,
+  currentTenantPayments,
+  duePeriodsAsOf,
+  type Payment,
+  type PaymentAllocation,
+  type PaymentAllocationResult,
+  type PeriodBalance,
+} from "./payments";
+import type { StallRecord } from "./stalls";
+import { DEFAULT_STATUS_POLICY } from "./stallStatus";
+
+export type PenaltyPolicy = {
+  /** Surcharge per month (or part of a month) late, as a percent of the unpaid rent. */
+  ratePercent: number;
+  /** Days after the due date before any surcharge applies. */
+  graceDays: number;
+  /** Months of lateness that can be charged for one rent month. */
+  maxMonths: number;
+  /** Ceiling on the total surcharge for one rent month, as a percent of that month's rent. */
+  capPercent: number;
+};
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Surcharges start when a stall turns overdue unless the deployment sets its own grace period.
+export const DEFAULT_PENALTY_POLICY: PenaltyPolicy = {
+  ratePercent: readNumber(import.meta.env.VITE_PENALTY_RATE_PERCENT, 2),
+  graceDays: readNumber(import.meta.env.VITE_PENALTY_GRACE_DAYS, DEFAULT_STATUS_POLICY.graceDays),
+  maxMonths: readNumber(import.meta.env.VITE_PENALTY_MAX_MONTHS, 36),
+  capPercent: readNumber(import.meta.env.VITE_PENALTY_CAP_PERCENT, 72),
+};
+
+/** Part or all of a month's surcharge forgiven by an authorized officer. */
+export type PenaltyWaiver = {
+  dbId: number;
+  stallDbId: number;
+  vendor: string; // tenant whose surcharge was waived
+  period: string; // rent month the surcharge was charged on, "yyyy-MM"
+  amount: number;
+  reason: string;
+  approvedBy: string;
+  createdAt: string;
+};
+
+export type NewPenaltyWaiver = Omit<PenaltyWaiver, "dbId" | "createdAt">;
+
+/** Principal and surcharge owed for one rent month with rent or surcharge still unpaid. */
+export type PenaltyLine = {
+  period: string;
+  dueDate: string;
+  principal: number;  // rent still unpaid for the month
+  monthsLate: number;
+  accrued: number;    // surcharge charged so far, after the cap
+  paid: number;
+  waived: number;
+  surcharge: number;  // accrued less paid and waived
+};
+
+export type AmountDue = {
+  lines: PenaltyLine[];
+  principal: number;
+  surcharge: number;
+  total: number;
+};
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+const sumByPeriod = (allocations: PaymentAllocation[], period: string) =>
+  allocations.reduce((total, allocation) => total + (allocation.period === period ? toCentavos(allocation.amount) : 0), 0);
+
+/** One month's surcharge on a rent month, charged on the first day of that month of lateness. */
+export type SurchargeCharge = {
+  period: string;
+  date: string; // "yyyy-MM-dd"
+  amount: number;
+};
+
+/**
+ * Surcharges charged on one rent month up to `asOf`. Each month late, starting the day after
+ * the grace period, is charged `ratePercent` of the rent still unpaid when that month began,
+ * so paying part of the rent slows the surcharge down.
+ */
+export const surchargesCharged = (
+  period: string,
+  dueDate: string,
+  rent: number,
+  payments: Payment[],
+  asOf: string,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): SurchargeCharge[] => {
+  const unpaidBefore = (day: string) =>
+    toCentavos(rent) -
+    payments
+      .filter((payment) => payment.paidOn < day)
+      .reduce((total, payment) => total + sumByPeriod(payment.allocations, period), 0);
+
+  const firstLateDay = addDays(parseISO(dueDate), policy.graceDays + 1);
+  let remainingCap = Math.round((toCentavos(rent) * policy.capPercent) / 100);
+  const charges: SurchargeCharge[] = [];
+  for (let month = 0; month < policy.maxMonths; month++) {
+    const start = toDay(addMonths(firstLateDay, month));
+    if (start > asOf) break;
+    const unpaid = unpaidBefore(start);
+    if (unpaid <= 0) break;
+    const centavos = Math.min(Math.round((unpaid * policy.ratePercent) / 100), remainingCap);
+    remainingCap -= centavos;
+    charges.push({ period, date: start, amount: fromCentavos(centavos) });
+  }
+  return charges;
+};
+
+/** A rent month billed to the tenant, with the surcharges charged on it so far. */
+export type BilledMonth = PeriodBalance & { surcharges: SurchargeCharge[] };
+
+/** The current tenant's side of a stall's account up to a date. */
+export type TenantAccount = {
+  months: BilledMonth[];
+  payments: Payment[];      // made on or before the date
+  waivers: PenaltyWaiver[]; // approved on or before the date
+};
+
+/**
+ * Rent, surcharges, payments and waivers of the stall's current tenant up to `asOf`
+ * ("yyyy-MM-dd"). The amount due and the statement of account are both built from it.
+ */
+export const tenantAccount = (
+  stall: StallRecord,
+  payments: Payment[],
+  waivers: PenaltyWaiver[],
+  asOf: string,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): TenantAccount => {
+  const own = currentTenantPayments(stall, payments).filter((payment) => payment.paidOn <= asOf);
+  return {
+    months: billedPeriods(stall, own, asOf).map((billed) => ({
+      ...billed,
+      surcharges: surchargesCharged(billed.period, billed.dueDate, billed.charged, own, asOf, policy),
+    })),
+    payments: own,
+    waivers: waivers.filter(
+      (waiver) => sameName(waiver.vendor, stall.vendor) && waiver.createdAt.slice(0, 10) <= asOf,
+    ),
+  };
+};
+
+/**
+ * What the stall's current tenant owes as of `asOf` ("yyyy-MM-dd"): unpaid rent and surcharges,
+ * month by month. A month's surcharge stays owed after its rent is paid, until it is paid or
+ * waived for this tenant.
+ */
+export const computeAmountDue = (
+  stall: StallRecord,
+  payments: Payment[],
+  waivers: PenaltyWaiver[],
+  asOf: string,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): AmountDue => {
+  const account = tenantAccount(stall, payments, waivers, asOf, policy);
+  const unpaidRent = new Map(
+    duePeriodsAsOf(stall, account.payments, asOf).map((balance) => [balance.period, balance.balance]),
+  );
+  const lines = account.months
+    .map((month): PenaltyLine => {
+      const centavos = month.surcharges.reduce((total, charge) => total + toCentavos(charge.amount), 0);
+      const paid = account.payments.reduce((total, payment) => total + sumByPeriod(payment.surcharges, month.period), 0);
+      const waived = account.waivers
+        .filter((waiver) => waiver.period === month.period)
+        .reduce((total, waiver) => total + toCentavos(waiver.amount), 0);
+      return {
+        period: month.period,
+        dueDate: month.dueDate,
+        principal: unpaidRent.get(month.period) ?? 0,
+        monthsLate: month.surcharges.length,
+        accrued: fromCentavos(centavos),
+        paid: fromCentavos(paid),
+        waived: fromCentavos(waived),
+        surcharge: fromCentavos(Math.max(0, centavos - paid - waived)),
+      };
+    })
+    .filter((line) => line.principal > 0 || line.surcharge > 0);
+
+  const principal = lines.reduce((total, line) => total + toCentavos(line.principal), 0);
+  const surcharge = lines.reduce((total, line) => total + toCentavos(line.surcharge), 0);
+  return {
+    lines,
+    principal: fromCentavos(principal),
+    surcharge: fromCentavos(surcharge),
+    total: fromCentavos(principal + surcharge),
+  };
+};
+
+export type PenaltyAllocationResult = PaymentAllocationResult & { surcharges: PaymentAllocation[] };
+
+/**
+ * Splits a payment between surcharges and rent. Outstanding surcharges are settled first,
+ * oldest month first, and the rest is applied to rent as usual (see `allocatePayment`).
+ */
+export const allocateWithSurcharges = (
+  stall: StallRecord,
+  payments: Payment[],
+  waivers: PenaltyWaiver[],
+  amount: number,
+  paidOn: string,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): PenaltyAllocationResult => {
+  const { lines } = computeAmountDue(stall, payments, waivers, paidOn, policy);
+  let remaining = toCentavos(amount);
+  const surcharges: PaymentAllocation[] = [];
+  for (const line of lines) {
+    const applied = Math.min(toCentavos(line.surcharge), remaining);
+    if (applied <= 0) continue;
+    surcharges.push({ period: line.period, amount: fromCentavos(applied) });
+    remaining -= applied;
+  }
+
+  if (remaining === 0) {
+    return {
+      surcharges,
+      allocations: [],
+      periodStart: surcharges[0].period,
+      periodEnd: surcharges[surcharges.length - 1].period,
+      nextDue: stall.nextDue,
+    };
+  }
+
+  const rent = allocatePayment(stall, payments, fromCentavos(remaining), paidOn);
+  const periods = [...surcharges, ...rent.allocations].map((allocation) => allocation.period).sort();
+  return { ...rent, surcharges, periodStart: periods[0], periodEnd: periods[periods.length - 1] };
+};
+
+export const totalSurcharge = (payment: Pick<Payment, "surcharges">): number =>
+  fromCentavos(payment.surcharges.reduce((total, allocation) => total + toCentavos(allocation.amount), 0));
+
+export const waiverSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be a positive number."),
+  reason: z.string().trim().min(5, "Please give the reason for the waiver").max(500),
+  approvedBy: z.string().trim().min(2, "Approving officer required").max(100),
+});
+
+export type WaiverFormData = z.infer<typeof waiverSchema>;
@@ -0,0 +1,25 @@
+export type Receipt = {
+  orNumber: string;
+  sequence: number;
+  paymentDbId: number;
+  stallDbId: number;
+  stallName: string;
+  vendor: string;
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+  surcharge: number; // part of `amount` that paid late-payment surcharges
+  method: string;
+  collector: string;
+  paidOn: string;
+  issuedAt: string;
+  /** How many times the receipt has been printed; every print after the first is a duplicate. */
+  printCount: number;
+};
+
+export const formatOrNumber = (sequence: number): string => String(sequence).padStart(7, "0");
+
+export const isDuplicatePrint = (receipt: Receipt): boolean => receipt.printCount > 1;
+
+export const receiptVerificationUrl = (orNumber: string, origin = window.location.origin): string =>
+  `${origin}/receipts/${encodeURIComponent(orNumber)}`;
@@ -0,0 +1,191 @@
+import * as z from "zod";
+import { normalizePhilippinePhone } from "@/lib/phone";
+import type { RegistrationDocument } from "./documents";
+import { applyOccupancy, isHeldByOther, suggestStallIdentity, type StallRecord } from "./stalls";
+import type { StallType } from "./stallTypes";
+
+export const registrationSchema = z.object({
+  firstName: z.string().trim().min(2, "First name must be at least 2 characters").max(100),
+  lastName: z.string().trim().min(2, "Last name must be at least 2 characters").max(100),
+  phone: z
+    .string()
+    .trim()
+    .refine((value) => normalizePhilippinePhone(value) !== null, "Enter a Philippine number, e.g. 0917 123 4567")
+    .transform((value) => normalizePhilippinePhone(value) ?? value),
+  street: z.string().trim().min(2, "House no., street or purok required").max(200),
+  barangay: z.string().trim().min(2, "Please select a barangay").max(100),
+  municipality: z.string().trim().min(2, "Municipality required").max(100),
+  province: z.string().trim().min(2, "Province required").max(100),
+  stallType: z.string().min(1, "Please select a stall type"),
+  requestedStallDbId: z.coerce
+    .number({ invalid_type_error: "Please choose a stall" })
+    .int()
+    .positive("Please choose a stall"),
+});
+
+export type RegistrationFormData = z.infer<typeof registrationSchema>;
+
+export type RegistrationStatus = "submitted" | "under_review" | "approved" | "rejected" | "waitlisted";
+
+export const REGISTRATION_STATUS_LABELS: Record<RegistrationStatus, string> = {
+  submitted: "Submitted",
+  under_review: "Under Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  waitlisted: "Waitlisted",
+};
+
+// submitted → under_review → approved | rejected | waitlisted; waitlisted applications can be reopened.
+export const REGISTRATION_TRANSITIONS: Record<RegistrationStatus, RegistrationStatus[]> = {
+  submitted: ["under_review"],
+  under_review: ["approved", "rejected", "waitlisted"],
+  waitlisted: ["under_review", "approved", "rejected"],
+  approved: [],
+  rejected: [],
+};
+
+export const canTransition = (from: RegistrationStatus, to: RegistrationStatus): boolean =>
+  REGISTRATION_TRANSITIONS[from].includes(to);
+
+export const isAwaitingDecision = (status: RegistrationStatus): boolean =>
+  status === "submitted" || status === "under_review";
+
+export type RegistrationRequirement = "barangay_clearance" | "valid_id" | "sanitary_permit" | "photo_2x2";
+
+export const REGISTRATION_REQUIREMENT_LABELS: Record<RegistrationRequirement, string> = {
+  barangay_clearance: "Barangay clearance",
+  valid_id: "Valid government-issued ID",
+  sanitary_permit: "Sanitary permit",
+  photo_2x2: "2x2 ID photo",
+};
+
+export const REGISTRATION_REQUIREMENTS = Object.keys(REGISTRATION_REQUIREMENT_LABELS) as RegistrationRequirement[];
+
+export type ReviewNote = {
+  author: string;
+  note: string;
+  createdAt: string;
+};
+
+export type RegistrationRecord = Omit<RegistrationFormData, "requestedStallDbId"> & {
+  registrationId: string; // "REG-<timestamp>-<random>" shown to the applicant
+  dbId: number;           // Supabase primary key
+  requestedStallDbId: number | null; // null for applications filed before stalls could be picked
+  stallName: string;      // copied from the requested stall when submitted
+  monthlyRent: number;    // official rent of the requested stall when submitted
+  status: RegistrationStatus;
+  stallDbId: number | null; // stall awarded on approval
+  reviewNotes: ReviewNote[];  // internal, never shown to the applicant
+  rejectionReason: string;    // shown to the applicant
+  missingRequirements: RegistrationRequirement[];
+  documents: RegistrationDocument[];
+  reviewedBy: string;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * What the applicant submits: the form answers and any uploaded documents. The requested stall's
+ * name, type and rent are copied from the stall when the application is saved.
+ */
+export type NewRegistration = Omit<RegistrationFormData, "stallType"> &
+  Pick<RegistrationRecord, "documents" | "missingRequirements"> & {
+    stallHolder: string; // form session holding the requested stall, which the application takes over
+  };
+
+export type RegistrationUpdate = Partial<
+  Omit<RegistrationFormData, "requestedStallDbId"> &
+    Pick<
+      RegistrationRecord,
+      | "stallName"
+      | "monthlyRent"
+      | "status"
+      | "stallDbId"
+      | "reviewNotes"
+      | "rejectionReason"
+      | "missingRequirements"
+      | "documents"
+      | "reviewedBy"
+      | "reviewedAt"
+    >
+>;
+
+/** What an applicant may see about their own application on the public status page. */
+export type ApplicantStatusView = Pick<
+  RegistrationRecord,
+  "registrationId" | "status" | "stallName" | "stallType" | "rejectionReason" | "missingRequirements" | "createdAt" | "updatedAt"
+>;
+
+export const toApplicantStatusView = (registration: RegistrationRecord): ApplicantStatusView => ({
+  registrationId: registration.registrationId,
+  status: registration.status,
+  stallName: registration.stallName,
+  stallType: registration.stallType,
+  rejectionReason: registration.rejectionReason,
+  missingRequirements: registration.missingRequirements,
+  createdAt: registration.createdAt,
+  updatedAt: registration.updatedAt,
+});
+
+// Compares the last ten digits so "0917 123 4567" matches "+63 917 123 4567".
+export const phonesMatch = (a: string, b: string): boolean => {
+  const digitsA = a.replace(/\D/g, "").slice(-10);
+  const digitsB = b.replace(/\D/g, "").slice(-10);
+  return digitsA.length === 10 && digitsA === digitsB;
+};
+
+export type ReviewDecision = {
+  to: RegistrationStatus;
+  reviewer: string;
+  rejectionReason?: string;
+};
+
+export const generateRegistrationId = (now: Date = new Date()): string =>
+  `REG-${now.getTime()}-${Math.random().toString(36).slice(2, 11)}`;
+
+export const applicantName = (registration: Pick<RegistrationRecord, "firstName" | "lastName">): string =>
+  `${registration.firstName} ${registration.lastName}`.trim();
+
+/** A new stall for an approved application that did not pick one, numbered after the existing stalls. */
+export const stallFromRegistration = (
+  registration: RegistrationRecord,
+  stalls: StallRecord[],
+  stallTypes: Pick<StallType, "name">[] = [],
+): StallRecord => {
+  const identity = suggestStallIdentity(stalls, registration.stallType, stallTypes);
+  return applyOccupancy({
+    id: identity.id,
+    dbId: identity.dbId,
+    name: registration.stallName,
+    type: registration.stallType,
+    monthlyRent: registration.monthlyRent,
+    vendor: applicantName(registration),
+    contact: registration.phone,
+    lastPayment: "",
+    nextDue: "",
+    status: "vacant",
+    occupied: false,
+    heldBy: "",
+    heldUntil: null,
+    section: "",
+    row: "",
+    position: null,
+    areaSqm: null,
+    rentHistory: [],
+  });
+};
+
+/** The requested stall handed to an approved applicant; fails if it was taken in the meantime. */
+export const assignRequestedStall = (registration: RegistrationRecord, stall: StallRecord): StallRecord => {
+  if (stall.occupied || isHeldByOther(stall, registration.registrationId)) {
+    throw new Error(`${stall.name} is no longer available. Waitlist the application or offer another stall.`);
+  }
+  return applyOccupancy({
+    ...stall,
+    vendor: applicantName(registration),
+    contact: registration.phone,
+    heldBy: "",
+    heldUntil: null,
+  });
+};
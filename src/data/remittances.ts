@@ -0,0 +1,133 @@
+import * as z from "zod";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import type { Payment } from "./payments";
+
+/** Peso bills and coins in circulation, largest first; the ₱20 is counted once whether bill or coin. */
+export const DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1, 0.25, 0.05, 0.01] as const;
+
+export type Denomination = (typeof DENOMINATIONS)[number];
+
+/** Pieces counted per denomination, keyed by the denomination's value (e.g. "0.25"). */
+export type DenominationCounts = Partial<Record<string, number>>;
+
+export const formatDenomination = (denomination: number): string =>
+  denomination >= 1 ? `₱${denomination.toLocaleString("en-PH")}` : `${Math.round(denomination * 100)}¢`;
+
+export type RemittanceStatus = "submitted" | "approved" | "returned";
+
+export const REMITTANCE_STATUS_LABELS: Record<RemittanceStatus, string> = {
+  submitted: "Awaiting approval",
+  approved: "Approved",
+  returned: "Returned for recount",
+};
+
+/** A collector's cash turned over to the treasurer at the end of one day. */
+export type Remittance = {
+  dbId: number;
+  collector: string;
+  day: string;          // "yyyy-MM-dd"
+  counts: DenominationCounts;
+  counted: number;      // cash counted, from `counts`
+  expected: number;     // cash payments recorded by the collector that day
+  paymentCount: number;
+  notes: string;
+  status: RemittanceStatus;
+  submittedAt: string;
+  reviewedBy: string;
+  reviewedAt: string | null;
+  reviewNote: string;
+};
+
+export type NewRemittance = Pick<
+  Remittance,
+  "collector" | "day" | "counts" | "counted" | "expected" | "paymentCount" | "notes"
+>;
+
+export type RemittanceReview = {
+  status: Extract<RemittanceStatus, "approved" | "returned">;
+  reviewedBy: string;
+  reviewNote: string;
+};
+
+export const countedTotal = (counts: DenominationCounts): number =>
+  fromCentavos(
+    DENOMINATIONS.reduce((total, denomination) => total + toCentavos(denomination) * (counts[String(denomination)] ?? 0), 0),
+  );
+
+/** Cash the collector should be holding for `day`; other methods never pass through their hands. */
+export const expectedCash = (payments: Payment[], collector: string, day: string) => {
+  const cash = payments.filter(
+    (payment) => payment.method === "cash" && payment.paidOn === day && sameName(payment.collector, collector),
+  );
+  return {
+    count: cash.length,
+    total: fromCentavos(cash.reduce((total, payment) => total + toCentavos(payment.amount), 0)),
+  };
+};
+
+export type VarianceKind = "balanced" | "short" | "over";
+
+export const VARIANCE_LABELS: Record<VarianceKind, string> = {
+  balanced: "Balanced",
+  short: "Short",
+  over: "Over",
+};
+
+/** How the count compares to the recorded payments; `amount` is counted less expected. */
+export const remittanceVariance = ({ counted, expected }: Pick<Remittance, "counted" | "expected">) => {
+  const centavos = toCentavos(counted) - toCentavos(expected);
+  const kind: VarianceKind = centavos === 0 ? "balanced" : centavos < 0 ? "short" : "over";
+  return { kind, amount: fromCentavos(centavos) };
+};
+
+/** A submitted or approved remittance closes the collector's day; a returned one reopens it. */
+export const closesDay = (remittance: Remittance) => remittance.status !== "returned";
+
+export const findClosingRemittance = (
+  remittances: Remittance[],
+  collector: string,
+  day: string,
+): Remittance | undefined =>
+  remittances.find((remittance) => remittance.day === day && sameName(remittance.collector, collector) && closesDay(remittance));
+
+export const closedDayMessage = (collector: string, day: string) =>
+  `${collector}'s collections for ${day} have been remitted, so no more payments can be recorded for that day.`;
+
+/** One collector's standing for a day on the treasurer's reconciliation sheet. */
+export type CollectorDay = {
+  collector: string;
+  expected: { count: number; total: number };
+  closing: Remittance | undefined;
+  returned: Remittance[];
+};
+
+/** Everyone who recorded payments or remitted on `day`, so collectors who have not remitted stand out. */
+export const reconcileDay = (payments: Payment[], remittances: Remittance[], day: string): CollectorDay[] => {
+  const collectors: string[] = [];
+  for (const name of [
+    ...payments.filter((payment) => payment.paidOn === day).map((payment) => payment.collector),
+    ...remittances.filter((remittance) => remittance.day === day).map((remittance) => remittance.collector),
+  ]) {
+    if (!collectors.some((collector) => sameName(collector, name))) collectors.push(name);
+  }
+
+  return collectors
+    .sort((a, b) => a.localeCompare(b))
+    .map((collector) => {
+      const own = remittances.filter((remittance) => remittance.day === day && sameName(remittance.collector, collector));
+      return {
+        collector,
+        expected: expectedCash(payments, collector, day),
+        closing: own.find(closesDay),
+        returned: own.filter((remittance) => !closesDay(remittance)),
+      };
+    });
+};
+
+export const remittanceReviewSchema = z.object({
+  reviewedBy: z.string().trim().min(2, "Treasurer's name required").max(100),
+  reviewNote: z.string().trim().max(500),
+});
+
+export type RemittanceReviewFormData = z.infer<typeof remittanceReviewSchema>;
@@ -0,0 +1,184 @@
+import { addMonths, format, parseISO } from "date-fns";
+import * as z from "zod";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import type { StallRecord } from "./stalls";
+import { normalizeStallTypeName } from "./stallTypes";
+
+/** One line of a rent ordinance: the price per square meter for a stall type and/or section. */
+export type RentRate = {
+  dbId: number;
+  ordinance: string;     // e.g. "Municipal Ordinance No. 2025-014"
+  effectiveFrom: string; // first rent month charged at this rate, "yyyy-MM"
+  stallType: string;     // "" applies to every type
+  section: string;       // "" applies to every section
+  ratePerSqm: number;
+  createdAt: string;
+};
+
+export type NewRentRate = Omit<RentRate, "dbId" | "createdAt">;
+
+/**
+ * A stall's rent from `effectiveFrom` onwards. The ledger charges each month the rent in effect
+ * for that month, so a new rate never changes what earlier months were billed.
+ */
+export type RentHistoryEntry = {
+  effectiveFrom: string; // "yyyy-MM"; "" for the rent charged before any recorded change
+  monthlyRent: number;
+  basis: string;         // the ordinance, or why the rent was changed by hand
+};
+
+const currentPeriod = (today: Date) => format(today, "yyyy-MM");
+
+/** Rent charged for a month ("yyyy-MM"). Stalls without a history are billed their `monthlyRent`. */
+export const rentForPeriod = (stall: Pick<StallRecord, "monthlyRent" | "rentHistory">, period: string): number => {
+  let rent = stall.monthlyRent;
+  for (const entry of stall.rentHistory) {
+    if (entry.effectiveFrom <= period) rent = entry.monthlyRent;
+  }
+  return rent;
+};
+
+/**
+ * Records a new rent from `effectiveFrom` without touching the months before it. Returns the
+ * stall's updated history and the rent in effect today (a future change takes over later).
+ */
+export const recordRentChange = (
+  stall: Pick<StallRecord, "monthlyRent" | "rentHistory">,
+  monthlyRent: number,
+  effectiveFrom: string,
+  basis: string,
+  today: Date = new Date(),
+): Pick<StallRecord, "monthlyRent" | "rentHistory"> => {
+  const history: RentHistoryEntry[] =
+    stall.rentHistory.length > 0
+      ? stall.rentHistory.filter((entry) => entry.effectiveFrom !== effectiveFrom)
+      : [{ effectiveFrom: "", monthlyRent: stall.monthlyRent, basis: "Rent before the first recorded change" }];
+  const rentHistory = [...history, { effectiveFrom, monthlyRent, basis }].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom),
+  );
+  return { rentHistory, monthlyRent: rentForPeriod({ monthlyRent, rentHistory }, currentPeriod(today)) };
+};
+
+/** Stalls whose stored `monthlyRent` is behind a scheduled change that has now taken effect. */
+export const scheduledRentUpdates = (stalls: StallRecord[], today: Date): { dbId: number; monthlyRent: number }[] =>
+  stalls.flatMap((stall) => {
+    const monthlyRent = rentForPeriod(stall, currentPeriod(today));
+    return monthlyRent === stall.monthlyRent ? [] : [{ dbId: stall.dbId, monthlyRent }];
+  });
+
+const appliesTo = (rate: Pick<RentRate, "stallType" | "section">, stall: Pick<StallRecord, "type" | "section">) =>
+  (!rate.stallType || normalizeStallTypeName(rate.stallType) === normalizeStallTypeName(stall.type)) &&
+  (!rate.section || sameName(rate.section, stall.section));
+
+// Type and section beats type alone, which beats section alone, which beats the catch-all rate.
+const specificity = (rate: Pick<RentRate, "stallType" | "section">) => (rate.stallType ? 2 : 0) + (rate.section ? 1 : 0);
+
+/**
+ * The rate that prices `stall` for `period`: the most recent ordinance in effect that covers
+ * the stall, and within it the most specific line.
+ */
+export const findRentRate = <T extends Omit<RentRate, "dbId" | "createdAt">>(
+  rates: T[],
+  stall: Pick<StallRecord, "type" | "section">,
+  period: string,
+): T | null => {
+  const candidates = rates.filter((rate) => rate.effectiveFrom <= period && appliesTo(rate, stall));
+  if (candidates.length === 0) return null;
+  const latest = candidates.reduce((max, rate) => (rate.effectiveFrom > max ? rate.effectiveFrom : max), "");
+  return candidates
+    .filter((rate) => rate.effectiveFrom === latest)
+    .reduce((best, rate) => (specificity(rate) > specificity(best) ? rate : best));
+};
+
+export const calculateRent = (stall: Pick<StallRecord, "areaSqm">, ratePerSqm: number): number | null =>
+  stall.areaSqm && stall.areaSqm > 0 ? fromCentavos(toCentavos(stall.areaSqm * ratePerSqm)) : null;
+
+export type RentPreviewRow = {
+  stall: StallRecord;
+  rate: Omit<RentRate, "dbId" | "createdAt"> | null;
+  currentRent: number; // what the stall is billed for the effective month today
+  newRent: number | null;
+  difference: number;
+  skipped: "no_area" | "no_rate" | null;
+};
+
+/** What every stall would be billed from `effectiveFrom` if `rates` were adopted. */
+export const previewRentSchedule = (
+  stalls: StallRecord[],
+  rates: Omit<RentRate, "dbId" | "createdAt">[],
+  effectiveFrom: string,
+): RentPreviewRow[] =>
+  stalls.map((stall) => {
+    const currentRent = rentForPeriod(stall, effectiveFrom);
+    const rate = findRentRate(rates, stall, effectiveFrom);
+    const newRent = rate ? calculateRent(stall, rate.ratePerSqm) : null;
+    return {
+      stall,
+      rate,
+      currentRent,
+      newRent,
+      difference: newRent === null ? 0 : fromCentavos(toCentavos(newRent) - toCentavos(currentRent)),
+      skipped: !rate ? "no_rate" : newRent === null ? "no_area" : null,
+    };
+  });
+
+export type RentPreviewSummary = {
+  changed: number;
+  unchanged: number;
+  skipped: number;
+  currentTotal: number; // monthly rent of the priced stalls before the change
+  newTotal: number;
+};
+
+export const summarizeRentPreview = (rows: RentPreviewRow[]): RentPreviewSummary => {
+  const priced = rows.filter((row) => row.newRent !== null);
+  return {
+    changed: priced.filter((row) => row.difference !== 0).length,
+    unchanged: priced.filter((row) => row.difference === 0).length,
+    skipped: rows.length - priced.length,
+    currentTotal: fromCentavos(priced.reduce((total, row) => total + toCentavos(row.currentRent), 0)),
+    newTotal: fromCentavos(priced.reduce((total, row) => total + toCentavos(row.newRent ?? 0), 0)),
+  };
+};
+
+/** Rates grouped by ordinance, newest first, for listing the schedule. */
+export const groupRentRates = (rates: RentRate[]): { ordinance: string; effectiveFrom: string; rates: RentRate[] }[] => {
+  const groups = new Map<string, { ordinance: string; effectiveFrom: string; rates: RentRate[] }>();
+  for (const rate of rates) {
+    const key = `${rate.effectiveFrom}|${rate.ordinance}`;
+    const group = groups.get(key) ?? { ordinance: rate.ordinance, effectiveFrom: rate.effectiveFrom, rates: [] };
+    group.rates.push(rate);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+};
+
+/** The month after the current one, the earliest a new ordinance is usually applied from. */
+export const defaultEffectivePeriod = (today: Date = new Date()): string => format(addMonths(today, 1), "yyyy-MM");
+
+export const formatEffectivePeriod = (period: string): string =>
+  period ? format(parseISO(`${period}-01`), "MMMM yyyy") : "Before the first recorded change";
+
+export const rentRateLineSchema = z.object({
+  stallType: z.string(),
+  section: z.string().trim().max(100),
+  ratePerSqm: z.coerce.number().positive("Rate must be a positive number."),
+});
+
+export const rentScheduleSchema = z.object({
+  ordinance: z.string().trim().min(3, "Ordinance reference required").max(200),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}$/, "Choose the first month the rates apply to"),
+  rates: z.array(rentRateLineSchema).min(1, "Add at least one rate"),
+});
+
+export type RentScheduleFormData = z.infer<typeof rentScheduleSchema>;
+
+export const ratesFromSchedule = (schedule: RentScheduleFormData): NewRentRate[] =>
+  schedule.rates.map((rate) => ({
+    ordinance: schedule.ordinance,
+    effectiveFrom: schedule.effectiveFrom,
+    stallType: rate.stallType,
+    section: rate.section,
+    ratePerSqm: rate.ratePerSqm,
+  }));
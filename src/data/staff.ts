@@ -0,0 +1,14 @@
+import * as z from "zod";
+
+/** A market office employee signed in to the admin, collection and verification pages. */
+export type StaffSession = {
+  userId: string;
+  email: string;
+};
+
+export const staffSignInSchema = z.object({
+  email: z.string().trim().email("Enter your staff email address"),
+  password: z.string().min(1, "Password required"),
+});
+
+export type StaffSignInFormData = z.infer<typeof staffSignInSchema>;
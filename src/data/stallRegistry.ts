@@ -0,0 +1,60 @@
+import type { StallRecord, StallStatus } from "./stalls";
+import { canonicalStallTypeName, normalizeStallTypeName, type StallType } from "./stallTypes";
+
+export type StallSortKey = "id" | "name" | "vendor" | "type" | "monthlyRent" | "nextDue" | "status";
+export type SortDirection = "asc" | "desc";
+
+export type StallRegistryFilters = {
+  search: string;
+  type: string | "all";
+  status: StallStatus | "all";
+};
+
+export const DEFAULT_REGISTRY_FILTERS: StallRegistryFilters = {
+  search: "",
+  type: "all",
+  status: "all",
+};
+
+/** Types match by their catalog spelling, so "frozen  goods" on an older stall is listed under "Frozen Goods". */
+export const filterStalls = (
+  stalls: StallRecord[],
+  filters: StallRegistryFilters,
+  stallTypes: Pick<StallType, "name">[] = [],
+): StallRecord[] => {
+  const search = filters.search.trim().toLowerCase();
+  const type = filters.type === "all" ? null : normalizeStallTypeName(canonicalStallTypeName(stallTypes, filters.type));
+  return stalls.filter((stall) => {
+    if (type !== null && normalizeStallTypeName(canonicalStallTypeName(stallTypes, stall.type)) !== type) return false;
+    if (filters.status !== "all" && stall.status !== filters.status) return false;
+    if (!search) return true;
+    return stall.name.toLowerCase().includes(search) || stall.vendor.toLowerCase().includes(search);
+  });
+};
+
+const compareValues = (a: StallRecord, b: StallRecord, key: StallSortKey): number => {
+  switch (key) {
+    case "id":
+      return a.dbId - b.dbId;
+    case "monthlyRent":
+      return a.monthlyRent - b.monthlyRent;
+    default:
+      return String(a[key] ?? "").localeCompare(String(b[key] ?? ""), undefined, { numeric: true });
+  }
+};
+
+export const sortStalls = (stalls: StallRecord[], key: StallSortKey, direction: SortDirection): StallRecord[] => {
+  const sorted = [...stalls].sort((a, b) => compareValues(a, b, key));
+  return direction === "asc" ? sorted : sorted.reverse();
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(Math.max(1, page), pageCount);
+  const start = (currentPage - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    page: currentPage,
+    pageCount,
+  };
+};
@@ -0,0 +1,60 @@
+import { addDays, isValid, parseISO, startOfDay, subDays } from "date-fns";
+import type { StallRecord, StallStatus } from "./stalls";
+
+export type StallStatusPolicy = {
+  /** Days after `nextDue` before an unpaid stall becomes overdue. */
+  graceDays: number;
+  /** Days before `nextDue` when a stall starts showing as due. */
+  dueSoonDays: number;
+};
+
+const readDays = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Each market deployment can override the defaults through its env file.
+export const DEFAULT_STATUS_POLICY: StallStatusPolicy = {
+  graceDays: readDays(import.meta.env.VITE_STATUS_GRACE_DAYS, 5),
+  dueSoonDays: readDays(import.meta.env.VITE_STATUS_DUE_SOON_DAYS, 7),
+};
+
+export const parseStallDate = (value: string): Date | null => {
+  if (!value) return null;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? startOfDay(parsed) : null;
+};
+
+export const computeStallStatus = (
+  stall: Pick<StallRecord, "occupied" | "nextDue">,
+  today: Date,
+  policy: StallStatusPolicy = DEFAULT_STATUS_POLICY,
+): StallStatus => {
+  if (!stall.occupied) return "vacant";
+
+  const nextDue = parseStallDate(stall.nextDue);
+  // An occupied stall without a due date has not had its first payment scheduled yet.
+  if (!nextDue) return "due";
+
+  const day = startOfDay(today);
+  if (day > addDays(nextDue, policy.graceDays)) return "overdue";
+  if (day >= subDays(nextDue, policy.dueSoonDays)) return "due";
+  return "current";
+};
+
+export type StallStatusChange = {
+  dbId: number;
+  from: StallStatus;
+  to: StallStatus;
+};
+
+/** Returns only the stalls whose stored status no longer matches their payment dates. */
+export const recomputeStallStatuses = (
+  stalls: StallRecord[],
+  today: Date,
+  policy: StallStatusPolicy = DEFAULT_STATUS_POLICY,
+): StallStatusChange[] =>
+  stalls.flatMap((stall) => {
+    const status = computeStallStatus(stall, today, policy);
+    return status === stall.status ? [] : [{ dbId: stall.dbId, from: stall.status, to: status }];
+  });
@@ -0,0 +1,80 @@
+import * as z from "zod";
+import type { StallRecord } from "./stalls";
+
+/** An entry in the stall type catalog. `name` is what stalls and registrations store as their type. */
+export type StallType = {
+  dbId: number;
+  name: string;
+  description: string;
+  defaultRent: number;       // pre-filled when the office adds a stall of this type
+  requiredPermits: string[]; // shown to applicants, e.g. a sanitary permit for Meat and Fish
+  active: boolean;           // inactive types stay on existing stalls but are not offered to applicants
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewStallType = Omit<StallType, "dbId" | "createdAt" | "updatedAt">;
+
+// Renaming would orphan the stalls that carry the old name, so the name is fixed once created.
+export type StallTypeUpdate = Partial<Omit<NewStallType, "name">>;
+
+const SANITARY_PERMIT = "Sanitary permit";
+const HEALTH_CERTIFICATE = "Health certificate";
+
+/** The catalog a new installation starts with: the types the market office used before it was editable. */
+export const DEFAULT_STALL_TYPES: NewStallType[] = [
+  { name: "Fish", description: "Fresh fish and seafood", defaultRent: 1500, requiredPermits: [SANITARY_PERMIT, HEALTH_CERTIFICATE], active: true },
+  { name: "Meat", description: "Pork and beef", defaultRent: 1800, requiredPermits: [SANITARY_PERMIT, HEALTH_CERTIFICATE], active: true },
+  { name: "Vegetables", description: "Fresh vegetables and root crops", defaultRent: 1000, requiredPermits: [], active: true },
+  { name: "Fruits", description: "Fresh fruit", defaultRent: 1000, requiredPermits: [], active: true },
+  { name: "Dry Goods", description: "Clothing, housewares and other non-food items", defaultRent: 1200, requiredPermits: [], active: true },
+  { name: "General", description: "Sari-sari and general merchandise", defaultRent: 1200, requiredPermits: [], active: true },
+  { name: "Frozen Goods", description: "Frozen and chilled products", defaultRent: 1500, requiredPermits: [SANITARY_PERMIT], active: true },
+  { name: "Poultry", description: "Dressed chicken and eggs", defaultRent: 1500, requiredPermits: [SANITARY_PERMIT, HEALTH_CERTIFICATE], active: true },
+  { name: "Spices", description: "Spices, condiments and dried herbs", defaultRent: 900, requiredPermits: [], active: true },
+];
+
+export const normalizeStallTypeName = (name: string): string => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const findStallType = <T extends Pick<StallType, "name">>(stallTypes: T[], name: string): T | undefined => {
+  const normalized = normalizeStallTypeName(name);
+  return stallTypes.find((stallType) => normalizeStallTypeName(stallType.name) === normalized);
+};
+
+/** The catalog's spelling of a type name, so "frozen  goods" numbers and names stalls as "Frozen Goods". */
+export const canonicalStallTypeName = (stallTypes: Pick<StallType, "name">[], name: string): string =>
+  findStallType(stallTypes, name)?.name ?? name.trim();
+
+/** Types applicants may choose from, in catalog order. */
+export const activeStallTypeNames = (stallTypes: StallType[]): string[] =>
+  stallTypes.filter((stallType) => stallType.active).map((stallType) => stallType.name);
+
+/** Every type an admin may filter or assign by: the whole catalog plus any older names still on stalls. */
+export const stallTypeOptions = (stallTypes: StallType[], stalls: Pick<StallRecord, "type">[]): string[] =>
+  Array.from(
+    new Set([
+      ...stallTypes.map((stallType) => stallType.name),
+      ...stalls.map((stall) => canonicalStallTypeName(stallTypes, stall.type)),
+    ]),
+  ).sort();
+
+/** Splits the permits field (one per line or comma separated) into a clean, de-duplicated list. */
+export const parsePermits = (value: string): string[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\n,]/)
+        .map((permit) => permit.trim())
+        .filter(Boolean),
+    ),
+  );
+
+export const stallTypeSchema = z.object({
+  name: z.string().trim().min(2, "Type name required").max(50),
+  description: z.string().trim().max(200),
+  defaultRent: z.coerce.number().nonnegative("Rent cannot be negative"),
+  requiredPermits: z.string().max(500),
+  active: z.boolean(),
+});
+
+export type StallTypeFormData = z.infer<typeof stallTypeSchema>;
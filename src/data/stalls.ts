@@ -1,3 +1,9 @@
+import * as z from "zod";
+import type { StallPosition } from "./floorMap";
+import type { RentHistoryEntry } from "./rentRates";
+import { computeStallStatus } from "./stallStatus";
+import { canonicalStallTypeName, normalizeStallTypeName, type StallType } from "./stallTypes";
+
 export type StallStatus = "current" | "due" | "overdue" | "vacant";
 
 export type StallRecord = {
@@ -12,29 +18,56 @@ export type StallRecord = {
   nextDue: string;
   status: StallStatus;
   occupied: boolean;
+  heldBy: string;           // applicant session or registration ID holding a vacant stall, "" if none
+  heldUntil: string | null; // ISO timestamp; null while held for a submitted application
+  section: string;          // market area, e.g. "Fish Section"
+  row: string;              // row within the section, e.g. "B"
+  position: StallPosition | null; // placement on the floor map; null until an admin places it
+  areaSqm: number | null;   // floor area the rent schedule prices by; null until measured
+  rentHistory: RentHistoryEntry[]; // rent changes by month, oldest first; empty if never changed
+};
+
+export type StallUpdate = Partial<Omit<StallRecord, "id" | "dbId">>;
+
+// A previous occupant, archived when a stall is vacated or handed to another vendor.
+export type StallTenancy = {
+  id: string;
+  stallDbId: number;
+  vendor: string;
+  contact: string;
+  monthlyRent: number;
+  lastPayment: string;
+  nextDue: string;
+  vacatedOn: string;
+  reason: string;
 };
 
+export type VacateStallInput = {
+  vacatedOn: string;
+  reason: string;
+};
+
+export const STALL_STATUS_OPTIONS: StallStatus[] = ["current", "due", "overdue", "vacant"];
 
-export const BASE_TYPE_OPTIONS: string[] = [
-  "Fish",
-  "Meat",
-  "Vegetables",
-  "Fruits",
-  "Dry Goods",
-  "General",
-  "Frozen Goods",
-  "Poultry",
-  "Spices"
-];
+export const STALL_STATUS_LABELS: Record<StallStatus, string> = {
+  current: "Current",
+  due: "Due",
+  overdue: "Overdue",
+  vacant: "Vacant",
+};
 
 export const createInitialStalls = (): StallRecord[] => [];
 
-export const formatStallDisplay = (stall: StallRecord): string => {
+export const formatStallDisplay = (stall: Pick<StallRecord, "name" | "vendor">): string => {
   const vendor = stall.vendor ? ` - ${stall.vendor}` : "";
   return `${stall.name}${vendor}`;
 };
 
-export const getNextStallNumbers = (stalls: StallRecord[], type?: string) => {
+/**
+ * Next free `stall-N` id and, per type, the next "<Type> Stall N" number. Types are matched against
+ * the catalog so differently typed spellings of the same type share one sequence.
+ */
+export const getNextStallNumbers = (stalls: StallRecord[], type?: string, stallTypes: Pick<StallType, "name">[] = []) => {
   const nextIdNumber = 
     stalls.reduce((highest, stall) => {
       const match = /stall-(\d+)/.exec(stall.id);
@@ -44,12 +77,12 @@ export const getNextStallNumbers = (stalls: StallRecord[], type?: string) => {
       return Math.max(highest, Number(match[1]));
     }, 0) + 1;
 
-  const normalizedType = type?.trim().toLowerCase() ?? null;
+  const normalizedType = type == null ? null : normalizeStallTypeName(canonicalStallTypeName(stallTypes, type));
 
   const nextNameNumber = 
     stalls.reduce((highest, stall) => {
       if (normalizedType !== null) {
-        const stallTypeNormalized = stall.type.trim().toLowerCase();
+        const stallTypeNormalized = normalizeStallTypeName(canonicalStallTypeName(stallTypes, stall.type));
         if (stallTypeNormalized !== normalizedType) {
           return highest;
         }
@@ -63,3 +96,59 @@ export const getNextStallNumbers = (stalls: StallRecord[], type?: string) => {
 
   return { nextIdNumber, nextNameNumber };
 };
+
+export const suggestStallIdentity = (stalls: StallRecord[], type: string, stallTypes: Pick<StallType, "name">[] = []) => {
+  const { nextIdNumber, nextNameNumber } = getNextStallNumbers(stalls, type, stallTypes);
+  return {
+    dbId: nextIdNumber,
+    id: `stall-${nextIdNumber}`,
+    name: `${canonicalStallTypeName(stallTypes, type)} Stall ${nextNameNumber}`.trim(),
+  };
+};
+
+// Keeps `occupied`, `status` and the vendor fields in agreement after an edit.
+export const applyOccupancy = (stall: StallRecord, today: Date = new Date()): StallRecord => {
+  const occupied = stall.vendor.trim() !== "";
+  if (!occupied) {
+    return { ...stall, vendor: "", contact: "", occupied: false, status: "vacant", lastPayment: "", nextDue: "" };
+  }
+  const occupiedStall = { ...stall, occupied: true };
+  return { ...occupiedStall, status: computeStallStatus(occupiedStall, today) };
+};
+
+// How long a stall picked on the registration form is kept for the applicant.
+export const STALL_HOLD_MINUTES = 15;
+
+export const stallHoldExpiry = (now: Date = new Date()): string =>
+  new Date(now.getTime() + STALL_HOLD_MINUTES * 60 * 1000).toISOString();
+
+/** Whether someone other than `holder` currently holds the stall. */
+export const isHeldByOther = (stall: StallRecord, holder: string, now: Date = new Date()): boolean => {
+  if (!stall.heldBy || stall.heldBy === holder) return false;
+  return stall.heldUntil === null || new Date(stall.heldUntil) > now;
+};
+
+/**
+ * Whether `holder` (an applicant's form session) may hold the stall now. A hold without an end
+ * belongs to a submitted application and cannot be taken over, even by the same session.
+ */
+export const canHold = (stall: StallRecord, holder: string, now: Date = new Date()): boolean =>
+  !stall.occupied &&
+  (!stall.heldBy || (stall.heldUntil !== null && (stall.heldBy === holder || new Date(stall.heldUntil) <= now)));
+
+/** Vacant stalls an applicant may request: not occupied and not held for someone else. */
+export const isAvailableForApplicant = (stall: StallRecord, holder: string, now: Date = new Date()): boolean =>
+  !stall.occupied && !isHeldByOther(stall, holder, now);
+
+export const stallEditorSchema = z.object({
+  type: z.string().min(1, "Please select a stall type"),
+  name: z.string().trim().min(2, "Stall name required").max(200),
+  monthlyRent: z.coerce.number().positive("Rent must be a positive number."),
+  vendor: z.string().trim().max(200),
+  contact: z.string().trim().max(50),
+  section: z.string().trim().max(100),
+  row: z.string().trim().max(20),
+  areaSqm: z.union([z.literal(""), z.coerce.number().positive("Area must be a positive number.")]),
+});
+
+export type StallEditorData = z.infer<typeof stallEditorSchema>;
@@ -0,0 +1,150 @@
+import { format, startOfYear } from "date-fns";
+import { sameName } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+import { PAYMENT_METHOD_LABELS, formatPeriod, type Payment } from "./payments";
+import { DEFAULT_PENALTY_POLICY, tenantAccount, type PenaltyPolicy, type PenaltyWaiver } from "./penalties";
+import type { StallRecord } from "./stalls";
+
+/** One stall's records for a statement. */
+export type StatementAccount = {
+  stall: StallRecord;
+  payments: Payment[];
+  waivers: PenaltyWaiver[];
+};
+
+export type StatementEntryKind = "rent" | "surcharge" | "payment" | "waiver";
+
+export type StatementEntry = {
+  date: string; // "yyyy-MM-dd"
+  stallName: string;
+  kind: StatementEntryKind;
+  description: string;
+  charge: number;
+  credit: number;
+  balance: number; // running balance after this entry; negative is an advance payment
+};
+
+export type Statement = {
+  vendor: string;
+  stallNames: string[];
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totals: Record<StatementEntryKind, number>;
+  closingBalance: number;
+};
+
+// Charges are listed before the payments made on the same day.
+const KIND_ORDER: Record<StatementEntryKind, number> = { rent: 0, surcharge: 1, payment: 2, waiver: 3 };
+
+export const defaultStatementRange = (today: Date = new Date()) => ({
+  from: format(startOfYear(today), "yyyy-MM-dd"),
+  to: format(today, "yyyy-MM-dd"),
+});
+
+/** Stalls leased by the same vendor as `stall`, so one statement can cover all of them. */
+export const stallsOfVendor = (stalls: StallRecord[], stall: StallRecord): StallRecord[] =>
+  stall.vendor ? stalls.filter((other) => other.occupied && sameName(other.vendor, stall.vendor)) : [stall];
+
+const accountEntries = (
+  { stall, payments, waivers }: StatementAccount,
+  to: string,
+  policy: PenaltyPolicy,
+): Omit<StatementEntry, "balance">[] => {
+  // Earlier tenants of the stall have their own accounts; the totals match `computeAmountDue`.
+  const account = tenantAccount(stall, payments, waivers, to, policy);
+  const entry = (date: string, kind: StatementEntryKind, description: string, amount: number) => ({
+    date,
+    stallName: stall.name,
+    kind,
+    description,
+    charge: kind === "rent" || kind === "surcharge" ? amount : 0,
+    credit: kind === "payment" || kind === "waiver" ? amount : 0,
+  });
+
+  return [
+    ...account.months.flatMap((month) => [
+      entry(month.dueDate, "rent", `Rent for ${formatPeriod(month.period)}`, month.charged),
+      ...month.surcharges
+        .filter((surcharge) => surcharge.amount > 0)
+        .map((surcharge) =>
+          entry(surcharge.date, "surcharge", `Late surcharge on ${formatPeriod(month.period)} rent`, surcharge.amount),
+        ),
+    ]),
+    ...account.payments.map((payment) =>
+      entry(
+        payment.paidOn,
+        "payment",
+        `Payment, ${PAYMENT_METHOD_LABELS[payment.method]}${payment.orNumber ? ` (OR ${payment.orNumber})` : ""}`,
+        payment.amount,
+      ),
+    ),
+    ...account.waivers.map((waiver) =>
+      entry(
+        waiver.createdAt.slice(0, 10),
+        "waiver",
+        `Surcharge on ${formatPeriod(waiver.period)} rent waived, approved by ${waiver.approvedBy}`,
+        waiver.amount,
+      ),
+    ),
+  ];
+};
+
+/**
+ * Statement of account from `from` to `to` ("yyyy-MM-dd", inclusive) for one or more stalls of
+ * the same vendor. Everything before `from` is carried in the opening balance.
+ */
+export const buildStatement = (
+  accounts: StatementAccount[],
+  from: string,
+  to: string,
+  policy: PenaltyPolicy = DEFAULT_PENALTY_POLICY,
+): Statement => {
+  const all = accounts
+    .flatMap((account) => accountEntries(account, to, policy))
+    .sort((a, b) => a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+
+  let balance = all
+    .filter((entry) => entry.date < from)
+    .reduce((total, entry) => total + toCentavos(entry.charge) - toCentavos(entry.credit), 0);
+  const openingBalance = fromCentavos(balance);
+
+  const totals: Record<StatementEntryKind, number> = { rent: 0, surcharge: 0, payment: 0, waiver: 0 };
+  const entries = all
+    .filter((entry) => entry.date >= from)
+    .map((entry) => {
+      const amount = entry.charge || entry.credit;
+      totals[entry.kind] = fromCentavos(toCentavos(totals[entry.kind]) + toCentavos(amount));
+      balance += toCentavos(entry.charge) - toCentavos(entry.credit);
+      return { ...entry, balance: fromCentavos(balance) };
+    });
+
+  return {
+    vendor: accounts[0]?.stall.vendor ?? "",
+    stallNames: accounts.map((account) => account.stall.name),
+    from,
+    to,
+    openingBalance,
+    entries,
+    totals,
+    closingBalance: fromCentavos(balance),
+  };
+};
+
+const STATEMENT_CSV_HEADER = ["Date", "Stall", "Description", "Charges", "Payments", "Balance"];
+
+/** Rows for the CSV export, with the opening and closing balances as the first and last lines. */
+export const statementCsvRows = (statement: Statement): (string | number)[][] => [
+  STATEMENT_CSV_HEADER,
+  [statement.from, "", "Opening balance", "", "", statement.openingBalance],
+  ...statement.entries.map((entry) => [
+    entry.date,
+    entry.stallName,
+    entry.description,
+    entry.charge || "",
+    entry.credit || "",
+    entry.balance,
+  ]),
+  [statement.to, "", "Closing balance", "", "", statement.closingBalance],
+];
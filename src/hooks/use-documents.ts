@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { documentStorage } from "@/repositories/documentStorage";
+
+export const documentKeys = {
+  url: (path: string) => ["documents", "url", path] as const,
+};
+
+export function useDocumentUrl(path: string) {
+  return useQuery({
+    queryKey: documentKeys.url(path),
+    queryFn: () => documentStorage.getUrl(path),
+    // Signed URLs expire after an hour; refresh well before that.
+    staleTime: 30 * 60 * 1000,
+  });
+}
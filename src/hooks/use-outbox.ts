@@ -0,0 +1,35 @@
+import { useSyncExternalStore } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { outboxRepository } from "@/repositories/outboxRepository";
+
+export const outboxKeys = {
+  all: ["outbox"] as const,
+};
+
+export function useOutbox() {
+  return useQuery({
+    queryKey: outboxKeys.all,
+    queryFn: () => outboxRepository.list(),
+  });
+}
+
+export function useDiscardOutboxEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => outboxRepository.remove(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: outboxKeys.all }),
+  });
+}
+
+const subscribeToConnection = (onChange: () => void) => {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+};
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribeToConnection, () => navigator.onLine);
+}
@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { isNetworkError, isOffline, type OutboxEntry } from "@/data/outbox";
+import { allocatePayment, type Payment, type PaymentFormData } from "@/data/payments";
+import { allocateWithSurcharges } from "@/data/penalties";
+import { closedDayMessage, findClosingRemittance } from "@/data/remittances";
+import type { StallRecord } from "@/data/stalls";
+import { computeStallStatus } from "@/data/stallStatus";
+import { requestOutboxSync } from "@/lib/service-worker";
+import { outboxRepository } from "@/repositories/outboxRepository";
+import { paymentsRepository } from "@/repositories/paymentsRepository";
+import { penaltyWaiversRepository } from "@/repositories/penaltyWaiversRepository";
+import { receiptsRepository } from "@/repositories/receiptsRepository";
+import { remittancesRepository } from "@/repositories/remittancesRepository";
+import { stallsRepository } from "@/repositories/stallsRepository";
+import { outboxKeys } from "./use-outbox";
+import { stallKeys } from "./use-stalls";
+
+export const paymentKeys = {
+  all: ["payments"] as const,
+  byStall: (stallDbId: number) => ["payments", "stall", stallDbId] as const,
+};
+
+export function usePayments() {
+  return useQuery({
+    queryKey: paymentKeys.all,
+    queryFn: () => paymentsRepository.list(),
+  });
+}
+
+export function useStallPayments(stallDbId: number | null | undefined) {
+  return useQuery({
+    queryKey: paymentKeys.byStall(stallDbId ?? 0),
+    queryFn: () => paymentsRepository.listByStall(stallDbId!),
+    enabled: stallDbId != null,
+  });
+}
+
+const savePayment = async (stall: StallRecord, history: Payment[], data: PaymentFormData, idempotencyKey: string) => {
+  if (!stall.occupied) {
+    throw new Error(`${stall.name} is vacant`);
+  }
+  const [waivers, remittances] = await Promise.all([
+    penaltyWaiversRepository.listByStall(stall.dbId),
+    remittancesRepository.listByDay(data.paidOn),
+  ]);
+  if (findClosingRemittance(remittances, data.collector, data.paidOn)) {
+    throw new Error(closedDayMessage(data.collector, data.paidOn));
+  }
+  const { nextDue, ...coverage } = allocateWithSurcharges(stall, history, waivers, data.amount, data.paidOn);
+  const payment = await paymentsRepository.create({
+    stallDbId: stall.dbId,
+    vendor: stall.vendor,
+    amount: data.amount,
+    method: data.method,
+    orNumber: "",
+    collector: data.collector,
+    paidOn: data.paidOn,
+    notes: data.notes,
+    idempotencyKey,
+    ...coverage,
+  });
+  return { payment, nextDue };
+};
+
+/**
+ * Records a payment against the stall's surcharges and then its open months, moves the
+ * stall's `lastPayment`/`nextDue` forward to match and issues the official receipt. Days the
+ * collector has already remitted are closed to new payments. Sending the same `idempotencyKey`
+ * again finishes the payment already saved under it instead of adding a second one.
+ */
+export const recordPayment = async (
+  stall: StallRecord,
+  data: PaymentFormData,
+  idempotencyKey: string = crypto.randomUUID(),
+) => {
+  const history = await paymentsRepository.listByStall(stall.dbId);
+  const sent = history.find((payment) => payment.idempotencyKey === idempotencyKey);
+  // For a payment already saved, the due date is wherever its allocations left the stall.
+  const { payment, nextDue } = sent
+    ? { payment: sent, nextDue: allocatePayment(stall, history, 0, sent.paidOn).nextDue }
+    : await savePayment(stall, history, data, idempotencyKey);
+
+  const lastPayment = stall.lastPayment > data.paidOn ? stall.lastPayment : data.paidOn;
+  const status = computeStallStatus({ occupied: true, nextDue }, new Date());
+  await stallsRepository.update(stall.dbId, { lastPayment, nextDue, status });
+
+  const receipt = await receiptsRepository.issue(payment.dbId);
+  return { payment: { ...payment, orNumber: receipt.orNumber }, receipt };
+};
+
+export type RecordPaymentResult =
+  | (Awaited<ReturnType<typeof recordPayment>> & { queued: null })
+  | { payment: null; receipt: null; queued: OutboxEntry };
+
+/**
+ * Records a payment, or queues it in the outbox when there is no connection. Queued payments
+ * get their receipt when they sync (see `useOutboxSync`).
+ */
+export function useRecordPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ stall, data }: { stall: StallRecord; data: PaymentFormData }): Promise<RecordPaymentResult> => {
+      const idempotencyKey = crypto.randomUUID();
+      const queue = async () => ({
+        payment: null,
+        receipt: null,
+        queued: await outboxRepository.add({
+          kind: "payment",
+          stallDbId: stall.dbId,
+          stallName: stall.name,
+          vendor: stall.vendor,
+          expectedNextDue: stall.nextDue,
+          idempotencyKey,
+          data,
+        }),
+      });
+      if (isOffline()) return queue();
+      try {
+        // The insert may have reached the server before the connection dropped; the key stops the
+        // queued copy from being saved twice.
+        return { ...(await recordPayment(stall, data, idempotencyKey)), queued: null };
+      } catch (error) {
+        if (isNetworkError(error)) return queue();
+        throw error;
+      }
+    },
+    onSuccess: ({ queued }) => {
+      if (queued) {
+        queryClient.invalidateQueries({ queryKey: outboxKeys.all });
+        requestOutboxSync();
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+      queryClient.invalidateQueries({ queryKey: stallKeys.all });
+    },
+  });
+}
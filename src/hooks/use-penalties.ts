@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { NewPenaltyWaiver } from "@/data/penalties";
+import { penaltyWaiversRepository } from "@/repositories/penaltyWaiversRepository";
+
+export const penaltyWaiverKeys = {
+  all: ["penalty-waivers"] as const,
+  byStall: (stallDbId: number) => ["penalty-waivers", "stall", stallDbId] as const,
+};
+
+export function usePenaltyWaivers() {
+  return useQuery({
+    queryKey: penaltyWaiverKeys.all,
+    queryFn: () => penaltyWaiversRepository.list(),
+  });
+}
+
+export function useStallPenaltyWaivers(stallDbId: number | null | undefined) {
+  return useQuery({
+    queryKey: penaltyWaiverKeys.byStall(stallDbId ?? 0),
+    queryFn: () => penaltyWaiversRepository.listByStall(stallDbId!),
+    enabled: stallDbId != null,
+  });
+}
+
+export function useWaivePenalty() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (waiver: NewPenaltyWaiver) => penaltyWaiversRepository.create(waiver),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: penaltyWaiverKeys.all }),
+  });
+}
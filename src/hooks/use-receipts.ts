@@ -0,0 +1,35 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Receipt } from "@/data/receipts";
+import { receiptsRepository } from "@/repositories/receiptsRepository";
+import { paymentKeys } from "./use-payments";
+
+export const receiptKeys = {
+  detail: (orNumber: string) => ["receipts", orNumber] as const,
+};
+
+export function useReceipt(orNumber: string | null | undefined) {
+  return useQuery({
+    queryKey: receiptKeys.detail(orNumber ?? ""),
+    queryFn: () => receiptsRepository.get(orNumber!),
+    enabled: !!orNumber,
+  });
+}
+
+export function useIssueReceipt() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (paymentDbId: number) => receiptsRepository.issue(paymentDbId),
+    onSuccess: (receipt: Receipt) => {
+      queryClient.setQueryData(receiptKeys.detail(receipt.orNumber), receipt);
+      queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+    },
+  });
+}
+
+export function useRecordReceiptPrint() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (orNumber: string) => receiptsRepository.recordPrint(orNumber),
+    onSuccess: (receipt: Receipt) => queryClient.setQueryData(receiptKeys.detail(receipt.orNumber), receipt),
+  });
+}
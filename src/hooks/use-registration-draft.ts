@@ -0,0 +1,50 @@
+import { useCallback, useState } from "react";
+import type { RegistrationFormData } from "@/data/registrations";
+
+const DRAFT_STORAGE_KEY = "sibulan-market:registration-draft";
+
+export type RegistrationDraft = {
+  holder: string; // identifies this applicant's stall hold across reloads
+  step: number;
+  values: Partial<RegistrationFormData>;
+  savedAt: string;
+};
+
+const readDraft = (): RegistrationDraft | null => {
+  try {
+    const raw = localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+    const draft = JSON.parse(raw) as RegistrationDraft;
+    return draft && typeof draft === "object" && draft.values ? draft : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps the in-progress registration in local storage so an applicant who closes the tab
+ * (or loses signal) resumes on the same step with the same answers.
+ */
+export function useRegistrationDraft() {
+  const [initialDraft] = useState(readDraft);
+  const [holder] = useState(() => initialDraft?.holder ?? crypto.randomUUID());
+
+  const saveDraft = useCallback(
+    (step: number, values: Partial<RegistrationFormData>) => {
+      const draft: RegistrationDraft = { holder, step, values, savedAt: new Date().toISOString() };
+      try {
+        localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+      } catch (error) {
+        // Storage can be full or disabled (private browsing); the form still works without it.
+        console.warn("Could not save registration draft", error);
+      }
+    },
+    [holder],
+  );
+
+  const clearDraft = useCallback(() => {
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+  }, []);
+
+  return { initialDraft, holder, saveDraft, clearDraft };
+}
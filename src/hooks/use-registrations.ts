@@ -0,0 +1,218 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { extensionForMimeType, type RegistrationDocument } from "@/data/documents";
+import type { ConflictCandidate } from "@/data/duplicates";
+import {
+  REGISTRATION_REQUIREMENTS,
+  REGISTRATION_STATUS_LABELS,
+  assignRequestedStall,
+  canTransition,
+  stallFromRegistration,
+  type RegistrationFormData,
+  type RegistrationRecord,
+  type RegistrationRequirement,
+  type RegistrationUpdate,
+  type ReviewDecision,
+} from "@/data/registrations";
+import { stallHoldExpiry } from "@/data/stalls";
+import { requestOutboxSync } from "@/lib/service-worker";
+import { documentStorage } from "@/repositories/documentStorage";
+import { outboxRepository } from "@/repositories/outboxRepository";
+import { registrationsRepository } from "@/repositories/registrationsRepository";
+import { stallsRepository } from "@/repositories/stallsRepository";
+import { stallTypesRepository } from "@/repositories/stallTypesRepository";
+import { outboxKeys } from "./use-outbox";
+import { stallKeys } from "./use-stalls";
+
+export const registrationKeys = {
+  all: ["registrations"] as const,
+  detail: (registrationId: string) => ["registrations", registrationId] as const,
+  token: (registrationId: string) => ["registrations", registrationId, "token"] as const,
+};
+
+const onRegistrationSaved = (queryClient: ReturnType<typeof useQueryClient>) => (record: RegistrationRecord) => {
+  queryClient.setQueryData(registrationKeys.detail(record.registrationId), record);
+  queryClient.invalidateQueries({ queryKey: registrationKeys.all, exact: true });
+};
+
+export function useRegistrations() {
+  return useQuery({
+    queryKey: registrationKeys.all,
+    queryFn: () => registrationsRepository.list(),
+  });
+}
+
+export function useRegistration(registrationId: string | null | undefined) {
+  return useQuery({
+    queryKey: registrationKeys.detail(registrationId ?? ""),
+    queryFn: () => registrationsRepository.get(registrationId!),
+    enabled: !!registrationId,
+  });
+}
+
+/** The signed QR code for an application just submitted; issued once per page view. */
+export function useRegistrationToken(registrationId: string | null | undefined) {
+  return useQuery({
+    queryKey: registrationKeys.token(registrationId ?? ""),
+    queryFn: () => registrationsRepository.issueToken(registrationId!),
+    enabled: !!registrationId,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+export type RegistrationFiles = Partial<Record<RegistrationRequirement, File>>;
+
+export type NewRegistrationInput = { data: RegistrationFormData; files: RegistrationFiles; holder: string };
+
+/**
+ * Renews the applicant's hold on the requested stall, uploads the attached documents, then
+ * saves the application with the stall's official name and rent. Requirements without a file
+ * are recorded as missing so the applicant sees them on /status. The stall stays held for the
+ * application until a reviewer decides.
+ */
+export const createRegistration = async ({ data, files, holder }: NewRegistrationInput) => {
+  await stallsRepository.hold(data.requestedStallDbId, holder, stallHoldExpiry());
+  const folder = crypto.randomUUID();
+  const documents: RegistrationDocument[] = [];
+  try {
+    for (const requirement of REGISTRATION_REQUIREMENTS) {
+      const file = files[requirement];
+      if (!file) continue;
+      const path = `${folder}/${requirement}.${extensionForMimeType(file.type)}`;
+      await documentStorage.upload(path, file);
+      documents.push({
+        requirement,
+        path,
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        uploadedAt: new Date().toISOString(),
+      });
+    }
+    // The type picked on the form only narrowed the stall list; the stall's own type is recorded.
+    const { stallType, ...answers } = data;
+    return await registrationsRepository.create({
+      ...answers,
+      documents,
+      missingRequirements: REGISTRATION_REQUIREMENTS.filter((requirement) => !files[requirement]),
+      stallHolder: holder,
+    });
+  } catch (error) {
+    // Best effort: anonymous applicants may not be allowed to delete what they uploaded.
+    await documentStorage.remove(documents.map((document) => document.path)).catch(() => undefined);
+    throw error;
+  }
+};
+
+export function useCreateRegistration() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: createRegistration,
+    onSuccess: (record) => {
+      onRegistrationSaved(queryClient)(record);
+      queryClient.invalidateQueries({ queryKey: stallKeys.all });
+    },
+  });
+}
+
+/** Keeps an application submitted without a connection in the outbox until it can be sent. */
+export function useQueueRegistration() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ data, files, holder }: NewRegistrationInput) =>
+      outboxRepository.add({
+        kind: "registration",
+        applicant: `${data.firstName} ${data.lastName}`,
+        holder,
+        data,
+        files,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: outboxKeys.all });
+      requestOutboxSync();
+    },
+  });
+}
+
+export function useUpdateRegistration() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ registrationId, changes }: { registrationId: string; changes: RegistrationUpdate }) =>
+      registrationsRepository.update(registrationId, changes),
+    onSuccess: onRegistrationSaved(queryClient),
+  });
+}
+
+/**
+ * Moves an application through the review lifecycle. Approving hands the requested stall to the
+ * applicant (or creates one for older applications without a picked stall); rejecting or
+ * waitlisting releases the stall. Rejecting requires a reason for the applicant.
+ */
+export function useReviewRegistration() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ registration, decision }: { registration: RegistrationRecord; decision: ReviewDecision }) => {
+      const { to, reviewer } = decision;
+      if (!canTransition(registration.status, to)) {
+        throw new Error(
+          `Cannot move an application from ${REGISTRATION_STATUS_LABELS[registration.status]} to ${REGISTRATION_STATUS_LABELS[to]}`,
+        );
+      }
+      const rejectionReason = decision.rejectionReason?.trim() ?? "";
+      if (to === "rejected" && !rejectionReason) {
+        throw new Error("A rejection reason is required");
+      }
+
+      const changes: RegistrationUpdate = {
+        status: to,
+        reviewedBy: reviewer,
+        reviewedAt: new Date().toISOString(),
+        rejectionReason: to === "rejected" ? rejectionReason : "",
+      };
+      const requestedStall = registration.requestedStallDbId
+        ? await stallsRepository.get(registration.requestedStallDbId)
+        : null;
+      if (to === "approved") {
+        if (requestedStall) {
+          const { id, dbId, ...assigned } = assignRequestedStall(registration, requestedStall);
+          changes.stallDbId = (await stallsRepository.update(dbId, assigned)).dbId;
+        } else {
+          const [stalls, stallTypes] = await Promise.all([stallsRepository.list(), stallTypesRepository.list()]);
+          const stall = await stallsRepository.create(stallFromRegistration(registration, stalls, stallTypes));
+          changes.stallDbId = stall.dbId;
+        }
+      } else if (requestedStall && (to === "rejected" || to === "waitlisted")) {
+        await stallsRepository.release(requestedStall.dbId, registration.registrationId);
+      }
+      return registrationsRepository.update(registration.registrationId, changes);
+    },
+    onSuccess: (record, { decision }) => {
+      onRegistrationSaved(queryClient)(record);
+      if (decision.to !== "under_review") queryClient.invalidateQueries({ queryKey: stallKeys.all });
+    },
+  });
+}
+
+export function useAddReviewNote() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ registration, author, note }: { registration: RegistrationRecord; author: string; note: string }) =>
+      registrationsRepository.update(registration.registrationId, {
+        reviewNotes: [...registration.reviewNotes, { author, note: note.trim(), createdAt: new Date().toISOString() }],
+      }),
+    onSuccess: onRegistrationSaved(queryClient),
+  });
+}
+
+export function useCheckRegistrationConflicts() {
+  return useMutation({
+    mutationFn: (candidate: ConflictCandidate) => registrationsRepository.checkConflicts(candidate),
+  });
+}
+
+export function useApplicantStatusLookup() {
+  return useMutation({
+    mutationFn: ({ registrationId, phone }: { registrationId: string; phone: string }) =>
+      registrationsRepository.lookupForApplicant(registrationId, phone),
+  });
+}
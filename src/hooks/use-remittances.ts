@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { NewRemittance, RemittanceReview } from "@/data/remittances";
+import { remittancesRepository } from "@/repositories/remittancesRepository";
+
+export const remittanceKeys = {
+  all: ["remittances"] as const,
+  byDay: (day: string) => ["remittances", "day", day] as const,
+};
+
+export function useRemittances() {
+  return useQuery({
+    queryKey: remittanceKeys.all,
+    queryFn: () => remittancesRepository.list(),
+  });
+}
+
+export function useDayRemittances(day: string) {
+  return useQuery({
+    queryKey: remittanceKeys.byDay(day),
+    queryFn: () => remittancesRepository.listByDay(day),
+    enabled: day !== "",
+  });
+}
+
+export function useSubmitRemittance() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (remittance: NewRemittance) => remittancesRepository.submit(remittance),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: remittanceKeys.all }),
+  });
+}
+
+export function useReviewRemittance() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dbId, review }: { dbId: number; review: RemittanceReview }) =>
+      remittancesRepository.review(dbId, review),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: remittanceKeys.all }),
+  });
+}
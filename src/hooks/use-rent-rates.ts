@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { previewRentSchedule, ratesFromSchedule, recordRentChange, type RentScheduleFormData } from "@/data/rentRates";
+import type { StallRecord } from "@/data/stalls";
+import { rentRatesRepository } from "@/repositories/rentRatesRepository";
+import { stallsRepository } from "@/repositories/stallsRepository";
+import { stallKeys } from "./use-stalls";
+
+export const rentRateKeys = {
+  all: ["rent-rates"] as const,
+};
+
+export function useRentRates() {
+  return useQuery({
+    queryKey: rentRateKeys.all,
+    queryFn: () => rentRatesRepository.list(),
+  });
+}
+
+/**
+ * Adopts an ordinance: stores its rates and records the new rent on every stall it prices
+ * from the effective month. Months before it keep the rent they were billed.
+ */
+export function useApplyRentSchedule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ schedule, stalls }: { schedule: RentScheduleFormData; stalls: StallRecord[] }) => {
+      const rates = await rentRatesRepository.createMany(ratesFromSchedule(schedule));
+      const changed = previewRentSchedule(stalls, rates, schedule.effectiveFrom).filter(
+        (row) => row.newRent !== null && row.difference !== 0,
+      );
+      await Promise.all(
+        changed.map((row) =>
+          stallsRepository.update(
+            row.stall.dbId,
+            recordRentChange(row.stall, row.newRent!, schedule.effectiveFrom, schedule.ordinance),
+          ),
+        ),
+      );
+      return changed.length;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: rentRateKeys.all });
+      queryClient.invalidateQueries({ queryKey: stallKeys.all });
+    },
+  });
+}
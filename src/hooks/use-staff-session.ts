@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { staffAuthRepository } from "@/repositories/staffAuthRepository";
+
+export const staffSessionKeys = {
+  current: ["staff-session"] as const,
+};
+
+/** The signed-in staff member. `required` is false in the local mode, which has no sign-in. */
+export function useStaffSession() {
+  const queryClient = useQueryClient();
+  const query = useQuery({
+    queryKey: staffSessionKeys.current,
+    queryFn: () => staffAuthRepository!.getSession(),
+    enabled: staffAuthRepository !== null,
+    staleTime: Infinity,
+  });
+
+  useEffect(
+    () => staffAuthRepository?.onChange((session) => queryClient.setQueryData(staffSessionKeys.current, session)),
+    [queryClient],
+  );
+
+  return { session: query.data ?? null, isLoading: query.isLoading, required: staffAuthRepository !== null };
+}
+
+export function useSignIn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ email, password }: { email: string; password: string }) =>
+      staffAuthRepository!.signIn(email, password),
+    onSuccess: (session) => queryClient.setQueryData(staffSessionKeys.current, session),
+  });
+}
+
+/** Signs out and drops every cached record, so the next person on this device starts clean. */
+export function useSignOut() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => staffAuthRepository!.signOut(),
+    onSuccess: () => queryClient.clear(),
+  });
+}
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { parsePermits, type StallType, type StallTypeFormData } from "@/data/stallTypes";
+import { stallTypesRepository } from "@/repositories/stallTypesRepository";
+
+export const stallTypeKeys = {
+  all: ["stall-types"] as const,
+};
+
+export function useStallTypes() {
+  return useQuery({
+    queryKey: stallTypeKeys.all,
+    queryFn: () => stallTypesRepository.list(),
+  });
+}
+
+/** Creates a catalog entry, or edits one (everything except its name). */
+export function useSaveStallType() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ existing, data }: { existing: StallType | null; data: StallTypeFormData }) => {
+      const fields = {
+        description: data.description,
+        defaultRent: data.defaultRent,
+        requiredPermits: parsePermits(data.requiredPermits),
+        active: data.active,
+      };
+      return existing
+        ? stallTypesRepository.update(existing.dbId, fields)
+        : stallTypesRepository.create({ name: data.name, ...fields });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallTypeKeys.all }),
+  });
+}
+
+export function useSetStallTypeActive() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dbId, active }: { dbId: number; active: boolean }) => stallTypesRepository.update(dbId, { active }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallTypeKeys.all }),
+  });
+}
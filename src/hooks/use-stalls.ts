@@ -0,0 +1,212 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  applyOccupancy,
+  stallHoldExpiry,
+  suggestStallIdentity,
+  type StallEditorData,
+  type StallRecord,
+  type StallUpdate,
+  type VacateStallInput,
+} from "@/data/stalls";
+import { recordRentChange, scheduledRentUpdates } from "@/data/rentRates";
+import { DEFAULT_STATUS_POLICY, recomputeStallStatuses } from "@/data/stallStatus";
+import type { StallType } from "@/data/stallTypes";
+import { sameName } from "@/lib/format";
+import { stallsRepository } from "@/repositories/stallsRepository";
+
+export const stallKeys = {
+  all: ["stalls"] as const,
+  forApplicants: (holder: string) => ["stalls", "applicants", holder] as const,
+  detail: (dbId: number) => ["stalls", dbId] as const,
+  tenancies: (dbId: number) => ["stalls", dbId, "tenancies"] as const,
+};
+
+export function useStalls() {
+  return useQuery({
+    queryKey: stallKeys.all,
+    queryFn: () => stallsRepository.list(),
+  });
+}
+
+export function useApplicantStalls(holder: string) {
+  return useQuery({
+    queryKey: stallKeys.forApplicants(holder),
+    queryFn: () => stallsRepository.listForApplicants(holder),
+  });
+}
+
+export function useStall(dbId: number | null | undefined) {
+  return useQuery({
+    queryKey: stallKeys.detail(dbId ?? 0),
+    queryFn: () => stallsRepository.get(dbId!),
+    enabled: dbId != null,
+  });
+}
+
+export function useStallTenancies(dbId: number | null | undefined) {
+  return useQuery({
+    queryKey: stallKeys.tenancies(dbId ?? 0),
+    queryFn: () => stallsRepository.listTenancies(dbId!),
+    enabled: dbId != null,
+  });
+}
+
+export function useCreateStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (stall: StallRecord) => stallsRepository.create(stall),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+export function useUpdateStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dbId, changes }: { dbId: number; changes: StallUpdate }) => stallsRepository.update(dbId, changes),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+export type StallLayoutChange = { dbId: number; changes: Pick<StallUpdate, "section" | "row" | "position"> };
+
+/** Saves the floor map editor's changes; only stalls that were moved or relabelled are sent. */
+export function useUpdateStallLayouts() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (layouts: StallLayoutChange[]) =>
+      Promise.all(layouts.map(({ dbId, changes }) => stallsRepository.update(dbId, changes))),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+export function useVacateStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dbId, input }: { dbId: number; input: VacateStallInput }) => stallsRepository.vacate(dbId, input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+type SaveStallInput = {
+  existing: StallRecord | null;
+  data: StallEditorData;
+  stalls: StallRecord[];
+  stallTypes: StallType[];
+};
+
+/**
+ * Creates or edits a stall from the editor dialog. Replacing or clearing the vendor
+ * vacates the stall first so the outgoing tenancy lands in the history, and a new rent
+ * applies from the current month so earlier months keep the rent they were billed.
+ */
+export function useSaveStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ existing, data, stalls, stallTypes }: SaveStallInput) => {
+      if (!existing) {
+        const identity = suggestStallIdentity(stalls, data.type, stallTypes);
+        return stallsRepository.create(
+          applyOccupancy({
+            ...identity,
+            name: data.name,
+            type: data.type,
+            monthlyRent: data.monthlyRent,
+            vendor: data.vendor,
+            contact: data.contact,
+            section: data.section,
+            row: data.row,
+            position: null,
+            areaSqm: data.areaSqm === "" ? null : data.areaSqm,
+            rentHistory: [],
+            lastPayment: "",
+            nextDue: "",
+            status: "vacant",
+            occupied: false,
+            heldBy: "",
+            heldUntil: null,
+          }),
+        );
+      }
+
+      let base = existing;
+      // Correcting the spelling or capitalisation of the tenant's name is not a change of tenant.
+      if (existing.vendor && !sameName(existing.vendor, data.vendor)) {
+        base = await stallsRepository.vacate(existing.dbId, {
+          vacatedOn: format(new Date(), "yyyy-MM-dd"),
+          reason: data.vendor ? `Reassigned to ${data.vendor}` : "Vendor cleared in stall editor",
+        });
+      }
+      const rent =
+        data.monthlyRent === base.monthlyRent
+          ? {}
+          : recordRentChange(base, data.monthlyRent, format(new Date(), "yyyy-MM"), "Changed in the stall registry");
+      const { id, dbId, ...changes } = applyOccupancy({
+        ...base,
+        ...data,
+        ...rent,
+        areaSqm: data.areaSqm === "" ? null : data.areaSqm,
+      });
+      return stallsRepository.update(existing.dbId, changes);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+/**
+ * Holds the stall an applicant picked on the registration form, releasing the one they
+ * picked before (if any).
+ */
+export function useHoldStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ dbId, holder, previousDbId }: { dbId: number; holder: string; previousDbId?: number }) => {
+      if (previousDbId && previousDbId !== dbId) {
+        await stallsRepository.release(previousDbId, holder);
+      }
+      return stallsRepository.hold(dbId, holder, stallHoldExpiry());
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+export function useReleaseStall() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ dbId, holder }: { dbId: number; holder: string }) => stallsRepository.release(dbId, holder),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: stallKeys.all }),
+  });
+}
+
+/**
+ * Brings every stall's stored status in line with its payment dates once per day,
+ * so the overdue list is correct the first time staff open the app in the morning.
+ * Rent changes scheduled for a later month are copied to `monthlyRent` once they start.
+ */
+export function useRecomputeStallStatuses(policy = DEFAULT_STATUS_POLICY) {
+  const queryClient = useQueryClient();
+  const { data: stalls } = useStalls();
+  const lastRunDay = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!stalls) return;
+    const today = new Date();
+    const day = format(today, "yyyy-MM-dd");
+    if (lastRunDay.current === day) return;
+    lastRunDay.current = day;
+
+    const updates = new Map<number, StallUpdate>();
+    for (const change of recomputeStallStatuses(stalls, today, policy)) {
+      updates.set(change.dbId, { status: change.to });
+    }
+    for (const { dbId, monthlyRent } of scheduledRentUpdates(stalls, today)) {
+      updates.set(dbId, { ...updates.get(dbId), monthlyRent });
+    }
+    if (updates.size === 0) return;
+
+    Promise.all(Array.from(updates, ([dbId, changes]) => stallsRepository.update(dbId, changes)))
+      .catch((error) => console.error("Failed to refresh stall statuses", error))
+      .finally(() => queryClient.invalidateQueries({ queryKey: stallKeys.all }));
+  }, [stalls, policy, queryClient]);
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { isNetworkError, isOffline, paymentConflict, type OutboxEntry } from "@/data/outbox";
+import type { Payment } from "@/data/payments";
+import { REPLAY_OUTBOX_MESSAGE } from "@/lib/service-worker";
+import { outboxRepository } from "@/repositories/outboxRepository";
+import { paymentsRepository } from "@/repositories/paymentsRepository";
+import { registrationsRepository } from "@/repositories/registrationsRepository";
+import { stallsRepository } from "@/repositories/stallsRepository";
+import { outboxKeys } from "./use-outbox";
+import { paymentKeys, recordPayment } from "./use-payments";
+import { createRegistration, registrationKeys } from "./use-registrations";
+import { stallKeys } from "./use-stalls";
+
+/**
+ * Sends one queued change. Changes that would now clash with what happened while the device
+ * was offline are held for a reviewer instead, unless `force` says the reviewer has decided.
+ * Payments sent are added to `replayed`, so later entries of the same run do not clash with them.
+ */
+const replayOutboxEntry = async (
+  entry: OutboxEntry,
+  { force = false, replayed = [] }: { force?: boolean; replayed?: Payment[] } = {},
+): Promise<"synced" | "conflict"> => {
+  const holdForReview = async (conflict: string) => {
+    await outboxRepository.update(entry.id, { status: "conflict", conflict });
+    return "conflict" as const;
+  };
+
+  if (entry.kind === "payment") {
+    const [stall, payments] = await Promise.all([
+      stallsRepository.get(entry.stallDbId),
+      paymentsRepository.listByStall(entry.stallDbId),
+    ]);
+    // A payment whose first attempt reached the server only needs finishing.
+    const sent = payments.some((payment) => payment.idempotencyKey === entry.idempotencyKey);
+    const conflict = force || sent ? null : paymentConflict(entry, stall, payments, replayed);
+    if (conflict) return holdForReview(conflict);
+    if (!stall) throw new Error(`${entry.stallName} no longer exists`);
+    replayed.push((await recordPayment(stall, entry.data, entry.idempotencyKey)).payment);
+  } else {
+    const stall = await stallsRepository.get(entry.data.requestedStallDbId);
+    const conflicts = await registrationsRepository.checkConflicts({ ...entry.data, stallName: stall?.name });
+    if (!force && conflicts.existingRegistrationId) {
+      return holdForReview(
+        `${entry.applicant} already has application ${conflicts.existingRegistrationId}, filed while this one was waiting to sync.`,
+      );
+    }
+    if (conflicts.stallUnavailable) {
+      return holdForReview(
+        `${stall?.name ?? "The requested stall"} was taken by another applicant while this application was waiting to sync. The applicant needs to pick another stall.`,
+      );
+    }
+    await createRegistration({ data: entry.data, files: entry.files, holder: entry.holder });
+  }
+
+  await outboxRepository.remove(entry.id);
+  return "synced";
+};
+
+const invalidateSyncedData = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: outboxKeys.all });
+  queryClient.invalidateQueries({ queryKey: paymentKeys.all });
+  queryClient.invalidateQueries({ queryKey: registrationKeys.all });
+  queryClient.invalidateQueries({ queryKey: stallKeys.all });
+};
+
+/**
+ * Replays the outbox, oldest change first, whenever the app starts online, the browser reports
+ * the connection is back, or the service worker relays a Background Sync event.
+ */
+export function useOutboxSync() {
+  const queryClient = useQueryClient();
+  const running = useRef(false);
+
+  const replay = useCallback(async () => {
+    if (running.current || isOffline()) return;
+    running.current = true;
+    let synced = 0;
+    let conflicts = 0;
+    try {
+      const pending = (await outboxRepository.list()).filter((entry) => entry.status === "pending");
+      const replayed: Payment[] = [];
+      for (const entry of pending) {
+        try {
+          if ((await replayOutboxEntry(entry, { replayed })) === "synced") synced++;
+          else conflicts++;
+        } catch (error) {
+          // The connection dropped again; the rest waits for the next reconnect.
+          if (isNetworkError(error)) break;
+          const message = error instanceof Error ? error.message : String(error);
+          await outboxRepository.update(entry.id, { status: "conflict", conflict: `Could not be saved: ${message}` });
+          conflicts++;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to replay the outbox", error);
+    } finally {
+      running.current = false;
+    }
+
+    if (synced > 0) toast.success(`Synced ${synced} queued ${synced === 1 ? "change" : "changes"}.`);
+    if (conflicts > 0) toast.warning(`${conflicts} queued ${conflicts === 1 ? "change needs" : "changes need"} review.`);
+    if (synced + conflicts > 0) invalidateSyncedData(queryClient);
+  }, [queryClient]);
+
+  useEffect(() => {
+    replay();
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_OUTBOX_MESSAGE) replay();
+    };
+    window.addEventListener("online", replay);
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    return () => {
+      window.removeEventListener("online", replay);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, [replay]);
+}
+
+/** A reviewer's decision to apply a held change anyway. */
+export function useApplyOutboxEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entry: OutboxEntry) => replayOutboxEntry(entry, { force: true }),
+    onSettled: () => invalidateSyncedData(queryClient),
+  });
+}
@@ -0,0 +1,46 @@
+import { useMutation } from "@tanstack/react-query";
+import type { RegistrationRecord } from "@/data/registrations";
+import type { StallRecord } from "@/data/stalls";
+import { REGISTRATION_TOKEN_FAILURE_MESSAGES, TOKEN_PREFIX } from "@/lib/registration-token";
+import { registrationsRepository } from "@/repositories/registrationsRepository";
+import { stallsRepository } from "@/repositories/stallsRepository";
+
+export type VerificationResult =
+  | { kind: "invalid"; message: string }
+  | { kind: "not_found"; registrationId: string }
+  | {
+      kind: "found";
+      /** False when an inspector typed a bare registration ID instead of scanning a signed code. */
+      signed: boolean;
+      registration: RegistrationRecord;
+      stall: StallRecord | null;
+    };
+
+const looksLikeToken = (input: string) => input.startsWith(`${TOKEN_PREFIX}.`);
+
+const verify = async (rawInput: string): Promise<VerificationResult> => {
+  const input = rawInput.trim();
+  let registrationId = input;
+  const signed = looksLikeToken(input);
+
+  if (signed) {
+    const result = await registrationsRepository.verifyToken(input);
+    if (result.valid === false) {
+      return { kind: "invalid", message: REGISTRATION_TOKEN_FAILURE_MESSAGES[result.reason] };
+    }
+    registrationId = result.registrationId;
+  } else if (!/^REG-\d+-[a-z0-9]+$/i.test(input)) {
+    return { kind: "invalid", message: REGISTRATION_TOKEN_FAILURE_MESSAGES.malformed };
+  }
+
+  const registration = await registrationsRepository.get(registrationId);
+  if (!registration) {
+    return { kind: "not_found", registrationId };
+  }
+  const stall = registration.stallDbId != null ? await stallsRepository.get(registration.stallDbId) : null;
+  return { kind: "found", signed, registration, stall };
+};
+
+export function useVerifyRegistration() {
+  return useMutation({ mutationFn: verify });
+}
@@ -0,0 +1,58 @@
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+const SCALES = ["", "Thousand", "Million", "Billion"];
+
+const belowThousand = (value: number): string => {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds) words.push(`${ONES[hundreds]} Hundred`);
+  if (rest >= 20) {
+    words.push(rest % 10 ? `${TENS[Math.floor(rest / 10)]}-${ONES[rest % 10]}` : TENS[Math.floor(rest / 10)]);
+  } else if (rest) {
+    words.push(ONES[rest]);
+  }
+  return words.join(" ");
+};
+
+export const integerToWords = (value: number): string => {
+  if (value === 0) return "Zero";
+  const groups: string[] = [];
+  let remaining = value;
+  for (let scale = 0; remaining > 0; scale++) {
+    const group = remaining % 1000;
+    if (group) groups.unshift(`${belowThousand(group)}${SCALES[scale] ? ` ${SCALES[scale]}` : ""}`);
+    remaining = Math.floor(remaining / 1000);
+  }
+  return groups.join(" ");
+};
+
+/** Amount as written on official receipts, e.g. "One Thousand Two Hundred Pesos and 50/100". */
+export const pesoAmountInWords = (amount: number): string => {
+  const centavos = Math.round(amount * 100);
+  const pesos = Math.floor(centavos / 100);
+  const cents = centavos % 100;
+  const pesoWords = `${integerToWords(pesos)} ${pesos === 1 ? "Peso" : "Pesos"}`;
+  return cents ? `${pesoWords} and ${String(cents).padStart(2, "0")}/100` : `${pesoWords} Only`;
+};
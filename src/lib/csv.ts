@@ -0,0 +1,211 @@
+import { format, isValid, parseISO } from "date-fns";
+
+type CsvValue = string | number | null | undefined;
+
+const escapeCell = (value: CsvValue): string => {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string => rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+
+// Excel only reads a CSV as UTF-8 (and shows names like "Peñaflor" correctly) when it starts with a BOM.
+const UTF8_BOM = "\uFEFF";
+
+/** Saves `content` as a file through the browser's download prompt. */
+export const downloadFile = (filename: string, content: BlobPart | BlobPart[], type: string): void => {
+  const url = URL.createObjectURL(new Blob(Array.isArray(content) ? content : [content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (filename: string, rows: CsvValue[][]): void =>
+  downloadFile(filename, UTF8_BOM + toCsv(rows), "text/csv;charset=utf-8");
+
+/**
+ * How a column is written: amounts and dates become real numbers and dates in Excel. "phone" is
+ * always text, so Excel neither runs a leading "+" as a formula nor turns the digits into 6.39E+11.
+ */
+export type ExportCellType = "text" | "phone" | "number" | "currency" | "date" | "datetime";
+
+export type ExportColumn<T> = {
+  header: string;
+  type?: ExportCellType; // "text" if omitted
+  value: (row: T) => CsvValue;
+};
+
+export type ExportFormat = "csv" | "xls";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xls: "Excel",
+};
+
+const ROWS_PER_CHUNK = 500;
+
+// Dates are stored as "yyyy-MM-dd" and timestamps as ISO strings; anything else is written as text.
+const parseDate = (value: CsvValue) => {
+  if (typeof value !== "string" || value === "") return null;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? parsed : null;
+};
+
+const toAmount = (value: CsvValue) => (value == null || value === "" ? null : Number(value));
+
+// A cell starting with one of these is run as a formula by spreadsheet programs.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Digits, spaces, brackets and dashes after the "+" can at most do arithmetic, never call a function.
+const PHONE_NUMBER = /^\+?\d[\d\s()-]*$/;
+
+const needsFormulaGuard = (type: ExportCellType, value: CsvValue) =>
+  typeof value === "string" &&
+  FORMULA_PREFIX.test(value) &&
+  (type === "text" || (type === "phone" && !PHONE_NUMBER.test(value)));
+
+const csvCell = (type: ExportCellType, value: CsvValue): CsvValue => {
+  if (type === "currency") return toAmount(value)?.toFixed(2);
+  if (type === "date" || type === "datetime") {
+    const date = parseDate(value);
+    return date ? format(date, type === "date" ? "yyyy-MM-dd" : "yyyy-MM-dd HH:mm") : value;
+  }
+  // Quoting alone does not stop Excel reading a CSV number as a number; a text formula does.
+  if (type === "phone" && typeof value === "string" && PHONE_NUMBER.test(value)) return `="${value}"`;
+  if (needsFormulaGuard(type, value)) return `'${value}`;
+  return value;
+};
+
+function* csvChunks<T>(columns: ExportColumn<T>[], rows: Iterable<T>): Generator<string> {
+  yield UTF8_BOM + toCsv([columns.map((column) => column.header)]);
+  let batch: CsvValue[][] = [];
+  for (const row of rows) {
+    batch.push(columns.map((column) => csvCell(column.type ?? "text", column.value(row))));
+    if (batch.length === ROWS_PER_CHUNK) {
+      yield `\r\n${toCsv(batch)}`;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield `\r\n${toCsv(batch)}`;
+}
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0 at all.
+const isXmlChar = (char: string) => char >= " " || char === "\t" || char === "\n" || char === "\r";
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\r?\n/g, "&#10;");
+
+const xmlCell = (type: ExportCellType, value: CsvValue): string => {
+  if (value == null || value === "") return "<Cell/>";
+  if (type === "currency" || type === "number") {
+    const amount = Number(value);
+    if (Number.isFinite(amount)) {
+      const style = type === "currency" ? ' ss:StyleID="currency"' : "";
+      return `<Cell${style}><Data ss:Type="Number">${amount}</Data></Cell>`;
+    }
+  }
+  if (type === "date" || type === "datetime") {
+    const date = parseDate(value);
+    if (date) {
+      return `<Cell ss:StyleID="${type}"><Data ss:Type="DateTime">${format(date, "yyyy-MM-dd'T'HH:mm:ss")}.000</Data></Cell>`;
+    }
+  }
+  return `<Cell><Data ss:Type="String">${escapeXml(String(value))}</Data></Cell>`;
+};
+
+/** Excel 2003 XML (SpreadsheetML): plain text, so it can be written in chunks, yet it carries cell types. */
+function* spreadsheetChunks<T>(sheetName: string, columns: ExportColumn<T>[], rows: Iterable<T>): Generator<string> {
+  yield [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    "<Styles>",
+    '<Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+    '<Style ss:ID="currency"><NumberFormat ss:Format="&quot;₱&quot;#,##0.00"/></Style>',
+    '<Style ss:ID="date"><NumberFormat ss:Format="mmm d, yyyy"/></Style>',
+    '<Style ss:ID="datetime"><NumberFormat ss:Format="mmm d, yyyy h:mm AM/PM"/></Style>',
+    "</Styles>",
+    // Sheet names are limited to 31 characters and may not contain []:*?/\
+    `<Worksheet ss:Name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31))}">`,
+    "<Table>",
+    `<Row>${columns
+      .map((column) => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(column.header)}</Data></Cell>`)
+      .join("")}</Row>`,
+    "",
+  ].join("\n");
+
+  let batch: string[] = [];
+  for (const row of rows) {
+    batch.push(`<Row>${columns.map((column) => xmlCell(column.type ?? "text", column.value(row))).join("")}</Row>`);
+    if (batch.length === ROWS_PER_CHUNK) {
+      yield `${batch.join("\n")}\n`;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield `${batch.join("\n")}\n`;
+  yield "</Table>\n</Worksheet>\n</Workbook>\n";
+}
+
+// The File System Access API is missing from TypeScript's DOM typings and from Firefox and Safari.
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: ".csv", mimeType: "text/csv" },
+  xls: { extension: ".xls", mimeType: "application/vnd.ms-excel" },
+};
+
+/**
+ * Saves `rows` as a CSV or Excel file named `${basename}.csv`/`.xls`. The file is produced a few
+ * hundred rows at a time: where the browser offers a save dialog each chunk is written straight
+ * to disk, and elsewhere each is added to a Blob, which the browser may keep outside the page's
+ * memory. Resolves without saving if the user cancels the dialog.
+ */
+export const exportRows = async <T>(
+  basename: string,
+  exportFormat: ExportFormat,
+  columns: ExportColumn<T>[],
+  rows: Iterable<T>,
+): Promise<void> => {
+  const { extension, mimeType } = EXPORT_FILE_TYPES[exportFormat];
+  const filename = `${basename}${extension}`;
+  const chunks = exportFormat === "xls" ? spreadsheetChunks(basename, columns, rows) : csvChunks(columns, rows);
+
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (showSaveFilePicker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: EXPORT_FORMAT_LABELS[exportFormat], accept: { [mimeType]: [extension] } }],
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      throw error;
+    }
+    const writable = await handle.createWritable();
+    try {
+      for (const chunk of chunks) await writable.write(chunk);
+      await writable.close();
+    } catch (error) {
+      await writable.abort();
+      throw error;
+    }
+    return;
+  }
+
+  let file = new Blob([], { type: `${mimeType};charset=utf-8` });
+  for (const chunk of chunks) file = new Blob([file, chunk], { type: file.type });
+  downloadFile(filename, file, file.type);
+};
@@ -0,0 +1,22 @@
+import { DOCUMENT_RULES, formatFileSize, isImageDocument, sniffMimeType, validateDocumentFile } from "@/data/documents";
+import type { RegistrationRequirement } from "@/data/registrations";
+import { compressImage } from "./image-compression";
+
+/**
+ * Validates a selected file for a requirement and shrinks images for upload.
+ * Throws with an applicant-facing message when the file cannot be accepted.
+ */
+export const prepareDocumentFile = async (requirement: RegistrationRequirement, file: File): Promise<File> => {
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const detectedType = sniffMimeType(header);
+  const problem = validateDocumentFile(requirement, file, detectedType);
+  if (problem) throw new Error(problem);
+
+  const rule = DOCUMENT_RULES[requirement];
+  const typed = file.type ? file : new File([file], file.name, { type: detectedType!, lastModified: file.lastModified });
+  const prepared = isImageDocument(typed.type) ? await compressImage(typed, { maxDimension: rule.maxDimension }) : typed;
+  if (prepared.size > rule.maxBytes) {
+    throw new Error(`The file is larger than ${formatFileSize(rule.maxBytes)}.`);
+  }
+  return prepared;
+};
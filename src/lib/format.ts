@@ -0,0 +1,28 @@
+import { format, isValid, parseISO } from "date-fns";
+
+const pesoFormatter = new Intl.NumberFormat("en-PH", {
+  style: "currency",
+  currency: "PHP",
+});
+
+export const formatPeso = (amount: number): string => pesoFormatter.format(amount);
+
+const compactPesoFormatter = new Intl.NumberFormat("en-PH", {
+  style: "currency",
+  currency: "PHP",
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+// Chart axes: "₱12.5K" rather than "₱12,500.00".
+export const formatPesoCompact = (amount: number): string => compactPesoFormatter.format(amount);
+
+// Stall dates are stored as "yyyy-MM-dd" strings; anything unparseable is shown as-is.
+export const formatDate = (value: string | null | undefined, pattern = "MMM d, yyyy"): string => {
+  if (!value) return "—";
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, pattern) : value;
+};
+
+// Vendor, collector and section names are typed by hand, so they match regardless of case and stray spaces.
+export const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
@@ -0,0 +1,46 @@
+type CompressionOptions = {
+  maxDimension: number;
+  quality?: number;
+};
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The image could not be read."));
+    };
+    image.src = url;
+  });
+
+/**
+ * Scales an image so its longest side is at most `maxDimension` and re-encodes it as JPEG.
+ * Returns the original file when re-encoding would not make it smaller.
+ */
+export const compressImage = async (file: File, { maxDimension, quality = 0.8 }: CompressionOptions): Promise<File> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return file;
+  // JPEG has no transparency; paint white behind transparent PNGs instead of black.
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", quality));
+  if (!blob || (scale === 1 && blob.size >= file.size)) return file;
+
+  const name = file.name.replace(/\.[^.]+$/, "") + ".jpg";
+  return new File([blob], name, { type: "image/jpeg", lastModified: Date.now() });
+};
@@ -0,0 +1,166 @@
+// Small key/value persistence used by the local (non-Supabase) repositories.
+// Records are grouped by collection and survive a page refresh through IndexedDB;
+// environments without IndexedDB (tests, private browsing) get an in-memory store.
+
+const DB_NAME = "sibulan-market";
+const DB_VERSION = 1;
+const RECORDS_STORE = "records";
+const COUNTERS_STORE = "counters";
+
+type RecordKey = string | number;
+
+type StoredRecord = {
+  collection: string;
+  id: string;
+  value: unknown;
+};
+
+export interface LocalBackend {
+  getAll(collection: string): Promise<unknown[]>;
+  get(collection: string, id: string): Promise<unknown | undefined>;
+  put(collection: string, id: string, value: unknown): Promise<void>;
+  delete(collection: string, id: string): Promise<void>;
+  increment(counter: string): Promise<number>;
+}
+
+export type LocalCollection<T> = {
+  list: () => Promise<T[]>;
+  get: (id: RecordKey) => Promise<T | undefined>;
+  put: (id: RecordKey, value: T) => Promise<T>;
+  remove: (id: RecordKey) => Promise<void>;
+  nextId: () => Promise<number>;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const createIndexedDbBackend = (): LocalBackend => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+            const store = db.createObjectStore(RECORDS_STORE, { keyPath: ["collection", "id"] });
+            store.createIndex("collection", "collection");
+          }
+          if (!db.objectStoreNames.contains(COUNTERS_STORE)) {
+            db.createObjectStore(COUNTERS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return databasePromise;
+  };
+
+  return {
+    async getAll(collection) {
+      const db = await open();
+      const index = db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).index("collection");
+      const records = await requestToPromise<StoredRecord[]>(index.getAll(collection));
+      return records.map((record) => record.value);
+    },
+    async get(collection, id) {
+      const db = await open();
+      const store = db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE);
+      const record = await requestToPromise<StoredRecord | undefined>(store.get([collection, id]));
+      return record?.value;
+    },
+    async put(collection, id, value) {
+      const db = await open();
+      const transaction = db.transaction(RECORDS_STORE, "readwrite");
+      transaction.objectStore(RECORDS_STORE).put({ collection, id, value } satisfies StoredRecord);
+      await transactionDone(transaction);
+    },
+    async delete(collection, id) {
+      const db = await open();
+      const transaction = db.transaction(RECORDS_STORE, "readwrite");
+      transaction.objectStore(RECORDS_STORE).delete([collection, id]);
+      await transactionDone(transaction);
+    },
+    async increment(counter) {
+      const db = await open();
+      // Read and write inside one readwrite transaction so two tabs never get the same number.
+      const transaction = db.transaction(COUNTERS_STORE, "readwrite");
+      const store = transaction.objectStore(COUNTERS_STORE);
+      const current = (await requestToPromise<number | undefined>(store.get(counter))) ?? 0;
+      const next = current + 1;
+      store.put(next, counter);
+      await transactionDone(transaction);
+      return next;
+    },
+  };
+};
+
+export const createMemoryBackend = (): LocalBackend => {
+  const collections = new Map<string, Map<string, unknown>>();
+  const counters = new Map<string, number>();
+
+  const collectionFor = (name: string) => {
+    let collection = collections.get(name);
+    if (!collection) {
+      collection = new Map();
+      collections.set(name, collection);
+    }
+    return collection;
+  };
+
+  return {
+    async getAll(collection) {
+      return Array.from(collectionFor(collection).values()).map((value) => structuredClone(value));
+    },
+    async get(collection, id) {
+      const value = collectionFor(collection).get(id);
+      return value === undefined ? undefined : structuredClone(value);
+    },
+    async put(collection, id, value) {
+      collectionFor(collection).set(id, structuredClone(value));
+    },
+    async delete(collection, id) {
+      collectionFor(collection).delete(id);
+    },
+    async increment(counter) {
+      const next = (counters.get(counter) ?? 0) + 1;
+      counters.set(counter, next);
+      return next;
+    },
+  };
+};
+
+let defaultBackend: LocalBackend | null = null;
+
+export const getDefaultBackend = (): LocalBackend => {
+  if (!defaultBackend) {
+    defaultBackend = typeof indexedDB === "undefined" ? createMemoryBackend() : createIndexedDbBackend();
+  }
+  return defaultBackend;
+};
+
+export const createLocalCollection = <T>(
+  name: string,
+  backend: LocalBackend = getDefaultBackend(),
+): LocalCollection<T> => ({
+  list: async () => (await backend.getAll(name)) as T[],
+  get: async (id) => (await backend.get(name, String(id))) as T | undefined,
+  put: async (id, value) => {
+    await backend.put(name, String(id), value);
+    return value;
+  },
+  remove: (id) => backend.delete(name, String(id)),
+  nextId: () => backend.increment(name),
+});
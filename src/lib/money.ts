@@ -0,0 +1,4 @@
+// Peso amounts are added and compared in whole centavos, so ₱0.10 + ₱0.20 is exactly ₱0.30.
+export const toCentavos = (amount: number): number => Math.round(amount * 100);
+
+export const fromCentavos = (centavos: number): number => centavos / 100;
@@ -0,0 +1,43 @@
+// Philippine numbers are stored in E.164 ("+639171234567") so the same vendor typed as
+// "0917 123 4567" or "+63 917-123-4567" compares equal and SMS reminders can be sent.
+
+const COUNTRY_CODE = "63";
+
+/**
+ * Parses a Philippine mobile or landline number written in the usual local or international
+ * forms. Returns the E.164 form, or null when the input is not a valid Philippine number.
+ */
+export const normalizePhilippinePhone = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+
+  let digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+") || digits.startsWith(COUNTRY_CODE)) {
+    if (!digits.startsWith(COUNTRY_CODE)) return null;
+    digits = digits.slice(COUNTRY_CODE.length);
+  } else if (digits.startsWith("0")) {
+    digits = digits.slice(1);
+  }
+
+  // Mobile: 9XX XXX XXXX. Landline: area code plus subscriber number, nine digits in total
+  // (e.g. 35 422 1234 for Dumaguete/Sibulan, 2 8123 4567 for Metro Manila).
+  const isMobile = /^9\d{9}$/.test(digits);
+  const isLandline = /^[2-8]\d{8}$/.test(digits);
+  return isMobile || isLandline ? `+${COUNTRY_CODE}${digits}` : null;
+};
+
+export const isMobileNumber = (e164: string): boolean => /^\+639\d{9}$/.test(e164);
+
+/** Spaced display form: "+63 917 123 4567" for mobiles, "+63 35 422 1234" for landlines. */
+export const formatPhilippinePhone = (phone: string): string => {
+  const normalized = normalizePhilippinePhone(phone);
+  if (!normalized) return phone;
+  const national = normalized.slice(1 + COUNTRY_CODE.length);
+  if (isMobileNumber(normalized)) {
+    return `+${COUNTRY_CODE} ${national.slice(0, 3)} ${national.slice(3, 6)} ${national.slice(6)}`;
+  }
+  const areaLength = national.startsWith("2") ? 1 : 2;
+  const area = national.slice(0, areaLength);
+  const subscriber = national.slice(areaLength);
+  return `+${COUNTRY_CODE} ${area} ${subscriber.slice(0, subscriber.length - 4)} ${subscriber.slice(-4)}`;
+};
@@ -0,0 +1,63 @@
+import jsQR from "jsqr";
+
+// Native BarcodeDetector is fast on Android Chrome; other browsers fall back to jsQR on canvas pixels.
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> };
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const createNativeDetector = (): BarcodeDetectorInstance | null => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ["qr_code"] });
+  } catch {
+    return null;
+  }
+};
+
+const decodeCanvas = (canvas: HTMLCanvasElement): string | null => {
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(image.data, image.width, image.height, { inversionAttempts: "attemptBoth" })?.data ?? null;
+};
+
+const drawToCanvas = (canvas: HTMLCanvasElement, source: CanvasImageSource, width: number, height: number) => {
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d", { willReadFrequently: true })?.drawImage(source, 0, 0, width, height);
+};
+
+/** Returns a function that tries to read a QR code from the current video frame. */
+export const createVideoQrDecoder = () => {
+  const native = createNativeDetector();
+  const canvas = document.createElement("canvas");
+
+  return async (video: HTMLVideoElement): Promise<string | null> => {
+    if (video.readyState < video.HAVE_CURRENT_DATA || video.videoWidth === 0) return null;
+    if (native) {
+      const [barcode] = await native.detect(video);
+      return barcode?.rawValue ?? null;
+    }
+    drawToCanvas(canvas, video, video.videoWidth, video.videoHeight);
+    return decodeCanvas(canvas);
+  };
+};
+
+export const decodeQrFromFile = async (file: File): Promise<string | null> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const native = createNativeDetector();
+    if (native) {
+      const [barcode] = await native.detect(bitmap);
+      if (barcode) return barcode.rawValue;
+    }
+    // Large phone photos are scaled down; jsQR is slow and no more accurate above ~1000px.
+    const scale = Math.min(1, 1000 / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    drawToCanvas(canvas, bitmap, Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    return decodeCanvas(canvas);
+  } finally {
+    bitmap.close();
+  }
+};
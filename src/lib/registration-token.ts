@@ -0,0 +1,88 @@
+// Registration QR codes carry only the registration ID, an expiry and an HMAC-SHA256
+// signature: "SIBREG1.<registrationId>.<expiresAtEpochSeconds>.<base64url signature>".
+// Personal data stays in the data layer and is looked up after verification.
+//
+// With Supabase the database signs and verifies codes (see the registration token migration), so
+// the key never reaches the browser. This module only serves the local IndexedDB mode, which
+// signs with a fixed development key and therefore refuses to issue codes in production builds.
+
+export const TOKEN_PREFIX = "SIBREG1";
+const TTL_DAYS = 365;
+const DEV_KEY = "sibulan-market-dev-key";
+
+export type RegistrationTokenFailure = "malformed" | "bad_signature" | "expired";
+
+export type RegistrationTokenResult =
+  | { valid: true; registrationId: string; expiresAt: Date }
+  | { valid: false; reason: RegistrationTokenFailure };
+
+type TokenOptions = {
+  key?: string;
+  now?: Date;
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const importKey = (key: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+const signingInput = (registrationId: string, expiresAt: number) => `${TOKEN_PREFIX}.${registrationId}.${expiresAt}`;
+
+export const createRegistrationToken = async (
+  registrationId: string,
+  { key = DEV_KEY, now = new Date() }: TokenOptions = {},
+): Promise<string> => {
+  if (import.meta.env.PROD && key === DEV_KEY) {
+    throw new Error("Registration codes can only be issued when the market database is configured.");
+  }
+  const expiresAt = Math.floor(now.getTime() / 1000) + TTL_DAYS * 24 * 60 * 60;
+  const payload = signingInput(registrationId, expiresAt);
+  const signature = await crypto.subtle.sign("HMAC", await importKey(key), encoder.encode(payload));
+  return `${payload}.${toBase64Url(signature)}`;
+};
+
+export const verifyRegistrationToken = async (
+  token: string,
+  { key = DEV_KEY, now = new Date() }: TokenOptions = {},
+): Promise<RegistrationTokenResult> => {
+  const parts = token.trim().split(".");
+  if (parts.length !== 4 || parts[0] !== TOKEN_PREFIX || !parts[1] || !/^\d+$/.test(parts[2])) {
+    return { valid: false, reason: "malformed" };
+  }
+  const [, registrationId, expiresAtText, signatureText] = parts;
+  const expiresAt = Number(expiresAtText);
+
+  let signature: Uint8Array;
+  try {
+    signature = fromBase64Url(signatureText);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const payload = signingInput(registrationId, expiresAt);
+  const authentic = await crypto.subtle.verify("HMAC", await importKey(key), signature, encoder.encode(payload));
+  if (!authentic) {
+    return { valid: false, reason: "bad_signature" };
+  }
+  if (expiresAt * 1000 < now.getTime()) {
+    return { valid: false, reason: "expired" };
+  }
+  return { valid: true, registrationId, expiresAt: new Date(expiresAt * 1000) };
+};
+
+export const REGISTRATION_TOKEN_FAILURE_MESSAGES: Record<RegistrationTokenFailure, string> = {
+  malformed: "This is not a Sibulan market registration code.",
+  bad_signature: "This code has been altered or was not issued by the market office.",
+  expired: "This registration code has expired. Please ask the office for a new one.",
+};
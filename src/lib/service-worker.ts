@@ -0,0 +1,29 @@
+// The service worker (public/sw.js) keeps the app shell available offline and, where the
+// browser supports Background Sync, wakes an open tab to replay the outbox once it reconnects.
+
+export const OUTBOX_SYNC_TAG = "outbox";
+export const REPLAY_OUTBOX_MESSAGE = "replay-outbox";
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+export const registerServiceWorker = (): void => {
+  if (!("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.warn("Could not register the service worker", error));
+  });
+};
+
+/** Asks the browser to signal the next reconnect; the `online` event covers browsers without it. */
+export const requestOutboxSync = async (): Promise<void> => {
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncCapableRegistration;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync is unavailable", error);
+  }
+};
@@ -0,0 +1,15 @@
+import { createClient, type PostgrestError, type SupabaseClient } from "@supabase/supabase-js";
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Null when the Supabase env vars are not set; repositories fall back to local storage.
+export const supabase: SupabaseClient | null =
+  supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
+
+export const isSupabaseConfigured = supabase !== null;
+
+export const toError = (error: PostgrestError): Error => {
+  const details = error.details ? ` (${error.details})` : "";
+  return new Error(`${error.message}${details}`);
+};
@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { registerServiceWorker } from "./lib/service-worker";
 import "./index.css";
 
+// The dev server rebuilds modules on the fly, which a caching service worker would get in the way of.
+if (import.meta.env.PROD) registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(<App />);
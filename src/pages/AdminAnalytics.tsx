@@ -0,0 +1,160 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Printer } from "lucide-react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { AgingChart } from "@/components/analytics/AgingChart";
+import { BilledCollectedChart } from "@/components/analytics/BilledCollectedChart";
+import { OccupancyChart } from "@/components/analytics/OccupancyChart";
+import { RevenueByTypeChart } from "@/components/analytics/RevenueByTypeChart";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ANALYTICS_PRESET_LABELS,
+  agingBuckets,
+  analyticsRange,
+  formatRange,
+  monthlyTrend,
+  rangeAsOf,
+  revenueByType,
+  type AnalyticsPreset,
+} from "@/data/analytics";
+import { usePayments } from "@/hooks/use-payments";
+import { useStalls } from "@/hooks/use-stalls";
+import { formatDate, formatPeso } from "@/lib/format";
+import { fromCentavos, toCentavos } from "@/lib/money";
+
+const Kpi = ({ label, value, detail }: { label: string; value: string; detail: string }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-2xl">{value}</CardTitle>
+    </CardHeader>
+    <CardContent className="text-xs text-muted-foreground">{detail}</CardContent>
+  </Card>
+);
+
+const AdminAnalytics = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: stalls = [], isLoading } = useStalls();
+  const { data: payments = [] } = usePayments();
+
+  const defaults = analyticsRange("year");
+  const from = searchParams.get("from") || defaults.from;
+  const to = searchParams.get("to") || defaults.to;
+  const range = useMemo(() => ({ from, to }), [from, to]);
+  const valid = range.from <= range.to;
+  const asOf = rangeAsOf(range);
+
+  const trend = useMemo(
+    () => (valid ? monthlyTrend(stalls, payments, range, asOf) : []),
+    [stalls, payments, range, asOf, valid],
+  );
+  const aging = useMemo(() => agingBuckets(stalls, payments, asOf), [stalls, payments, asOf]);
+  const byType = useMemo(() => (valid ? revenueByType(stalls, payments, range) : []), [stalls, payments, range, valid]);
+
+  const billed = fromCentavos(trend.reduce((total, point) => total + toCentavos(point.billed), 0));
+  const collected = fromCentavos(trend.reduce((total, point) => total + toCentavos(point.collected), 0));
+  const latest = trend[trend.length - 1];
+  const overdue = fromCentavos(aging.reduce((total, bucket) => total + toCentavos(bucket.amount), 0));
+  const overdueStalls = aging.reduce((total, bucket) => total + bucket.stalls, 0);
+
+  const updateRange = (changes: Partial<typeof range>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <AdminLayout
+      title="Analytics"
+      description={valid ? `${formatRange(range)} · figures as of ${formatDate(asOf)}` : "Choose a valid period"}
+      actions={
+        <Button onClick={() => window.print()} disabled={!valid}>
+          <Printer className="mr-1 h-4 w-4" />
+          Print / PDF
+        </Button>
+      }
+    >
+      {/* The layout header is not printed, so the report carries its own title. */}
+      <div className="hidden print:block">
+        <h1 className="text-xl font-bold">Sibulan Market Office · Revenue and Occupancy</h1>
+        <p className="text-sm">
+          {formatRange(range)} · figures as of {formatDate(asOf)}
+        </p>
+      </div>
+      <Card className="print:hidden">
+        <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+          <div className="space-y-1">
+            <Label htmlFor="analytics-from">From</Label>
+            <Input
+              id="analytics-from"
+              type="month"
+              value={range.from}
+              max={range.to}
+              onChange={(event) => updateRange({ from: event.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="analytics-to">To</Label>
+            <Input
+              id="analytics-to"
+              type="month"
+              value={range.to}
+              min={range.from}
+              onChange={(event) => updateRange({ to: event.target.value })}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ANALYTICS_PRESET_LABELS) as AnalyticsPreset[]).map((preset) => (
+              <Button key={preset} variant="outline" size="sm" onClick={() => updateRange(analyticsRange(preset))}>
+                {ANALYTICS_PRESET_LABELS[preset]}
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading stalls...</p>
+      ) : !valid ? (
+        <p className="text-destructive">The start of the period must not be after its end.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
+            <Kpi
+              label="Occupancy"
+              value={latest ? `${latest.occupancyRate}%` : "—"}
+              detail={latest ? `${latest.occupied} of ${latest.total} stalls in ${latest.label}` : "No stalls"}
+            />
+            <Kpi label="Rent billed" value={formatPeso(billed)} detail={formatRange(range)} />
+            <Kpi label="Collected" value={formatPeso(collected)} detail="Payments received, surcharges included" />
+            <Kpi
+              label="Collection rate"
+              value={billed > 0 ? `${((collected / billed) * 100).toFixed(1)}%` : "—"}
+              detail="Collected as a share of rent billed"
+            />
+            <Kpi
+              label="Overdue rent"
+              value={formatPeso(overdue)}
+              detail={`${overdueStalls} ${overdueStalls === 1 ? "stall" : "stalls"} behind as of ${formatDate(asOf)}`}
+            />
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2 print:grid-cols-1">
+            <OccupancyChart data={trend} />
+            <BilledCollectedChart data={trend} />
+            <AgingChart data={aging} asOf={asOf} />
+            <RevenueByTypeChart data={byType} />
+          </div>
+        </>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminAnalytics;
@@ -0,0 +1,50 @@
+import { useMemo, useState } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { FloorMap } from "@/components/floor-map/FloorMap";
+import { FloorMapEditor } from "@/components/floor-map/FloorMapEditor";
+import { FloorMapLegend } from "@/components/floor-map/FloorMapLegend";
+import { StallDetailsDialog } from "@/components/floor-map/StallDetailsDialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { StallRecord } from "@/data/stalls";
+import { useStalls } from "@/hooks/use-stalls";
+
+const AdminFloorMap = () => {
+  const { data: stalls = [], isLoading, error } = useStalls();
+  const [selectedStall, setSelectedStall] = useState<StallRecord | null>(null);
+
+  const placedCount = stalls.filter((stall) => stall.position).length;
+  const types = useMemo(() => Array.from(new Set(stalls.map((stall) => stall.type))).sort(), [stalls]);
+
+  return (
+    <AdminLayout title="Floor Map" description={`${placedCount} of ${stalls.length} stalls placed on the map`}>
+      {error ? (
+        <p className="text-destructive">Failed to load stalls: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading stalls...</p>
+      ) : (
+        <Tabs defaultValue="view" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="view">View</TabsTrigger>
+            <TabsTrigger value="edit">Edit layout</TabsTrigger>
+          </TabsList>
+          <TabsContent value="view" className="space-y-3">
+            <FloorMapLegend types={types} />
+            {placedCount === 0 ? (
+              <p className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+                No stalls are on the map yet. Switch to the Edit layout tab to place them.
+              </p>
+            ) : (
+              <FloorMap stalls={stalls} selectedDbId={selectedStall?.dbId} onSelect={setSelectedStall} />
+            )}
+          </TabsContent>
+          <TabsContent value="edit">
+            <FloorMapEditor stalls={stalls} />
+          </TabsContent>
+        </Tabs>
+      )}
+      <StallDetailsDialog stall={selectedStall} onOpenChange={(open) => !open && setSelectedStall(null)} />
+    </AdminLayout>
+  );
+};
+
+export default AdminFloorMap;
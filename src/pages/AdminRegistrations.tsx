@@ -0,0 +1,168 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ExportMenu } from "@/components/admin/ExportMenu";
+import { RegistrationReviewDialog } from "@/components/admin/RegistrationReviewDialog";
+import { RegistrationStatusBadge } from "@/components/registrations/RegistrationStatusBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { findDuplicates, hasDuplicates, type DuplicateReport } from "@/data/duplicates";
+import { REGISTRATION_EXPORT_COLUMNS } from "@/data/exports";
+import { applicantName, isAwaitingDecision, type RegistrationRecord } from "@/data/registrations";
+import { useRegistrations } from "@/hooks/use-registrations";
+import { useStalls } from "@/hooks/use-stalls";
+import { exportRows } from "@/lib/csv";
+import { formatPeso } from "@/lib/format";
+import { formatPhilippinePhone } from "@/lib/phone";
+
+type QueueFilter = "pending" | "waitlisted" | "approved" | "rejected" | "all";
+
+const QUEUE_FILTERS: { value: QueueFilter; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "waitlisted", label: "Waitlisted" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "all", label: "All" },
+];
+
+const matchesFilter = (registration: RegistrationRecord, filter: QueueFilter) => {
+  if (filter === "all") return true;
+  if (filter === "pending") return isAwaitingDecision(registration.status);
+  return registration.status === filter;
+};
+
+const AdminRegistrations = () => {
+  const { data: registrations = [], isLoading, error } = useRegistrations();
+  const [filter, setFilter] = useState<QueueFilter>("pending");
+  const { data: stalls = [] } = useStalls();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const duplicates = useMemo(
+    () =>
+      new Map<string, DuplicateReport>(
+        registrations.map((registration) => [
+          registration.registrationId,
+          findDuplicates(registration, registrations, stalls),
+        ]),
+      ),
+    [registrations, stalls],
+  );
+
+  // Oldest first, so applications are reviewed in the order they were filed.
+  const queue = useMemo(
+    () =>
+      registrations
+        .filter((registration) => matchesFilter(registration, filter))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    [registrations, filter],
+  );
+  const pendingCount = registrations.filter((registration) => isAwaitingDecision(registration.status)).length;
+  const selected = registrations.find((registration) => registration.registrationId === selectedId) ?? null;
+
+  return (
+    <AdminLayout
+      title="Registration Review"
+      description={`${pendingCount} application(s) awaiting a decision`}
+      actions={
+        <ExportMenu
+          disabled={isLoading}
+          options={[
+            {
+              label: `${QUEUE_FILTERS.find((option) => option.value === filter)?.label} registrations`,
+              count: queue.length,
+              onExport: (exportFormat) =>
+                exportRows(
+                  `Registrations - ${filter} - ${format(new Date(), "yyyy-MM-dd")}`,
+                  exportFormat,
+                  REGISTRATION_EXPORT_COLUMNS,
+                  queue,
+                ),
+            },
+          ]}
+        />
+      }
+    >
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+        <TabsList>
+          {QUEUE_FILTERS.map((option) => (
+            <TabsTrigger key={option.value} value={option.value}>
+              {option.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {error ? (
+        <p className="text-destructive">Failed to load registrations: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading registrations...</p>
+      ) : (
+        <div className="rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Applicant</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Requested Stall</TableHead>
+                <TableHead className="text-right">Rent</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No applications here.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                queue.map((registration) => (
+                  <TableRow key={registration.registrationId}>
+                    <TableCell>{new Date(registration.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-medium">
+                      {applicantName(registration)}
+                      {hasDuplicates(duplicates.get(registration.registrationId)!) && (
+                        <Badge variant="outline" className="ml-2 border-amber-300 bg-amber-50 text-amber-800">
+                          Possible duplicate
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatPhilippinePhone(registration.phone)}</TableCell>
+                    <TableCell>
+                      {registration.stallName}
+                      <span className="text-muted-foreground"> · {registration.stallType}</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatPeso(registration.monthlyRent)}</TableCell>
+                    <TableCell>
+                      <RegistrationStatusBadge status={registration.status} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedId(registration.registrationId)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {selected && (
+        <RegistrationReviewDialog
+          key={selected.registrationId}
+          registration={selected}
+          duplicates={duplicates.get(selected.registrationId)!}
+          onOpenChange={(open) => !open && setSelectedId(null)}
+        />
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminRegistrations;
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { RemittanceCountForm } from "@/components/remittances/RemittanceCountForm";
+import { RemittanceStatusBadge } from "@/components/remittances/RemittanceStatusBadge";
+import { ReviewRemittanceDialog } from "@/components/remittances/ReviewRemittanceDialog";
+import { VarianceBadge } from "@/components/remittances/VarianceBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { reconcileDay, remittanceVariance, type Remittance } from "@/data/remittances";
+import { usePayments } from "@/hooks/use-payments";
+import { useDayRemittances } from "@/hooks/use-remittances";
+import { formatDate, formatPeso } from "@/lib/format";
+
+const AdminRemittances = () => {
+  const [day, setDay] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const { data: payments = [], isLoading } = usePayments();
+  const { data: remittances = [], error } = useDayRemittances(day);
+  const [reviewing, setReviewing] = useState<Remittance | null>(null);
+  const [counting, setCounting] = useState<string | null>(null);
+
+  const rows = useMemo(() => reconcileDay(payments, remittances, day), [payments, remittances, day]);
+  const awaiting = rows.filter((row) => row.closing?.status === "submitted").length;
+  const open = rows.filter((row) => !row.closing).length;
+
+  return (
+    <AdminLayout
+      title="Remittances"
+      description={`${formatDate(day)} · ${open} not yet remitted · ${awaiting} awaiting approval`}
+      actions={
+        <div className="flex items-center gap-2">
+          <Label htmlFor="remittance-day" className="text-sm text-muted-foreground">
+            Day
+          </Label>
+          <Input id="remittance-day" type="date" value={day} onChange={(event) => setDay(event.target.value)} />
+        </div>
+      }
+    >
+      {error ? (
+        <p className="text-destructive">Failed to load remittances: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading payments...</p>
+      ) : (
+        <div className="rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Collector</TableHead>
+                <TableHead className="text-right">Cash Payments</TableHead>
+                <TableHead className="text-right">Recorded</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead>Difference</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No payments were collected on this day.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(({ collector, expected, closing, returned }) => (
+                  <TableRow key={collector}>
+                    <TableCell>
+                      <div className="font-medium">{collector}</div>
+                      {returned.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setReviewing(returned[returned.length - 1])}
+                          className="text-xs text-muted-foreground underline"
+                        >
+                          Returned {returned.length === 1 ? "once" : `${returned.length} times`}
+                        </button>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{closing ? closing.paymentCount : expected.count}</TableCell>
+                    <TableCell className="text-right">{formatPeso(closing ? closing.expected : expected.total)}</TableCell>
+                    <TableCell className="text-right">{closing ? formatPeso(closing.counted) : "—"}</TableCell>
+                    <TableCell>{closing ? <VarianceBadge variance={remittanceVariance(closing)} /> : "—"}</TableCell>
+                    <TableCell>
+                      {closing ? (
+                        <RemittanceStatusBadge status={closing.status} />
+                      ) : (
+                        <Badge variant="outline">Not remitted</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {closing ? (
+                        <Button
+                          size="sm"
+                          variant={closing.status === "submitted" ? "default" : "outline"}
+                          onClick={() => setReviewing(closing)}
+                        >
+                          {closing.status === "submitted" ? "Review" : "View"}
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => setCounting(collector)}>
+                          Count cash
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ReviewRemittanceDialog remittance={reviewing} onOpenChange={(isOpen) => !isOpen && setReviewing(null)} />
+      <Dialog open={counting !== null} onOpenChange={(isOpen) => !isOpen && setCounting(null)}>
+        <DialogContent className="max-h-[90vh] max-w-md overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Close Day</DialogTitle>
+            <DialogDescription>
+              {counting} · {formatDate(day)}
+            </DialogDescription>
+          </DialogHeader>
+          {counting && (
+            <RemittanceCountForm
+              collector={counting}
+              day={day}
+              payments={payments}
+              onSubmitted={(remittance) => {
+                setCounting(null);
+                setReviewing(remittance);
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminRemittances;
@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { RentScheduleForm } from "@/components/admin/RentScheduleForm";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatEffectivePeriod, groupRentRates } from "@/data/rentRates";
+import { stallTypeOptions } from "@/data/stallTypes";
+import { useRentRates } from "@/hooks/use-rent-rates";
+import { useStallTypes } from "@/hooks/use-stall-types";
+import { useStalls } from "@/hooks/use-stalls";
+import { formatPeso } from "@/lib/format";
+
+const AdminRentSchedule = () => {
+  const { data: rates = [], isLoading, error } = useRentRates();
+  const { data: stalls = [] } = useStalls();
+  const { data: stallTypes = [] } = useStallTypes();
+
+  const ordinances = useMemo(() => groupRentRates(rates), [rates]);
+  const typeOptions = useMemo(() => stallTypeOptions(stallTypes, stalls), [stallTypes, stalls]);
+  const sectionOptions = useMemo(
+    () => Array.from(new Set(stalls.map((stall) => stall.section).filter(Boolean))).sort(),
+    [stalls],
+  );
+  const unmeasured = stalls.filter((stall) => !stall.areaSqm).length;
+
+  return (
+    <AdminLayout
+      title="Rent Schedule"
+      description={
+        unmeasured > 0
+          ? `${unmeasured} of ${stalls.length} stalls have no floor area and cannot be priced by the schedule`
+          : "Rent per square meter by stall type and section"
+      }
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">New Ordinance</CardTitle>
+          <CardDescription>Enter the ordinance's rates and check the effect on every stall before adopting it.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RentScheduleForm stalls={stalls} typeOptions={typeOptions} sectionOptions={sectionOptions} />
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <p className="text-destructive">Failed to load rent rates: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading rent rates...</p>
+      ) : ordinances.length === 0 ? (
+        <p className="text-muted-foreground">No ordinance has been adopted yet.</p>
+      ) : (
+        ordinances.map((ordinance) => (
+          <Card key={`${ordinance.effectiveFrom}|${ordinance.ordinance}`}>
+            <CardHeader>
+              <CardTitle className="text-lg">{ordinance.ordinance}</CardTitle>
+              <CardDescription>Effective {formatEffectivePeriod(ordinance.effectiveFrom)}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Section</TableHead>
+                    <TableHead className="text-right">Rate per sqm</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ordinance.rates.map((rate) => (
+                    <TableRow key={rate.dbId}>
+                      <TableCell>{rate.stallType || "All types"}</TableCell>
+                      <TableCell>{rate.section || "All sections"}</TableCell>
+                      <TableCell className="text-right">{formatPeso(rate.ratePerSqm)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminRentSchedule;
@@ -0,0 +1,403 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, FileText, Lock, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ExportMenu } from "@/components/admin/ExportMenu";
+import { RecordPaymentDialog } from "@/components/admin/RecordPaymentDialog";
+import { StallStatusBadge } from "@/components/admin/StallStatusBadge";
+import { WaivePenaltyDialog } from "@/components/admin/WaivePenaltyDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { paymentExportColumns } from "@/data/exports";
+import { PAYMENT_METHOD_LABELS, formatPeriod, summarizePeriods } from "@/data/payments";
+import { computeAmountDue, totalSurcharge, type PenaltyLine } from "@/data/penalties";
+import { REMITTANCE_STATUS_LABELS, findClosingRemittance } from "@/data/remittances";
+import { formatEffectivePeriod } from "@/data/rentRates";
+import { formatStallDisplay } from "@/data/stalls";
+import { useStallPayments } from "@/hooks/use-payments";
+import { useStallPenaltyWaivers } from "@/hooks/use-penalties";
+import { useIssueReceipt } from "@/hooks/use-receipts";
+import { useRemittances } from "@/hooks/use-remittances";
+import { useStall } from "@/hooks/use-stalls";
+import { exportRows } from "@/lib/csv";
+import { formatDate, formatPeso } from "@/lib/format";
+
+const AdminStallLedger = () => {
+  const { stallId } = useParams();
+  const dbId = Number(stallId);
+  const { data: stall, isLoading } = useStall(Number.isInteger(dbId) ? dbId : null);
+  const { data: payments = [] } = useStallPayments(stall?.dbId);
+  const { data: waivers = [] } = useStallPenaltyWaivers(stall?.dbId);
+  const { data: remittances = [] } = useRemittances();
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [asOf, setAsOf] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [waiving, setWaiving] = useState<PenaltyLine | null>(null);
+  const issueReceipt = useIssueReceipt();
+  const navigate = useNavigate();
+
+  const periods = useMemo(() => (stall ? summarizePeriods(stall, payments) : []), [stall, payments]);
+  const amountDue = useMemo(
+    () => (stall && asOf ? computeAmountDue(stall, payments, waivers, asOf) : null),
+    [stall, payments, waivers, asOf],
+  );
+  const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  const handleIssueReceipt = async (paymentDbId: number) => {
+    try {
+      const receipt = await issueReceipt.mutateAsync(paymentDbId);
+      navigate(`/receipts/${receipt.orNumber}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to issue receipt. ${message}`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <AdminLayout title="Payment Ledger">
+        <p className="text-muted-foreground">Loading stall...</p>
+      </AdminLayout>
+    );
+  }
+
+  if (!stall) {
+    return (
+      <AdminLayout title="Payment Ledger">
+        <p className="text-muted-foreground">Stall not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/admin/stalls">Back to registry</Link>
+        </Button>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout
+      title={formatStallDisplay(stall)}
+      description={`${stall.id} · ${stall.type} · ${formatPeso(stall.monthlyRent)} per month`}
+      actions={
+        <>
+          <Button variant="outline" asChild>
+            <Link to="/admin/stalls">
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Registry
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link to={`/admin/stalls/${stall.dbId}/statement`}>
+              <FileText className="mr-1 h-4 w-4" />
+              Statement
+            </Link>
+          </Button>
+          <ExportMenu
+            options={[
+              {
+                label: "Payments",
+                count: payments.length,
+                onExport: (exportFormat) =>
+                  exportRows(
+                    `Payment Ledger - ${stall.name} - ${format(new Date(), "yyyy-MM-dd")}`,
+                    exportFormat,
+                    paymentExportColumns([stall]),
+                    payments,
+                  ),
+              },
+            ]}
+          />
+          <Button onClick={() => setPaymentOpen(true)} disabled={!stall.occupied}>
+            <Plus className="mr-1 h-4 w-4" />
+            Record Payment
+          </Button>
+        </>
+      }
+    >
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StallStatusBadge status={stall.status} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Next Due</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xl font-semibold">{formatDate(stall.nextDue)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Last Payment</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xl font-semibold">{formatDate(stall.lastPayment)}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Collected</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xl font-semibold">{formatPeso(totalPaid)}</CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-lg">Amount Due</CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="amount-due-as-of" className="text-muted-foreground">As of</label>
+            <Input
+              id="amount-due-as-of"
+              type="date"
+              value={asOf}
+              onChange={(event) => setAsOf(event.target.value)}
+              className="w-40"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Unpaid rent</p>
+              <p className="text-lg font-semibold">{formatPeso(amountDue?.principal ?? 0)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Surcharges</p>
+              <p className="text-lg font-semibold">{formatPeso(amountDue?.surcharge ?? 0)}</p>
+            </div>
+            <div className="rounded-md border p-3">
+              <p className="text-muted-foreground">Total due</p>
+              <p className="text-lg font-semibold">{formatPeso(amountDue?.total ?? 0)}</p>
+            </div>
+          </div>
+          {amountDue && amountDue.lines.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead className="text-right">Unpaid Rent</TableHead>
+                  <TableHead className="text-right">Months Late</TableHead>
+                  <TableHead className="text-right">Surcharge</TableHead>
+                  <TableHead className="text-right">Paid / Waived</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {amountDue.lines.map((line) => (
+                  <TableRow key={line.period}>
+                    <TableCell>{formatPeriod(line.period)}</TableCell>
+                    <TableCell>{formatDate(line.dueDate)}</TableCell>
+                    <TableCell className="text-right">{formatPeso(line.principal)}</TableCell>
+                    <TableCell className="text-right">{line.monthsLate}</TableCell>
+                    <TableCell className="text-right">{formatPeso(line.accrued)}</TableCell>
+                    <TableCell className="text-right">{formatPeso(line.paid + line.waived)}</TableCell>
+                    <TableCell className={line.surcharge > 0 ? "text-right text-destructive" : "text-right"}>
+                      {formatPeso(line.surcharge)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.surcharge > 0 && (
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setWaiving(line)}>
+                          Waive
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Monthly Balances</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead className="text-right">Rent</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                    No billing history.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                periods.map((period) => (
+                  <TableRow key={period.period}>
+                    <TableCell>{formatPeriod(period.period)}</TableCell>
+                    <TableCell>{formatDate(period.dueDate)}</TableCell>
+                    <TableCell className="text-right">{formatPeso(period.charged)}</TableCell>
+                    <TableCell className="text-right">{formatPeso(period.paid)}</TableCell>
+                    <TableCell className={period.balance > 0 ? "text-right text-destructive" : "text-right"}>
+                      {formatPeso(period.balance)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {stall.rentHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Rent History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From</TableHead>
+                  <TableHead>Basis</TableHead>
+                  <TableHead className="text-right">Monthly Rent</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...stall.rentHistory].reverse().map((entry) => (
+                  <TableRow key={entry.effectiveFrom}>
+                    <TableCell>{formatEffectivePeriod(entry.effectiveFrom)}</TableCell>
+                    <TableCell>{entry.basis}</TableCell>
+                    <TableCell className="text-right">{formatPeso(entry.monthlyRent)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {waivers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Surcharge Waivers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Approved By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...waivers].reverse().map((waiver) => (
+                  <TableRow key={waiver.dbId}>
+                    <TableCell>{formatDate(waiver.createdAt)}</TableCell>
+                    <TableCell>{formatPeriod(waiver.period)}</TableCell>
+                    <TableCell>{waiver.reason}</TableCell>
+                    <TableCell>{waiver.approvedBy}</TableCell>
+                    <TableCell className="text-right">{formatPeso(waiver.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Payment History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>OR No.</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Period Covered</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Collector</TableHead>
+                <TableHead className="text-right">Surcharge</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-16 text-center text-muted-foreground">
+                    No payments recorded.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                [...payments].reverse().map((payment) => {
+                  // Payments of a remitted day are locked; see the Remittances page.
+                  const remitted = findClosingRemittance(remittances, payment.collector, payment.paidOn);
+                  return (
+                    <TableRow key={payment.dbId}>
+                      <TableCell>
+                        <span className="flex items-center gap-1">
+                          {formatDate(payment.paidOn)}
+                          {remitted && (
+                            <Lock
+                              className="h-3 w-3 text-muted-foreground"
+                              aria-label={`Remitted, ${REMITTANCE_STATUS_LABELS[remitted.status].toLowerCase()}`}
+                            >
+                              <title>Remitted · {REMITTANCE_STATUS_LABELS[remitted.status]}</title>
+                            </Lock>
+                          )}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {payment.orNumber ? (
+                          <Link to={`/receipts/${payment.orNumber}`} className="hover:underline">
+                            {payment.orNumber}
+                          </Link>
+                        ) : (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0"
+                            onClick={() => handleIssueReceipt(payment.dbId)}
+                            disabled={issueReceipt.isPending}
+                          >
+                            Issue receipt
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell>{payment.vendor}</TableCell>
+                      <TableCell>
+                        {payment.periodStart === payment.periodEnd
+                          ? formatPeriod(payment.periodStart)
+                          : `${formatPeriod(payment.periodStart)} – ${formatPeriod(payment.periodEnd)}`}
+                      </TableCell>
+                      <TableCell>{PAYMENT_METHOD_LABELS[payment.method]}</TableCell>
+                      <TableCell>{payment.collector}</TableCell>
+                      <TableCell className="text-right">{formatPeso(totalSurcharge(payment))}</TableCell>
+                      <TableCell className="text-right">{formatPeso(payment.amount)}</TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <RecordPaymentDialog stall={stall} open={paymentOpen} onOpenChange={setPaymentOpen} />
+      <WaivePenaltyDialog stall={stall} line={waiving} onOpenChange={(open) => !open && setWaiving(null)} />
+    </AdminLayout>
+  );
+};
+
+export default AdminStallLedger;
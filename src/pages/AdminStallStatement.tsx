@@ -0,0 +1,155 @@
+import { useMemo } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { StatementOfAccount } from "@/components/statements/StatementOfAccount";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { buildStatement, defaultStatementRange, stallsOfVendor, statementCsvRows } from "@/data/statements";
+import { formatStallDisplay } from "@/data/stalls";
+import { usePayments } from "@/hooks/use-payments";
+import { usePenaltyWaivers } from "@/hooks/use-penalties";
+import { useStalls } from "@/hooks/use-stalls";
+import { downloadCsv } from "@/lib/csv";
+
+const AdminStallStatement = () => {
+  const { stallId } = useParams();
+  const dbId = Number(stallId);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: stalls, isLoading } = useStalls();
+  const { data: payments = [] } = usePayments();
+  const { data: waivers = [] } = usePenaltyWaivers();
+
+  const defaults = defaultStatementRange();
+  const from = searchParams.get("from") || defaults.from;
+  const to = searchParams.get("to") || defaults.to;
+  const wholeVendor = searchParams.get("scope") === "vendor";
+
+  const stall = stalls?.find((candidate) => candidate.dbId === dbId);
+  const vendorStalls = useMemo(() => (stall && stalls ? stallsOfVendor(stalls, stall) : []), [stall, stalls]);
+
+  const statement = useMemo(() => {
+    if (!stall || from > to) return null;
+    const covered = wholeVendor ? vendorStalls : [stall];
+    return buildStatement(
+      covered.map((account) => ({
+        stall: account,
+        payments: payments.filter((payment) => payment.stallDbId === account.dbId),
+        waivers: waivers.filter((waiver) => waiver.stallDbId === account.dbId),
+      })),
+      from,
+      to,
+    );
+  }, [stall, vendorStalls, wholeVendor, payments, waivers, from, to]);
+
+  const updateParams = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleExportCsv = () => {
+    if (!statement || !stall) return;
+    const subject = wholeVendor ? statement.vendor : stall.name;
+    downloadCsv(`Statement - ${subject} - ${from} to ${to}.csv`, statementCsvRows(statement));
+  };
+
+  if (isLoading) {
+    return (
+      <AdminLayout title="Statement of Account">
+        <p className="text-muted-foreground">Loading stall...</p>
+      </AdminLayout>
+    );
+  }
+
+  if (!stall) {
+    return (
+      <AdminLayout title="Statement of Account">
+        <p className="text-muted-foreground">Stall not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/admin/stalls">Back to registry</Link>
+        </Button>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout
+      title="Statement of Account"
+      description={formatStallDisplay(stall)}
+      actions={
+        <>
+          <Button variant="outline" asChild>
+            <Link to={`/admin/stalls/${stall.dbId}`}>
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Ledger
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={handleExportCsv} disabled={!statement}>
+            <Download className="mr-1 h-4 w-4" />
+            CSV
+          </Button>
+          <Button onClick={() => window.print()} disabled={!statement}>
+            <Printer className="mr-1 h-4 w-4" />
+            Print / PDF
+          </Button>
+        </>
+      }
+    >
+      <Card className="print:hidden">
+        <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input
+              id="statement-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(event) => updateParams({ from: event.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input
+              id="statement-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(event) => updateParams({ to: event.target.value })}
+            />
+          </div>
+          {vendorStalls.length > 1 && (
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="statement-scope"
+                checked={wholeVendor}
+                onCheckedChange={(checked) => updateParams({ scope: checked ? "vendor" : "" })}
+              />
+              <Label htmlFor="statement-scope">
+                All {vendorStalls.length} stalls of {stall.vendor}
+              </Label>
+            </div>
+          )}
+          <p className="pb-2 text-xs text-muted-foreground">
+            Use Print and choose "Save as PDF" as the printer to keep a PDF copy.
+          </p>
+        </CardContent>
+      </Card>
+
+      {statement ? (
+        <StatementOfAccount statement={statement} preparedOn={format(new Date(), "yyyy-MM-dd")} />
+      ) : (
+        <p className="text-destructive">The start date must be on or before the end date.</p>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default AdminStallStatement;
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { StallTypeEditorDialog } from "@/components/admin/StallTypeEditorDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { normalizeStallTypeName, type StallType } from "@/data/stallTypes";
+import { useSetStallTypeActive, useStallTypes } from "@/hooks/use-stall-types";
+import { useStalls } from "@/hooks/use-stalls";
+import { formatPeso } from "@/lib/format";
+
+const AdminStallTypes = () => {
+  const { data: stallTypes = [], isLoading, error } = useStallTypes();
+  const { data: stalls = [] } = useStalls();
+  const setActive = useSetStallTypeActive();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingType, setEditingType] = useState<StallType | null>(null);
+
+  const stallCount = (stallType: StallType) =>
+    stalls.filter((stall) => normalizeStallTypeName(stall.type) === normalizeStallTypeName(stallType.name)).length;
+
+  const openEditor = (stallType: StallType | null) => {
+    setEditingType(stallType);
+    setEditorOpen(true);
+  };
+
+  const handleActiveChange = async (stallType: StallType, active: boolean) => {
+    try {
+      await setActive.mutateAsync({ dbId: stallType.dbId, active });
+      toast.success(active ? `${stallType.name} is open to applicants` : `${stallType.name} is no longer offered`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to update ${stallType.name}. ${message}`);
+    }
+  };
+
+  const activeCount = stallTypes.filter((stallType) => stallType.active).length;
+
+  return (
+    <AdminLayout
+      title="Stall Types"
+      description={`${activeCount} of ${stallTypes.length} types offered to applicants`}
+      actions={
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Type
+        </Button>
+      }
+    >
+      {error ? (
+        <p className="text-destructive">Failed to load stall types: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading stall types...</p>
+      ) : (
+        <div className="rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Default Rent</TableHead>
+                <TableHead>Required Permits</TableHead>
+                <TableHead className="text-right">Stalls</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stallTypes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                    No stall types yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                stallTypes.map((stallType) => (
+                  <TableRow key={stallType.dbId} className={stallType.active ? undefined : "text-muted-foreground"}>
+                    <TableCell>
+                      <div className="font-medium">{stallType.name}</div>
+                      {stallType.description && (
+                        <div className="text-xs text-muted-foreground">{stallType.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPeso(stallType.defaultRent)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {stallType.requiredPermits.length === 0
+                          ? "—"
+                          : stallType.requiredPermits.map((permit) => (
+                              <Badge key={permit} variant="secondary">
+                                {permit}
+                              </Badge>
+                            ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{stallCount(stallType)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={stallType.active}
+                        onCheckedChange={(active) => handleActiveChange(stallType, active)}
+                        disabled={setActive.isPending}
+                        aria-label={`Offer ${stallType.name} to applicants`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(stallType)} aria-label={`Edit ${stallType.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <StallTypeEditorDialog open={editorOpen} onOpenChange={setEditorOpen} stallType={editingType} />
+    </AdminLayout>
+  );
+};
+
+export default AdminStallTypes;
@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Plus } from "lucide-react";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { ExportMenu } from "@/components/admin/ExportMenu";
+import { StallEditorDialog } from "@/components/admin/StallEditorDialog";
+import { StallRegistryTable } from "@/components/admin/StallRegistryTable";
+import { StallRegistryToolbar } from "@/components/admin/StallRegistryToolbar";
+import { VacateStallDialog } from "@/components/admin/VacateStallDialog";
+import { Button } from "@/components/ui/button";
+import { STALL_EXPORT_COLUMNS, paymentExportColumns, paymentsOfStalls } from "@/data/exports";
+import type { StallRecord } from "@/data/stalls";
+import {
+  DEFAULT_REGISTRY_FILTERS,
+  filterStalls,
+  paginate,
+  sortStalls,
+  type SortDirection,
+  type StallRegistryFilters,
+  type StallSortKey,
+} from "@/data/stallRegistry";
+import { stallTypeOptions } from "@/data/stallTypes";
+import { usePayments } from "@/hooks/use-payments";
+import { useStallTypes } from "@/hooks/use-stall-types";
+import { useStalls } from "@/hooks/use-stalls";
+import { exportRows } from "@/lib/csv";
+
+const PAGE_SIZE = 20;
+
+const AdminStalls = () => {
+  const { data: stalls = [], isLoading, error } = useStalls();
+  const { data: stallTypes = [] } = useStallTypes();
+  const { data: payments = [] } = usePayments();
+  const [filters, setFilters] = useState<StallRegistryFilters>(DEFAULT_REGISTRY_FILTERS);
+  const [sortKey, setSortKey] = useState<StallSortKey>("id");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const [page, setPage] = useState(1);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingStall, setEditingStall] = useState<StallRecord | null>(null);
+  const [vacatingStall, setVacatingStall] = useState<StallRecord | null>(null);
+
+  const typeOptions = useMemo(() => stallTypeOptions(stallTypes, stalls), [stallTypes, stalls]);
+
+  const visibleStalls = useMemo(
+    () => sortStalls(filterStalls(stalls, filters, stallTypes), sortKey, sortDirection),
+    [stalls, filters, stallTypes, sortKey, sortDirection],
+  );
+
+  const pageData = paginate(visibleStalls, page, PAGE_SIZE);
+
+  // Exports follow the registry's filters: the stalls listed, and the payment ledger of those stalls.
+  const visiblePayments = useMemo(() => paymentsOfStalls(payments, visibleStalls), [payments, visibleStalls]);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const handleFiltersChange = (next: StallRegistryFilters) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  const handleSortChange = (key: StallSortKey, direction: SortDirection) => {
+    setSortKey(key);
+    setSortDirection(direction);
+  };
+
+  const openEditor = (stall: StallRecord | null) => {
+    setEditingStall(stall);
+    setEditorOpen(true);
+  };
+
+  return (
+    <AdminLayout
+      title="Stall Registry"
+      description={`${visibleStalls.length} of ${stalls.length} stalls`}
+      actions={
+        <>
+          <ExportMenu
+            disabled={isLoading}
+            options={[
+              {
+                label: "Stalls",
+                count: visibleStalls.length,
+                onExport: (exportFormat) =>
+                  exportRows(`Stall Registry - ${today}`, exportFormat, STALL_EXPORT_COLUMNS, visibleStalls),
+              },
+              {
+                label: "Payments",
+                count: visiblePayments.length,
+                onExport: (exportFormat) =>
+                  exportRows(
+                    `Payment Ledger - ${today}`,
+                    exportFormat,
+                    paymentExportColumns(stalls),
+                    visiblePayments,
+                  ),
+              },
+            ]}
+          />
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Stall
+          </Button>
+        </>
+      }
+    >
+      <StallRegistryToolbar filters={filters} typeOptions={typeOptions} onChange={handleFiltersChange} />
+      {error ? (
+        <p className="text-destructive">Failed to load stalls: {error.message}</p>
+      ) : isLoading ? (
+        <p className="text-muted-foreground">Loading stalls...</p>
+      ) : (
+        <StallRegistryTable
+          stalls={pageData.items}
+          sortKey={sortKey}
+          sortDirection={sortDirection}
+          onSortChange={handleSortChange}
+          page={pageData.page}
+          pageCount={pageData.pageCount}
+          onPageChange={setPage}
+          onEdit={openEditor}
+          onVacate={setVacatingStall}
+        />
+      )}
+      <StallEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        stall={editingStall}
+        stalls={stalls}
+        stallTypes={stallTypes}
+        typeOptions={typeOptions}
+      />
+      <VacateStallDialog stall={vacatingStall} onOpenChange={(open) => !open && setVacatingStall(null)} />
+    </AdminLayout>
+  );
+};
+
+export default AdminStalls;
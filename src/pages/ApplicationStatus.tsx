@@ -0,0 +1,139 @@
+import { useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, FileSearch } from "lucide-react";
+import { toast } from "sonner";
+import { RegistrationStatusBadge } from "@/components/registrations/RegistrationStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  REGISTRATION_REQUIREMENT_LABELS,
+  type ApplicantStatusView,
+  type RegistrationStatus,
+} from "@/data/registrations";
+import { useApplicantStatusLookup } from "@/hooks/use-registrations";
+
+const STATUS_EXPLANATIONS: Record<RegistrationStatus, string> = {
+  submitted: "We have received your application. It is waiting in line for review by the market office.",
+  under_review: "The market office is reviewing your application.",
+  approved: "Your application was approved. Please visit the market office to sign your stall contract.",
+  rejected: "Your application was not approved.",
+  waitlisted: "Your application is complete, but no stall is available yet. We will contact you when one opens.",
+};
+
+const ApplicationStatus = () => {
+  const lookup = useApplicantStatusLookup();
+  const [registrationId, setRegistrationId] = useState("");
+  const [phone, setPhone] = useState("");
+  const [result, setResult] = useState<ApplicantStatusView | null | undefined>(undefined);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setResult(await lookup.mutateAsync({ registrationId, phone }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Could not check your application. ${message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[image:var(--gradient-bg)]">
+      <Card className="w-full max-w-xl shadow-2xl border-2">
+        <CardHeader className="space-y-2 border-b bg-gradient-to-br from-primary/5 to-accent/5">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-lg bg-[image:var(--gradient-primary)]">
+              <FileSearch className="h-7 w-7 text-white" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-bold">Application Status</CardTitle>
+              <CardDescription>Sibulan Market Stall Rental</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="registrationId">Registration ID</Label>
+              <Input
+                id="registrationId"
+                value={registrationId}
+                onChange={(event) => setRegistrationId(event.target.value)}
+                placeholder="REG-..."
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statusPhone">Phone number used when applying</Label>
+              <Input
+                id="statusPhone"
+                value={phone}
+                onChange={(event) => setPhone(event.target.value)}
+                placeholder="+63 XXX XXX XXXX"
+                inputMode="tel"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity"
+              disabled={lookup.isPending || !registrationId.trim() || !phone.trim()}
+            >
+              {lookup.isPending ? "Checking..." : "Check Status"}
+            </Button>
+          </form>
+
+          {result === null && (
+            <div className="flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-900">
+              <AlertCircle className="h-5 w-5 shrink-0" />
+              <p>No application matches that registration ID and phone number. Please check both and try again.</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-4 rounded-lg border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="font-mono text-xs text-muted-foreground">{result.registrationId}</span>
+                <RegistrationStatusBadge status={result.status} />
+              </div>
+              <p>{STATUS_EXPLANATIONS[result.status]}</p>
+              {result.status === "rejected" && result.rejectionReason && (
+                <p className="rounded-md bg-red-50 p-3 text-sm text-red-800">Reason: {result.rejectionReason}</p>
+              )}
+              <div className="text-sm">
+                <p className="text-muted-foreground">Requested stall</p>
+                <p className="font-medium">
+                  {result.stallName} · {result.stallType}
+                </p>
+              </div>
+              {result.missingRequirements.length > 0 && (
+                <div className="text-sm">
+                  <p className="font-semibold">Missing requirements</p>
+                  <ul className="mt-1 list-disc pl-5">
+                    {result.missingRequirements.map((requirement) => (
+                      <li key={requirement}>{REGISTRATION_REQUIREMENT_LABELS[requirement]}</li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-muted-foreground">Please bring these to the market office.</p>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Submitted {new Date(result.createdAt).toLocaleDateString()} · Last updated{" "}
+                {new Date(result.updatedAt).toLocaleDateString()}
+              </p>
+            </div>
+          )}
+
+          <p className="text-center text-sm text-muted-foreground">
+            Haven't applied yet?{" "}
+            <Link to="/" className="text-primary underline">
+              Register for a stall
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ApplicationStatus;
@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, ChevronRight, Lock, Store, Wallet } from "lucide-react";
+import { StallStatusBadge } from "@/components/admin/StallStatusBadge";
+import { CollectPaymentSheet } from "@/components/collector/CollectPaymentSheet";
+import { CollectorSheet } from "@/components/collector/CollectorSheet";
+import { DaySummarySheet } from "@/components/collector/DaySummarySheet";
+import { RemittanceCountForm } from "@/components/remittances/RemittanceCountForm";
+import { RemittanceStatusBadge } from "@/components/remittances/RemittanceStatusBadge";
+import { SyncStatusBadge } from "@/components/sync/SyncStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { collectionRoute, summarizeCollections } from "@/data/collections";
+import { computeAmountDue, type AmountDue } from "@/data/penalties";
+import { findClosingRemittance } from "@/data/remittances";
+import type { StallRecord } from "@/data/stalls";
+import { usePayments } from "@/hooks/use-payments";
+import { usePenaltyWaivers } from "@/hooks/use-penalties";
+import { useDayRemittances } from "@/hooks/use-remittances";
+import { useRecomputeStallStatuses, useStalls } from "@/hooks/use-stalls";
+import { formatDate, formatPeso } from "@/lib/format";
+
+const COLLECTOR_STORAGE_KEY = "sibulan-market:collector";
+
+const readCollector = () => {
+  try {
+    return localStorage.getItem(COLLECTOR_STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+const Collector = () => {
+  useRecomputeStallStatuses();
+  const { data: stalls = [], isLoading } = useStalls();
+  const { data: payments = [] } = usePayments();
+  const { data: waivers = [] } = usePenaltyWaivers();
+  const [collector, setCollector] = useState(readCollector);
+  const [collecting, setCollecting] = useState<StallRecord | null>(null);
+  const [summaryOpen, setSummaryOpen] = useState(false);
+  const [remitOpen, setRemitOpen] = useState(false);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const { data: remittances = [] } = useDayRemittances(today);
+  const closedBy = collector.trim() ? findClosingRemittance(remittances, collector, today) : undefined;
+  const route = useMemo(() => collectionRoute(stalls, new Date()), [stalls]);
+  const stopCount = route.reduce((count, section) => count + section.stalls.length, 0);
+  const summary = useMemo(() => summarizeCollections(payments, collector, today), [payments, collector, today]);
+  const stallNames = useMemo(() => new Map(stalls.map((stall) => [stall.dbId, stall.name])), [stalls]);
+
+  const amountsDue = useMemo(() => {
+    const amounts = new Map<number, AmountDue>();
+    for (const section of route) {
+      for (const stall of section.stalls) {
+        amounts.set(
+          stall.dbId,
+          computeAmountDue(
+            stall,
+            payments.filter((payment) => payment.stallDbId === stall.dbId),
+            waivers.filter((waiver) => waiver.stallDbId === stall.dbId),
+            today,
+          ),
+        );
+      }
+    }
+    return amounts;
+  }, [route, payments, waivers, today]);
+
+  const collectingDue = useMemo(
+    () =>
+      collecting
+        ? computeAmountDue(
+            collecting,
+            payments.filter((payment) => payment.stallDbId === collecting.dbId),
+            waivers.filter((waiver) => waiver.stallDbId === collecting.dbId),
+            today,
+          )
+        : null,
+    [collecting, payments, waivers, today],
+  );
+
+  const handleCollectorChange = (name: string) => {
+    setCollector(name);
+    try {
+      localStorage.setItem(COLLECTOR_STORAGE_KEY, name);
+    } catch (error) {
+      console.warn("Could not remember collector name", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[image:var(--gradient-bg)] pb-24">
+      <header className="sticky top-0 z-10 border-b bg-card">
+        <div className="mx-auto flex max-w-2xl items-center gap-3 px-4 py-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/admin/stalls" aria-label="Back to the stall registry">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div className="p-1.5 rounded-md bg-[image:var(--gradient-primary)]">
+            <Store className="h-5 w-5 text-white" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <h1 className="font-semibold leading-tight">Collection Route</h1>
+            <p className="text-xs text-muted-foreground">
+              {stopCount} {stopCount === 1 ? "stall" : "stalls"} to visit today
+            </p>
+          </div>
+          <SyncStatusBadge />
+        </div>
+        <div className="mx-auto max-w-2xl px-4 pb-3">
+          <Input
+            value={collector}
+            onChange={(event) => handleCollectorChange(event.target.value)}
+            placeholder="Your name (printed on receipts)"
+            aria-label="Collector name"
+          />
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-2xl space-y-6 px-4 py-4">
+        {closedBy && (
+          <div className="flex items-start gap-3 rounded-lg border bg-card p-4 text-sm">
+            <Lock className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="flex-1 space-y-1">
+              <p className="font-medium">Day closed</p>
+              <p className="text-muted-foreground">
+                You remitted {formatPeso(closedBy.counted)} on {formatDate(closedBy.submittedAt, "h:mm a")}. No more
+                payments can be collected under your name today.
+              </p>
+            </div>
+            <RemittanceStatusBadge status={closedBy.status} />
+          </div>
+        )}
+        {isLoading ? (
+          <p className="text-center text-muted-foreground">Loading stalls...</p>
+        ) : route.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No stalls are due or overdue today.</p>
+        ) : (
+          route.map((section) => (
+            <section key={section.section} className="space-y-2">
+              <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                {section.section || "No section"}
+              </h2>
+              <ul className="divide-y rounded-lg border bg-card">
+                {section.stalls.map((stall) => {
+                  const due = amountsDue.get(stall.dbId);
+                  return (
+                    <li key={stall.dbId}>
+                      <button
+                        type="button"
+                        onClick={() => setCollecting(stall)}
+                        disabled={Boolean(closedBy)}
+                        className="flex w-full items-center gap-3 p-4 text-left active:bg-muted disabled:opacity-60"
+                      >
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{stall.name}</span>
+                            {stall.row && <span className="text-xs text-muted-foreground">Row {stall.row}</span>}
+                          </div>
+                          <p className="truncate text-sm text-muted-foreground">{stall.vendor}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="font-semibold">{formatPeso(due && due.total > 0 ? due.total : stall.monthlyRent)}</p>
+                          <StallStatusBadge status={stall.status} />
+                        </div>
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))
+        )}
+      </main>
+
+      <div className="fixed inset-x-0 bottom-0 border-t bg-card">
+        <div className="mx-auto flex max-w-2xl gap-2 px-4 py-3">
+          <Button variant="outline" className="h-12 flex-1 justify-between" onClick={() => setSummaryOpen(true)}>
+            <span className="flex items-center gap-2">
+              <Wallet className="h-4 w-4" />
+              Collected today ({summary.count})
+            </span>
+            <span className="font-semibold">{formatPeso(summary.total)}</span>
+          </Button>
+          <Button className="h-12" onClick={() => setRemitOpen(true)} disabled={!collector.trim() || Boolean(closedBy)}>
+            <Lock className="mr-1 h-4 w-4" />
+            Close day
+          </Button>
+        </div>
+      </div>
+
+      <CollectPaymentSheet
+        stall={collecting}
+        amountDue={collectingDue}
+        collector={collector.trim()}
+        onOpenChange={(open) => !open && setCollecting(null)}
+      />
+      <DaySummarySheet summary={summary} stallNames={stallNames} open={summaryOpen} onOpenChange={setSummaryOpen} />
+      <CollectorSheet
+        open={remitOpen}
+        onOpenChange={setRemitOpen}
+        title="Close Day"
+        description={`Count the cash you are turning over · ${formatDate(today)}`}
+      >
+        {remitOpen && (
+          <RemittanceCountForm
+            collector={collector.trim()}
+            day={today}
+            payments={payments}
+            onSubmitted={() => setRemitOpen(false)}
+          />
+        )}
+      </CollectorSheet>
+    </div>
+  );
+};
+
+export default Collector;
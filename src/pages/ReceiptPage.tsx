@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { OfficialReceipt } from "@/components/receipts/OfficialReceipt";
+import { Button } from "@/components/ui/button";
+import { useReceipt, useRecordReceiptPrint } from "@/hooks/use-receipts";
+import { useStaffSession } from "@/hooks/use-staff-session";
+
+const ReceiptPage = () => {
+  const { orNumber } = useParams();
+  const { data: receipt, isLoading } = useReceipt(orNumber);
+  const recordPrint = useRecordReceiptPrint();
+  // Anyone scanning the QR code may view the receipt; printing and the ledger are for staff.
+  const { session, required } = useStaffSession();
+  const isStaff = !required || session !== null;
+  const [printRequested, setPrintRequested] = useState(false);
+
+  // Print only after the updated print count has rendered, so reprints carry the DUPLICATE mark.
+  useEffect(() => {
+    if (printRequested && receipt) {
+      setPrintRequested(false);
+      window.print();
+    }
+  }, [printRequested, receipt]);
+
+  const handlePrint = async () => {
+    if (!receipt) return;
+    try {
+      await recordPrint.mutateAsync(receipt.orNumber);
+      setPrintRequested(true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Could not print receipt. ${message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[image:var(--gradient-bg)] p-4 print:bg-white print:p-0">
+      {isStaff && (
+        <div className="mx-auto mb-4 flex max-w-xl items-center justify-between print:hidden">
+          <Button variant="outline" asChild>
+            <Link to={receipt ? `/admin/stalls/${receipt.stallDbId}` : "/admin/stalls"}>
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Ledger
+            </Link>
+          </Button>
+          {receipt && (
+            <div className="flex items-center gap-3">
+              <span className="text-sm text-muted-foreground">
+                {receipt.printCount === 0 ? "Not yet printed" : `Printed ${receipt.printCount}×`}
+              </span>
+              <Button onClick={handlePrint} disabled={recordPrint.isPending}>
+                <Printer className="mr-1 h-4 w-4" />
+                {receipt.printCount === 0 ? "Print" : "Reprint (Duplicate)"}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-muted-foreground">Loading receipt...</p>
+      ) : receipt ? (
+        <OfficialReceipt receipt={receipt} />
+      ) : (
+        <p className="text-center text-destructive">
+          Official receipt {orNumber} was not found. It may be forged or not yet synced.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptPage;
@@ -0,0 +1,98 @@
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { LogIn } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { staffSignInSchema, type StaffSignInFormData } from "@/data/staff";
+import { useSignIn, useStaffSession } from "@/hooks/use-staff-session";
+
+// Only paths within the app, so a crafted link cannot send staff to another site after signing in.
+const safeDestination = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : "/admin/stalls";
+
+const StaffLogin = () => {
+  const [searchParams] = useSearchParams();
+  const destination = safeDestination(searchParams.get("next"));
+  const { session, required } = useStaffSession();
+  const signIn = useSignIn();
+  const navigate = useNavigate();
+  const form = useForm<StaffSignInFormData>({
+    resolver: zodResolver(staffSignInSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  if (!required || session) return <Navigate to={destination} replace />;
+
+  const onSubmit = async (data: StaffSignInFormData) => {
+    try {
+      await signIn.mutateAsync({ email: data.email, password: data.password });
+      navigate(destination, { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Failed to sign in. ${message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[image:var(--gradient-bg)]">
+      <Card className="w-full max-w-md shadow-2xl border-2">
+        <CardHeader className="space-y-2 border-b bg-gradient-to-br from-primary/5 to-accent/5">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-lg bg-[image:var(--gradient-primary)]">
+              <LogIn className="h-7 w-7 text-white" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl font-bold">Staff Sign In</CardTitle>
+              <CardDescription>Sibulan Market Office</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-[image:var(--gradient-primary)] hover:opacity-90 transition-opacity"
+                disabled={signIn.isPending}
+              >
+                {signIn.isPending ? "Signing in..." : "Sign In"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StaffLogin;
@@ -0,0 +1,114 @@
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import { ScanLine } from "lucide-react";
+import { toast } from "sonner";
+import { QrScanner } from "@/components/verify/QrScanner";
+import { VerificationResultCard } from "@/components/verify/VerificationResultCard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useVerifyRegistration, type VerificationResult } from "@/hooks/use-verification";
+import { decodeQrFromFile } from "@/lib/qr-decode";
+
+const Verify = () => {
+  const verifyRegistration = useVerifyRegistration();
+  const [mode, setMode] = useState("camera");
+  const [manualCode, setManualCode] = useState("");
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  const runVerification = async (value: string) => {
+    try {
+      setResult(await verifyRegistration.mutateAsync(value));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Please try again.";
+      toast.error(`Verification failed. ${message}`);
+    }
+  };
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const value = await decodeQrFromFile(file);
+      if (!value) {
+        toast.error("No QR code found in that image.");
+        return;
+      }
+      await runVerification(value);
+    } catch (error) {
+      toast.error("Could not read that image.");
+    }
+  };
+
+  const handleManualSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (manualCode.trim()) runVerification(manualCode);
+  };
+
+  const scanAgain = () => setResult(null);
+
+  return (
+    <div className="min-h-screen bg-[image:var(--gradient-bg)] p-4">
+      <Card className="mx-auto w-full max-w-md shadow-xl">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-[image:var(--gradient-primary)]">
+              <ScanLine className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl">Verify Registration</CardTitle>
+              <CardDescription>Scan a vendor's registration QR code</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {result ? (
+            <>
+              <VerificationResultCard result={result} />
+              <Button className="w-full" onClick={scanAgain}>
+                Verify Another
+              </Button>
+            </>
+          ) : (
+            <Tabs value={mode} onValueChange={setMode}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="camera">Camera</TabsTrigger>
+                <TabsTrigger value="upload">Upload</TabsTrigger>
+                <TabsTrigger value="manual">Manual</TabsTrigger>
+              </TabsList>
+              <TabsContent value="camera" className="space-y-2">
+                <QrScanner onDecode={runVerification} paused={mode !== "camera" || verifyRegistration.isPending} />
+                <p className="text-center text-sm text-muted-foreground">
+                  {verifyRegistration.isPending ? "Checking..." : "Point the camera at the QR code."}
+                </p>
+              </TabsContent>
+              <TabsContent value="upload" className="space-y-2">
+                <Label htmlFor="qrImage">Photo of the QR code</Label>
+                <Input id="qrImage" type="file" accept="image/*" capture="environment" onChange={handleUpload} />
+              </TabsContent>
+              <TabsContent value="manual">
+                <form onSubmit={handleManualSubmit} className="space-y-2">
+                  <Label htmlFor="manualCode">Registration ID or code</Label>
+                  <Input
+                    id="manualCode"
+                    value={manualCode}
+                    onChange={(event) => setManualCode(event.target.value)}
+                    placeholder="REG-..."
+                    autoComplete="off"
+                  />
+                  <Button type="submit" className="w-full" disabled={verifyRegistration.isPending || !manualCode.trim()}>
+                    {verifyRegistration.isPending ? "Checking..." : "Verify"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Verify;
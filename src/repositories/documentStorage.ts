@@ -0,0 +1,14 @@
+import { supabase } from "@/lib/supabase";
+import { createLocalDocumentStorage } from "./localDocumentStorage";
+import { createSupabaseDocumentStorage } from "./supabaseDocumentStorage";
+
+export interface DocumentStorage {
+  upload(path: string, file: Blob): Promise<void>;
+  /** A URL the browser can display or download; may expire, so fetch it when needed. */
+  getUrl(path: string): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export const documentStorage: DocumentStorage = supabase
+  ? createSupabaseDocumentStorage(supabase)
+  : createLocalDocumentStorage();
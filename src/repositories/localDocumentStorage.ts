@@ -0,0 +1,43 @@
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { DocumentStorage } from "./documentStorage";
+
+type StoredFile = {
+  path: string;
+  blob: Blob;
+};
+
+// Files live in the same IndexedDB (or memory) store as the local repositories.
+export const createLocalDocumentStorage = (backend?: LocalBackend): DocumentStorage => {
+  const files = createLocalCollection<StoredFile>("documents", backend);
+  const objectUrls = new Map<string, string>();
+
+  return {
+    async upload(path: string, file: Blob) {
+      await files.put(path, { path, blob: file });
+      const previous = objectUrls.get(path);
+      if (previous) URL.revokeObjectURL(previous);
+      objectUrls.delete(path);
+    },
+
+    async getUrl(path: string) {
+      const cached = objectUrls.get(path);
+      if (cached) return cached;
+      const stored = await files.get(path);
+      if (!stored) {
+        throw new Error(`Document ${path} not found`);
+      }
+      const url = URL.createObjectURL(stored.blob);
+      objectUrls.set(path, url);
+      return url;
+    },
+
+    async remove(paths: string[]) {
+      for (const path of paths) {
+        await files.remove(path);
+        const url = objectUrls.get(path);
+        if (url) URL.revokeObjectURL(url);
+        objectUrls.delete(path);
+      }
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import type { OutboxEntry, OutboxMutation } from "@/data/outbox";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { OutboxRepository } from "./outboxRepository";
+
+export const createLocalOutboxRepository = (backend?: LocalBackend): OutboxRepository => {
+  const entries = createLocalCollection<OutboxEntry>("outbox", backend);
+
+  return {
+    async list() {
+      return (await entries.list()).sort((a, b) => a.id - b.id);
+    },
+
+    async add(mutation: OutboxMutation) {
+      const id = await entries.nextId();
+      return entries.put(id, {
+        ...mutation,
+        id,
+        queuedAt: new Date().toISOString(),
+        status: "pending",
+        conflict: "",
+      });
+    },
+
+    async update(id, changes) {
+      const existing = await entries.get(id);
+      if (!existing) {
+        throw new Error(`Queued change ${id} not found`);
+      }
+      return entries.put(id, { ...existing, ...changes } as OutboxEntry);
+    },
+
+    remove: (id) => entries.remove(id),
+  };
+};
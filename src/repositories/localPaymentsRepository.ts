@@ -0,0 +1,31 @@
+import type { NewPayment, Payment } from "@/data/payments";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { PaymentsRepository } from "./paymentsRepository";
+
+// Payments recorded before surcharges or idempotency keys were tracked carry none.
+const withDefaults = (payment: Payment): Payment => ({ surcharges: [], idempotencyKey: "", ...payment });
+
+const byPaymentOrder = (a: Payment, b: Payment) => a.paidOn.localeCompare(b.paidOn) || a.dbId - b.dbId;
+
+export const createLocalPaymentsRepository = (backend?: LocalBackend): PaymentsRepository => {
+  const payments = createLocalCollection<Payment>("payments", backend);
+
+  return {
+    async list() {
+      return (await payments.list()).map(withDefaults).sort(byPaymentOrder);
+    },
+
+    async listByStall(stallDbId: number) {
+      const records = await payments.list();
+      return records
+        .filter((payment) => payment.stallDbId === stallDbId)
+        .map(withDefaults)
+        .sort(byPaymentOrder);
+    },
+
+    async create(payment: NewPayment) {
+      const dbId = await payments.nextId();
+      return payments.put(dbId, { ...payment, dbId, createdAt: new Date().toISOString() });
+    },
+  };
+};
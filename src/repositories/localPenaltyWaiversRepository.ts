@@ -0,0 +1,31 @@
+import type { NewPenaltyWaiver, PenaltyWaiver } from "@/data/penalties";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { PenaltyWaiversRepository } from "./penaltyWaiversRepository";
+
+// Waivers recorded before the tenant was kept on them belong to no one.
+const withDefaults = (waiver: PenaltyWaiver): PenaltyWaiver => ({ vendor: "", ...waiver });
+
+const byWaiverOrder = (a: PenaltyWaiver, b: PenaltyWaiver) => a.createdAt.localeCompare(b.createdAt) || a.dbId - b.dbId;
+
+export const createLocalPenaltyWaiversRepository = (backend?: LocalBackend): PenaltyWaiversRepository => {
+  const waivers = createLocalCollection<PenaltyWaiver>("penalty_waivers", backend);
+
+  return {
+    async list() {
+      return (await waivers.list()).map(withDefaults).sort(byWaiverOrder);
+    },
+
+    async listByStall(stallDbId: number) {
+      const records = await waivers.list();
+      return records
+        .filter((waiver) => waiver.stallDbId === stallDbId)
+        .map(withDefaults)
+        .sort(byWaiverOrder);
+    },
+
+    async create(waiver: NewPenaltyWaiver) {
+      const dbId = await waivers.nextId();
+      return waivers.put(dbId, { ...waiver, dbId, createdAt: new Date().toISOString() });
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import type { Payment } from "@/data/payments";
+import { PAYMENT_METHOD_LABELS } from "@/data/payments";
+import { totalSurcharge } from "@/data/penalties";
+import { formatOrNumber, type Receipt } from "@/data/receipts";
+import type { StallRecord } from "@/data/stalls";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { ReceiptsRepository } from "./receiptsRepository";
+
+export const createLocalReceiptsRepository = (backend?: LocalBackend): ReceiptsRepository => {
+  const receipts = createLocalCollection<Receipt>("receipts", backend);
+  const payments = createLocalCollection<Payment>("payments", backend);
+  const stalls = createLocalCollection<StallRecord>("stalls", backend);
+
+  const get = async (orNumber: string) => {
+    const receipt = await receipts.get(orNumber);
+    return receipt ? { surcharge: 0, ...receipt } : null;
+  };
+
+  return {
+    async issue(paymentDbId: number) {
+      const payment = await payments.get(paymentDbId);
+      if (!payment) {
+        throw new Error(`Payment ${paymentDbId} not found`);
+      }
+      if (payment.orNumber) {
+        const existing = await get(payment.orNumber);
+        if (existing) return existing;
+      }
+      const stall = await stalls.get(payment.stallDbId);
+
+      const sequence = await receipts.nextId();
+      const receipt: Receipt = {
+        orNumber: formatOrNumber(sequence),
+        sequence,
+        paymentDbId,
+        stallDbId: payment.stallDbId,
+        stallName: stall?.name ?? `stall-${payment.stallDbId}`,
+        vendor: payment.vendor,
+        periodStart: payment.periodStart,
+        periodEnd: payment.periodEnd,
+        amount: payment.amount,
+        surcharge: totalSurcharge({ surcharges: payment.surcharges ?? [] }),
+        method: PAYMENT_METHOD_LABELS[payment.method],
+        collector: payment.collector,
+        paidOn: payment.paidOn,
+        issuedAt: new Date().toISOString(),
+        printCount: 0,
+      };
+      await receipts.put(receipt.orNumber, receipt);
+      await payments.put(paymentDbId, { ...payment, orNumber: receipt.orNumber });
+      return receipt;
+    },
+
+    get,
+
+    async recordPrint(orNumber: string) {
+      const receipt = await get(orNumber);
+      if (!receipt) {
+        throw new Error(`Receipt ${orNumber} not found`);
+      }
+      return receipts.put(orNumber, { ...receipt, printCount: receipt.printCount + 1 });
+    },
+  };
+};
@@ -0,0 +1,117 @@
+import { findDuplicates, toSubmissionConflicts, type ConflictCandidate } from "@/data/duplicates";
+import {
+  generateRegistrationId,
+  phonesMatch,
+  toApplicantStatusView,
+  type NewRegistration,
+  type RegistrationRecord,
+  type RegistrationUpdate,
+} from "@/data/registrations";
+import { canHold, type StallRecord } from "@/data/stalls";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import { createRegistrationToken, verifyRegistrationToken } from "@/lib/registration-token";
+import type { RegistrationsRepository } from "./registrationsRepository";
+
+type StoredRegistration = Omit<RegistrationRecord, "status"> & {
+  status?: RegistrationRecord["status"] | "pending";
+  address?: string; // free-text address from before it was split into parts
+};
+
+// Records saved before the review workflow existed are read back as newly submitted, and
+// their old one-line address is kept as the street so reviewers still see it.
+const withDefaults = ({ address, ...record }: StoredRegistration): RegistrationRecord => ({
+  stallDbId: null,
+  reviewNotes: [],
+  rejectionReason: "",
+  missingRequirements: [],
+  documents: [],
+  reviewedBy: "",
+  reviewedAt: null,
+  requestedStallDbId: null,
+  street: address ?? "",
+  barangay: "",
+  municipality: "",
+  province: "",
+  ...record,
+  status: !record.status || record.status === "pending" ? "submitted" : record.status,
+});
+
+export const createLocalRegistrationsRepository = (backend?: LocalBackend): RegistrationsRepository => {
+  const registrations = createLocalCollection<StoredRegistration>("registrations", backend);
+  // The stalls repository's collection, for stall conflicts and the requested stall's hold.
+  const stalls = createLocalCollection<StallRecord>("stalls", backend);
+
+  const get = async (registrationId: string) => {
+    const record = await registrations.get(registrationId);
+    return record ? withDefaults(record) : null;
+  };
+
+  return {
+    async create({ stallHolder, ...data }: NewRegistration) {
+      const now = new Date();
+      const stall = await stalls.get(data.requestedStallDbId);
+      if (!stall) {
+        throw new Error(`Stall stall-${data.requestedStallDbId} not found`);
+      }
+      if (!canHold(stall, stallHolder, now)) {
+        throw new Error(`${stall.name} is no longer available`);
+      }
+      const record: RegistrationRecord = {
+        ...data,
+        stallName: stall.name,
+        stallType: stall.type,
+        monthlyRent: stall.monthlyRent,
+        requestedStallDbId: stall.dbId,
+        registrationId: generateRegistrationId(now),
+        dbId: await registrations.nextId(),
+        status: "submitted",
+        stallDbId: null,
+        reviewNotes: [],
+        rejectionReason: "",
+        reviewedBy: "",
+        reviewedAt: null,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      await registrations.put(record.registrationId, record);
+      // The application keeps its stall until a reviewer decides.
+      await stalls.put(stall.dbId, { ...stall, heldBy: record.registrationId, heldUntil: null });
+      return record;
+    },
+
+    get,
+
+    async list() {
+      const records = (await registrations.list()).map(withDefaults);
+      return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async update(registrationId: string, changes: RegistrationUpdate) {
+      const existing = await get(registrationId);
+      if (!existing) {
+        throw new Error(`Registration ${registrationId} not found`);
+      }
+      const updated: RegistrationRecord = {
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+      await registrations.put(registrationId, updated);
+      return updated;
+    },
+
+    async lookupForApplicant(registrationId: string, phone: string) {
+      const record = await get(registrationId.trim());
+      return record && phonesMatch(record.phone, phone) ? toApplicantStatusView(record) : null;
+    },
+
+    async checkConflicts(candidate: ConflictCandidate) {
+      const all = (await registrations.list()).map(withDefaults);
+      return toSubmissionConflicts(findDuplicates(candidate, all, await stalls.list()));
+    },
+
+    issueToken: (registrationId: string) => createRegistrationToken(registrationId),
+
+    verifyToken: (token: string) => verifyRegistrationToken(token),
+  };
+};
@@ -0,0 +1,53 @@
+import {
+  findClosingRemittance,
+  type NewRemittance,
+  type Remittance,
+  type RemittanceReview,
+} from "@/data/remittances";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { RemittancesRepository } from "./remittancesRepository";
+
+const byRemittanceOrder = (a: Remittance, b: Remittance) =>
+  a.day.localeCompare(b.day) || a.submittedAt.localeCompare(b.submittedAt) || a.dbId - b.dbId;
+
+export const createLocalRemittancesRepository = (backend?: LocalBackend): RemittancesRepository => {
+  const remittances = createLocalCollection<Remittance>("remittances", backend);
+
+  return {
+    async list() {
+      return (await remittances.list()).sort(byRemittanceOrder);
+    },
+
+    async listByDay(day: string) {
+      const records = await remittances.list();
+      return records.filter((remittance) => remittance.day === day).sort(byRemittanceOrder);
+    },
+
+    async submit(remittance: NewRemittance) {
+      if (findClosingRemittance(await remittances.list(), remittance.collector, remittance.day)) {
+        throw new Error(`${remittance.collector} has already remitted for ${remittance.day}`);
+      }
+      const dbId = await remittances.nextId();
+      return remittances.put(dbId, {
+        ...remittance,
+        dbId,
+        status: "submitted",
+        submittedAt: new Date().toISOString(),
+        reviewedBy: "",
+        reviewedAt: null,
+        reviewNote: "",
+      });
+    },
+
+    async review(dbId: number, review: RemittanceReview) {
+      const existing = await remittances.get(dbId);
+      if (!existing) {
+        throw new Error(`Remittance ${dbId} not found`);
+      }
+      if (existing.status !== "submitted") {
+        throw new Error(`${existing.collector}'s remittance for ${existing.day} has already been reviewed`);
+      }
+      return remittances.put(dbId, { ...existing, ...review, reviewedAt: new Date().toISOString() });
+    },
+  };
+};
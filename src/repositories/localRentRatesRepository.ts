@@ -0,0 +1,23 @@
+import type { NewRentRate, RentRate } from "@/data/rentRates";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { RentRatesRepository } from "./rentRatesRepository";
+
+export const createLocalRentRatesRepository = (backend?: LocalBackend): RentRatesRepository => {
+  const rates = createLocalCollection<RentRate>("rent_rates", backend);
+
+  return {
+    async list() {
+      return (await rates.list()).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.dbId - b.dbId);
+    },
+
+    async createMany(newRates: NewRentRate[]) {
+      const createdAt = new Date().toISOString();
+      const created: RentRate[] = [];
+      for (const rate of newRates) {
+        const dbId = await rates.nextId();
+        created.push(await rates.put(dbId, { ...rate, dbId, createdAt }));
+      }
+      return created;
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import {
+  DEFAULT_STALL_TYPES,
+  findStallType,
+  type NewStallType,
+  type StallType,
+  type StallTypeUpdate,
+} from "@/data/stallTypes";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { StallTypesRepository } from "./stallTypesRepository";
+
+export const createLocalStallTypesRepository = (backend?: LocalBackend): StallTypesRepository => {
+  const stallTypes = createLocalCollection<StallType>("stall_types", backend);
+  let seeded: Promise<void> | null = null;
+
+  const insert = async (stallType: NewStallType) => {
+    const dbId = await stallTypes.nextId();
+    const now = new Date().toISOString();
+    return stallTypes.put(dbId, { ...stallType, dbId, createdAt: now, updatedAt: now });
+  };
+
+  const ensureSeeded = () => {
+    if (!seeded) {
+      seeded = (async () => {
+        if ((await stallTypes.list()).length > 0) return;
+        for (const stallType of DEFAULT_STALL_TYPES) {
+          await insert(stallType);
+        }
+      })();
+    }
+    return seeded;
+  };
+
+  const list = async () => {
+    await ensureSeeded();
+    return (await stallTypes.list()).sort((a, b) => a.dbId - b.dbId);
+  };
+
+  return {
+    list,
+
+    async create(stallType: NewStallType) {
+      if (findStallType(await list(), stallType.name)) {
+        throw new Error(`Stall type ${stallType.name} already exists`);
+      }
+      return insert(stallType);
+    },
+
+    async update(dbId: number, changes: StallTypeUpdate) {
+      await ensureSeeded();
+      const existing = await stallTypes.get(dbId);
+      if (!existing) {
+        throw new Error(`Stall type ${dbId} not found`);
+      }
+      return stallTypes.put(dbId, { ...existing, ...changes, updatedAt: new Date().toISOString() });
+    },
+  };
+};
@@ -0,0 +1,125 @@
+import {
+  applyOccupancy,
+  canHold,
+  createInitialStalls,
+  stallHoldExpiry,
+  type StallRecord,
+  type StallTenancy,
+  type StallUpdate,
+  type VacateStallInput,
+} from "@/data/stalls";
+import { createLocalCollection, type LocalBackend } from "@/lib/local-store";
+import type { StallsRepository } from "./stallsRepository";
+
+// Stalls saved before holds, the floor map or the rent schedule existed lack those fields.
+const withDefaults = (stall: StallRecord): StallRecord => ({
+  heldBy: "",
+  heldUntil: null,
+  section: "",
+  row: "",
+  position: null,
+  areaSqm: null,
+  rentHistory: [],
+  ...stall,
+});
+
+export const createLocalStallsRepository = (backend?: LocalBackend): StallsRepository => {
+  const stalls = createLocalCollection<StallRecord>("stalls", backend);
+  const tenancies = createLocalCollection<StallTenancy>("stall_tenancies", backend);
+  let seeded: Promise<void> | null = null;
+
+  const ensureSeeded = () => {
+    if (!seeded) {
+      seeded = (async () => {
+        if ((await stalls.list()).length > 0) return;
+        await Promise.all(createInitialStalls().map((stall) => stalls.put(stall.dbId, stall)));
+      })();
+    }
+    return seeded;
+  };
+
+  const list = async () => {
+    await ensureSeeded();
+    const records = (await stalls.list()).map(withDefaults);
+    return records.sort((a, b) => a.dbId - b.dbId);
+  };
+
+  const get = async (dbId: number) => {
+    await ensureSeeded();
+    const stall = await stalls.get(dbId);
+    return stall ? withDefaults(stall) : null;
+  };
+
+  return {
+    list,
+
+    // The browser's own store has nothing to hide from the person using it.
+    listForApplicants: () => list(),
+
+    get,
+
+    async create(stall: StallRecord) {
+      if (await get(stall.dbId)) {
+        throw new Error(`Stall ${stall.id} already exists`);
+      }
+      return stalls.put(stall.dbId, stall);
+    },
+
+    async update(dbId: number, changes: StallUpdate) {
+      const existing = await get(dbId);
+      if (!existing) {
+        throw new Error(`Stall stall-${dbId} not found`);
+      }
+      return stalls.put(dbId, { ...existing, ...changes });
+    },
+
+    async vacate(dbId: number, input: VacateStallInput) {
+      const existing = await get(dbId);
+      if (!existing) {
+        throw new Error(`Stall stall-${dbId} not found`);
+      }
+      if (!existing.vendor) {
+        throw new Error(`${existing.name} is already vacant`);
+      }
+      const tenancyId = await tenancies.nextId();
+      await tenancies.put(tenancyId, {
+        id: String(tenancyId),
+        stallDbId: dbId,
+        vendor: existing.vendor,
+        contact: existing.contact,
+        monthlyRent: existing.monthlyRent,
+        lastPayment: existing.lastPayment,
+        nextDue: existing.nextDue,
+        vacatedOn: input.vacatedOn,
+        reason: input.reason,
+      });
+      return stalls.put(dbId, applyOccupancy({ ...existing, vendor: "" }));
+    },
+
+    async listTenancies(dbId: number) {
+      const records = await tenancies.list();
+      return records
+        .filter((tenancy) => tenancy.stallDbId === dbId)
+        .sort((a, b) => b.vacatedOn.localeCompare(a.vacatedOn));
+    },
+
+    async hold(dbId: number, holder: string, until: string) {
+      const existing = await get(dbId);
+      if (!existing) {
+        throw new Error(`Stall stall-${dbId} not found`);
+      }
+      if (!canHold(existing, holder)) {
+        throw new Error(`${existing.name} is no longer available`);
+      }
+      const latest = stallHoldExpiry();
+      return stalls.put(dbId, { ...existing, heldBy: holder, heldUntil: until < latest ? until : latest });
+    },
+
+    async release(dbId: number, holder: string) {
+      const existing = await get(dbId);
+      if (existing?.heldBy === holder) {
+        await stalls.put(dbId, { ...existing, heldBy: "", heldUntil: null });
+      }
+    },
+  };
+};
@@ -0,0 +1,13 @@
+import type { OutboxEntry, OutboxMutation } from "@/data/outbox";
+import { createLocalOutboxRepository } from "./localOutboxRepository";
+
+export interface OutboxRepository {
+  list(): Promise<OutboxEntry[]>;
+  add(mutation: OutboxMutation): Promise<OutboxEntry>;
+  update(id: number, changes: Partial<Omit<OutboxEntry, "id" | "kind">>): Promise<OutboxEntry>;
+  remove(id: number): Promise<void>;
+}
+
+// Work queued while offline belongs to this device, so the outbox is kept in IndexedDB even
+// when the market records themselves live in Supabase.
+export const outboxRepository: OutboxRepository = createLocalOutboxRepository();
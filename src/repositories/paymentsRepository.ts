@@ -0,0 +1,14 @@
+import type { NewPayment, Payment } from "@/data/payments";
+import { supabase } from "@/lib/supabase";
+import { createLocalPaymentsRepository } from "./localPaymentsRepository";
+import { createSupabasePaymentsRepository } from "./supabasePaymentsRepository";
+
+export interface PaymentsRepository {
+  list(): Promise<Payment[]>;
+  listByStall(stallDbId: number): Promise<Payment[]>;
+  create(payment: NewPayment): Promise<Payment>;
+}
+
+export const paymentsRepository: PaymentsRepository = supabase
+  ? createSupabasePaymentsRepository(supabase)
+  : createLocalPaymentsRepository();
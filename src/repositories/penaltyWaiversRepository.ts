@@ -0,0 +1,15 @@
+import type { NewPenaltyWaiver, PenaltyWaiver } from "@/data/penalties";
+import { supabase } from "@/lib/supabase";
+import { createLocalPenaltyWaiversRepository } from "./localPenaltyWaiversRepository";
+import { createSupabasePenaltyWaiversRepository } from "./supabasePenaltyWaiversRepository";
+
+export interface PenaltyWaiversRepository {
+  list(): Promise<PenaltyWaiver[]>;
+  listByStall(stallDbId: number): Promise<PenaltyWaiver[]>;
+  /** Waivers are an audit trail: they are never edited or removed once approved. */
+  create(waiver: NewPenaltyWaiver): Promise<PenaltyWaiver>;
+}
+
+export const penaltyWaiversRepository: PenaltyWaiversRepository = supabase
+  ? createSupabasePenaltyWaiversRepository(supabase)
+  : createLocalPenaltyWaiversRepository();
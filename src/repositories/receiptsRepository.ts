@@ -0,0 +1,19 @@
+import type { Receipt } from "@/data/receipts";
+import { supabase } from "@/lib/supabase";
+import { createLocalReceiptsRepository } from "./localReceiptsRepository";
+import { createSupabaseReceiptsRepository } from "./supabaseReceiptsRepository";
+
+export interface ReceiptsRepository {
+  /**
+   * Assigns the next OR number to a payment. Numbers are only consumed together with the
+   * receipt they belong to, so the sequence has no gaps. Issuing twice returns the same receipt.
+   */
+  issue(paymentDbId: number): Promise<Receipt>;
+  get(orNumber: string): Promise<Receipt | null>;
+  /** Counts a print of the receipt and returns it with the updated `printCount`. */
+  recordPrint(orNumber: string): Promise<Receipt>;
+}
+
+export const receiptsRepository: ReceiptsRepository = supabase
+  ? createSupabaseReceiptsRepository(supabase)
+  : createLocalReceiptsRepository();
@@ -0,0 +1,29 @@
+import type { ConflictCandidate, SubmissionConflicts } from "@/data/duplicates";
+import type {
+  ApplicantStatusView,
+  NewRegistration,
+  RegistrationRecord,
+  RegistrationUpdate,
+} from "@/data/registrations";
+import type { RegistrationTokenResult } from "@/lib/registration-token";
+import { supabase } from "@/lib/supabase";
+import { createLocalRegistrationsRepository } from "./localRegistrationsRepository";
+import { createSupabaseRegistrationsRepository } from "./supabaseRegistrationsRepository";
+
+export interface RegistrationsRepository {
+  create(data: NewRegistration): Promise<RegistrationRecord>;
+  get(registrationId: string): Promise<RegistrationRecord | null>;
+  list(): Promise<RegistrationRecord[]>;
+  update(registrationId: string, changes: RegistrationUpdate): Promise<RegistrationRecord>;
+  /** Public lookup: returns nothing unless the phone number matches the application. */
+  lookupForApplicant(registrationId: string, phone: string): Promise<ApplicantStatusView | null>;
+  /** Public pre-submission check for a repeat application or a stall that is already taken. */
+  checkConflicts(candidate: ConflictCandidate): Promise<SubmissionConflicts>;
+  /** Signed QR code for an application just submitted. */
+  issueToken(registrationId: string): Promise<string>;
+  verifyToken(token: string): Promise<RegistrationTokenResult>;
+}
+
+export const registrationsRepository: RegistrationsRepository = supabase
+  ? createSupabaseRegistrationsRepository(supabase)
+  : createLocalRegistrationsRepository();
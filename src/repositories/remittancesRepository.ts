@@ -0,0 +1,17 @@
+import type { NewRemittance, Remittance, RemittanceReview } from "@/data/remittances";
+import { supabase } from "@/lib/supabase";
+import { createLocalRemittancesRepository } from "./localRemittancesRepository";
+import { createSupabaseRemittancesRepository } from "./supabaseRemittancesRepository";
+
+export interface RemittancesRepository {
+  list(): Promise<Remittance[]>;
+  listByDay(day: string): Promise<Remittance[]>;
+  /** Closes the collector's day; fails if it is already closed. Returned remittances are kept as history. */
+  submit(remittance: NewRemittance): Promise<Remittance>;
+  /** Approves or returns a remittance awaiting approval. */
+  review(dbId: number, review: RemittanceReview): Promise<Remittance>;
+}
+
+export const remittancesRepository: RemittancesRepository = supabase
+  ? createSupabaseRemittancesRepository(supabase)
+  : createLocalRemittancesRepository();
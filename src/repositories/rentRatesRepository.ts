@@ -0,0 +1,14 @@
+import type { NewRentRate, RentRate } from "@/data/rentRates";
+import { supabase } from "@/lib/supabase";
+import { createLocalRentRatesRepository } from "./localRentRatesRepository";
+import { createSupabaseRentRatesRepository } from "./supabaseRentRatesRepository";
+
+export interface RentRatesRepository {
+  list(): Promise<RentRate[]>;
+  /** Adds every line of an ordinance. Rates are never edited or removed once adopted. */
+  createMany(rates: NewRentRate[]): Promise<RentRate[]>;
+}
+
+export const rentRatesRepository: RentRatesRepository = supabase
+  ? createSupabaseRentRatesRepository(supabase)
+  : createLocalRentRatesRepository();
@@ -0,0 +1,17 @@
+import type { StaffSession } from "@/data/staff";
+import { supabase } from "@/lib/supabase";
+import { createSupabaseStaffAuthRepository } from "./supabaseStaffAuthRepository";
+
+export interface StaffAuthRepository {
+  getSession(): Promise<StaffSession | null>;
+  /** Calls `listener` whenever staff sign in or out; returns the unsubscribe function. */
+  onChange(listener: (session: StaffSession | null) => void): () => void;
+  signIn(email: string, password: string): Promise<StaffSession>;
+  signOut(): Promise<void>;
+}
+
+// Null without Supabase: the local IndexedDB mode keeps every record in this browser, so there
+// is no server to sign in to and the staff pages stay open.
+export const staffAuthRepository: StaffAuthRepository | null = supabase
+  ? createSupabaseStaffAuthRepository(supabase)
+  : null;
@@ -0,0 +1,15 @@
+import type { NewStallType, StallType, StallTypeUpdate } from "@/data/stallTypes";
+import { supabase } from "@/lib/supabase";
+import { createLocalStallTypesRepository } from "./localStallTypesRepository";
+import { createSupabaseStallTypesRepository } from "./supabaseStallTypesRepository";
+
+export interface StallTypesRepository {
+  list(): Promise<StallType[]>;
+  /** Fails when a type with the same name (ignoring case and spacing) already exists. */
+  create(stallType: NewStallType): Promise<StallType>;
+  update(dbId: number, changes: StallTypeUpdate): Promise<StallType>;
+}
+
+export const stallTypesRepository: StallTypesRepository = supabase
+  ? createSupabaseStallTypesRepository(supabase)
+  : createLocalStallTypesRepository();
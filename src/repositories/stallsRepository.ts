@@ -0,0 +1,31 @@
+import type { StallRecord, StallTenancy, StallUpdate, VacateStallInput } from "@/data/stalls";
+import { supabase } from "@/lib/supabase";
+import { createLocalStallsRepository } from "./localStallsRepository";
+import { createSupabaseStallsRepository } from "./supabaseStallsRepository";
+
+export interface StallsRepository {
+  list(): Promise<StallRecord[]>;
+  /**
+   * Public: every stall for the registration form, without its tenant's name, contact or payment
+   * dates. Only `holder`'s own hold is named; another applicant's hold shows as held by someone else.
+   */
+  listForApplicants(holder: string): Promise<StallRecord[]>;
+  get(dbId: number): Promise<StallRecord | null>;
+  create(stall: StallRecord): Promise<StallRecord>;
+  update(dbId: number, changes: StallUpdate): Promise<StallRecord>;
+  /** Archives the current tenant in the stall's history, then clears the vendor. */
+  vacate(dbId: number, input: VacateStallInput): Promise<StallRecord>;
+  listTenancies(dbId: number): Promise<StallTenancy[]>;
+  /**
+   * Holds a vacant stall for an applicant's form session until `until`, at most STALL_HOLD_MINUTES
+   * away. Fails when the stall is occupied, requested by a submitted application or held by
+   * another session. Submitting the application turns the hold into one that lasts until review.
+   */
+  hold(dbId: number, holder: string, until: string): Promise<StallRecord>;
+  /** Clears the hold if `holder` still has it. Only staff can release an application's hold. */
+  release(dbId: number, holder: string): Promise<void>;
+}
+
+export const stallsRepository: StallsRepository = supabase
+  ? createSupabaseStallsRepository(supabase)
+  : createLocalStallsRepository();
@@ -0,0 +1,25 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DocumentStorage } from "./documentStorage";
+
+const BUCKET = "registration-documents";
+// The bucket is private; reviewers get short-lived signed links.
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const createSupabaseDocumentStorage = (client: SupabaseClient): DocumentStorage => ({
+  async upload(path: string, file: Blob) {
+    const { error } = await client.storage.from(BUCKET).upload(path, file, { contentType: file.type, upsert: false });
+    if (error) throw error;
+  },
+
+  async getUrl(path: string) {
+    const { data, error } = await client.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+
+  async remove(paths: string[]) {
+    if (paths.length === 0) return;
+    const { error } = await client.storage.from(BUCKET).remove(paths);
+    if (error) throw error;
+  },
+});
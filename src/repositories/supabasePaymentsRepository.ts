@@ -0,0 +1,83 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NewPayment, Payment, PaymentAllocation, PaymentMethod } from "@/data/payments";
+import { toError } from "@/lib/supabase";
+import type { PaymentsRepository } from "./paymentsRepository";
+
+const TABLE = "payments";
+
+type PaymentRow = {
+  id: number;
+  stall_id: number;
+  vendor: string;
+  amount: number;
+  method: PaymentMethod;
+  or_number: string;
+  collector: string;
+  paid_on: string;
+  period_start: string;
+  period_end: string;
+  allocations: PaymentAllocation[];
+  surcharges: PaymentAllocation[];
+  notes: string;
+  idempotency_key: string;
+  created_at: string;
+};
+
+const fromRow = (row: PaymentRow): Payment => ({
+  dbId: row.id,
+  stallDbId: row.stall_id,
+  vendor: row.vendor,
+  amount: Number(row.amount),
+  method: row.method,
+  orNumber: row.or_number,
+  collector: row.collector,
+  paidOn: row.paid_on,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  allocations: row.allocations.map((allocation) => ({ ...allocation, amount: Number(allocation.amount) })),
+  surcharges: row.surcharges.map((surcharge) => ({ ...surcharge, amount: Number(surcharge.amount) })),
+  notes: row.notes,
+  idempotencyKey: row.idempotency_key,
+  createdAt: row.created_at,
+});
+
+const toRow = (payment: NewPayment): Omit<PaymentRow, "id" | "created_at"> => ({
+  stall_id: payment.stallDbId,
+  vendor: payment.vendor,
+  amount: payment.amount,
+  method: payment.method,
+  or_number: payment.orNumber,
+  collector: payment.collector,
+  paid_on: payment.paidOn,
+  period_start: payment.periodStart,
+  period_end: payment.periodEnd,
+  allocations: payment.allocations,
+  surcharges: payment.surcharges,
+  notes: payment.notes,
+  idempotency_key: payment.idempotencyKey,
+});
+
+export const createSupabasePaymentsRepository = (client: SupabaseClient): PaymentsRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("paid_on").order("id");
+    if (error) throw toError(error);
+    return (rows as PaymentRow[]).map(fromRow);
+  },
+
+  async listByStall(stallDbId: number) {
+    const { data: rows, error } = await client
+      .from(TABLE)
+      .select()
+      .eq("stall_id", stallDbId)
+      .order("paid_on")
+      .order("id");
+    if (error) throw toError(error);
+    return (rows as PaymentRow[]).map(fromRow);
+  },
+
+  async create(payment: NewPayment) {
+    const { data: row, error } = await client.from(TABLE).insert(toRow(payment)).select().single();
+    if (error) throw toError(error);
+    return fromRow(row as PaymentRow);
+  },
+});
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NewPenaltyWaiver, PenaltyWaiver } from "@/data/penalties";
+import { toError } from "@/lib/supabase";
+import type { PenaltyWaiversRepository } from "./penaltyWaiversRepository";
+
+const TABLE = "penalty_waivers";
+
+type PenaltyWaiverRow = {
+  id: number;
+  stall_id: number;
+  vendor: string;
+  period: string;
+  amount: number;
+  reason: string;
+  approved_by: string;
+  created_at: string;
+};
+
+const fromRow = (row: PenaltyWaiverRow): PenaltyWaiver => ({
+  dbId: row.id,
+  stallDbId: row.stall_id,
+  vendor: row.vendor,
+  period: row.period,
+  amount: Number(row.amount),
+  reason: row.reason,
+  approvedBy: row.approved_by,
+  createdAt: row.created_at,
+});
+
+const toRow = (waiver: NewPenaltyWaiver): Omit<PenaltyWaiverRow, "id" | "created_at"> => ({
+  stall_id: waiver.stallDbId,
+  vendor: waiver.vendor,
+  period: waiver.period,
+  amount: waiver.amount,
+  reason: waiver.reason,
+  approved_by: waiver.approvedBy,
+});
+
+export const createSupabasePenaltyWaiversRepository = (client: SupabaseClient): PenaltyWaiversRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("created_at").order("id");
+    if (error) throw toError(error);
+    return (rows as PenaltyWaiverRow[]).map(fromRow);
+  },
+
+  async listByStall(stallDbId: number) {
+    const { data: rows, error } = await client
+      .from(TABLE)
+      .select()
+      .eq("stall_id", stallDbId)
+      .order("created_at")
+      .order("id");
+    if (error) throw toError(error);
+    return (rows as PenaltyWaiverRow[]).map(fromRow);
+  },
+
+  async create(waiver: NewPenaltyWaiver) {
+    const { data: row, error } = await client.from(TABLE).insert(toRow(waiver)).select().single();
+    if (error) throw toError(error);
+    return fromRow(row as PenaltyWaiverRow);
+  },
+});
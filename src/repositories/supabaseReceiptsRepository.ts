@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Receipt } from "@/data/receipts";
+import { toError } from "@/lib/supabase";
+import type { ReceiptsRepository } from "./receiptsRepository";
+
+type ReceiptRow = {
+  or_number: string;
+  sequence: number;
+  payment_id: number;
+  stall_id: number;
+  stall_name: string;
+  vendor: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  surcharge: number;
+  method: string;
+  collector: string;
+  paid_on: string;
+  issued_at: string;
+  print_count: number;
+};
+
+const fromRow = (row: ReceiptRow): Receipt => ({
+  orNumber: row.or_number,
+  sequence: row.sequence,
+  paymentDbId: row.payment_id,
+  stallDbId: row.stall_id,
+  stallName: row.stall_name,
+  vendor: row.vendor,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  amount: Number(row.amount),
+  surcharge: Number(row.surcharge),
+  method: row.method,
+  collector: row.collector,
+  paidOn: row.paid_on,
+  issuedAt: row.issued_at,
+  printCount: row.print_count,
+});
+
+export const createSupabaseReceiptsRepository = (client: SupabaseClient): ReceiptsRepository => ({
+  async issue(paymentDbId: number) {
+    const { data: row, error } = await client.rpc("issue_receipt", { p_payment_id: paymentDbId }).single();
+    if (error) throw toError(error);
+    return fromRow(row as ReceiptRow);
+  },
+
+  async get(orNumber: string) {
+    // Anyone with a receipt's QR code may open it, but the anon key cannot read the table itself.
+    const { data: row, error } = await client.rpc("lookup_receipt", { p_or_number: orNumber }).maybeSingle();
+    if (error) throw toError(error);
+    return row ? fromRow(row as ReceiptRow) : null;
+  },
+
+  async recordPrint(orNumber: string) {
+    const { data: row, error } = await client.rpc("record_receipt_print", { p_or_number: orNumber }).single();
+    if (error) throw toError(error);
+    return fromRow(row as ReceiptRow);
+  },
+});
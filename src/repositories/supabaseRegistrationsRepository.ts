@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RegistrationDocument } from "@/data/documents";
+import type { ConflictCandidate, SubmissionConflicts } from "@/data/duplicates";
+import {
+  generateRegistrationId,
+  type ApplicantStatusView,
+  type NewRegistration,
+  type RegistrationRecord,
+  type RegistrationRequirement,
+  type RegistrationStatus,
+  type RegistrationUpdate,
+  type ReviewNote,
+} from "@/data/registrations";
+import type { RegistrationTokenFailure, RegistrationTokenResult } from "@/lib/registration-token";
+import { toError } from "@/lib/supabase";
+import type { RegistrationsRepository } from "./registrationsRepository";
+
+const TABLE = "registrations";
+
+type RegistrationRow = {
+  id: number;
+  registration_id: string;
+  first_name: string;
+  last_name: string;
+  phone: string;
+  street: string;
+  barangay: string;
+  municipality: string;
+  province: string;
+  requested_stall_id: number | null;
+  stall_name: string;
+  stall_type: string;
+  monthly_rent: number;
+  status: RegistrationStatus;
+  stall_id: number | null;
+  review_notes: ReviewNote[];
+  rejection_reason: string;
+  missing_requirements: RegistrationRequirement[];
+  documents: RegistrationDocument[];
+  reviewed_by: string;
+  reviewed_at: string | null;
+  stall_holder: string;
+  created_at: string;
+  updated_at: string;
+};
+
+const fromRow = (row: RegistrationRow): RegistrationRecord => ({
+  registrationId: row.registration_id,
+  dbId: row.id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  phone: row.phone,
+  street: row.street,
+  barangay: row.barangay,
+  municipality: row.municipality,
+  province: row.province,
+  requestedStallDbId: row.requested_stall_id,
+  stallName: row.stall_name,
+  stallType: row.stall_type,
+  monthlyRent: Number(row.monthly_rent),
+  status: row.status,
+  stallDbId: row.stall_id,
+  reviewNotes: row.review_notes ?? [],
+  rejectionReason: row.rejection_reason,
+  missingRequirements: row.missing_requirements ?? [],
+  documents: row.documents ?? [],
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+type ApplicantStatusRow = Pick<
+  RegistrationRow,
+  "registration_id" | "status" | "stall_name" | "stall_type" | "rejection_reason" | "missing_requirements" | "created_at" | "updated_at"
+>;
+
+const fromApplicantStatusRow = (row: ApplicantStatusRow): ApplicantStatusView => ({
+  registrationId: row.registration_id,
+  status: row.status,
+  stallName: row.stall_name,
+  stallType: row.stall_type,
+  rejectionReason: row.rejection_reason,
+  missingRequirements: row.missing_requirements ?? [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (data: RegistrationUpdate & { requestedStallDbId?: number }): Partial<RegistrationRow> => {
+  const row: Partial<RegistrationRow> = {};
+  if (data.firstName !== undefined) row.first_name = data.firstName;
+  if (data.lastName !== undefined) row.last_name = data.lastName;
+  if (data.phone !== undefined) row.phone = data.phone;
+  if (data.street !== undefined) row.street = data.street;
+  if (data.barangay !== undefined) row.barangay = data.barangay;
+  if (data.municipality !== undefined) row.municipality = data.municipality;
+  if (data.province !== undefined) row.province = data.province;
+  if (data.requestedStallDbId !== undefined) row.requested_stall_id = data.requestedStallDbId;
+  if (data.stallName !== undefined) row.stall_name = data.stallName;
+  if (data.stallType !== undefined) row.stall_type = data.stallType;
+  if (data.monthlyRent !== undefined) row.monthly_rent = data.monthlyRent;
+  if (data.status !== undefined) row.status = data.status;
+  if (data.stallDbId !== undefined) row.stall_id = data.stallDbId;
+  if (data.reviewNotes !== undefined) row.review_notes = data.reviewNotes;
+  if (data.rejectionReason !== undefined) row.rejection_reason = data.rejectionReason;
+  if (data.missingRequirements !== undefined) row.missing_requirements = data.missingRequirements;
+  if (data.documents !== undefined) row.documents = data.documents;
+  if (data.reviewedBy !== undefined) row.reviewed_by = data.reviewedBy;
+  if (data.reviewedAt !== undefined) row.reviewed_at = data.reviewedAt;
+  return row;
+};
+
+export const createSupabaseRegistrationsRepository = (client: SupabaseClient): RegistrationsRepository => ({
+  async create(data: NewRegistration) {
+    // Applicants cannot read the table, so submit_registration inserts and returns the row, copying
+    // the stall's name, type and rent from the stall. An insert trigger moves the session's hold on
+    // the requested stall to the application.
+    const { data: row, error } = await client
+      .rpc("submit_registration", {
+        p_registration: { ...toRow(data), registration_id: generateRegistrationId(), stall_holder: data.stallHolder },
+      })
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as RegistrationRow);
+  },
+
+  async get(registrationId: string) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .select()
+      .eq("registration_id", registrationId)
+      .maybeSingle();
+    if (error) throw toError(error);
+    return row ? fromRow(row as RegistrationRow) : null;
+  },
+
+  async list() {
+    const { data: rows, error } = await client
+      .from(TABLE)
+      .select()
+      .order("created_at", { ascending: false });
+    if (error) throw toError(error);
+    return (rows as RegistrationRow[]).map(fromRow);
+  },
+
+  async update(registrationId: string, changes: RegistrationUpdate) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .update({ ...toRow(changes), updated_at: new Date().toISOString() })
+      .eq("registration_id", registrationId)
+      .select()
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as RegistrationRow);
+  },
+
+  async lookupForApplicant(registrationId: string, phone: string) {
+    // The function checks the phone number server-side and only returns applicant-safe columns.
+    const { data: row, error } = await client
+      .rpc("lookup_registration_status", { p_registration_id: registrationId.trim(), p_phone: phone })
+      .maybeSingle();
+    if (error) throw toError(error);
+    return row ? fromApplicantStatusRow(row as ApplicantStatusRow) : null;
+  },
+
+  async checkConflicts(candidate: ConflictCandidate): Promise<SubmissionConflicts> {
+    const { data: row, error } = await client
+      .rpc("check_registration_conflicts", {
+        p_first_name: candidate.firstName,
+        p_last_name: candidate.lastName,
+        p_phone: candidate.phone,
+        p_stall_name: candidate.stallName ?? "",
+      })
+      .single();
+    if (error) throw toError(error);
+    const result = row as { existing_registration_id: string | null; stall_unavailable: boolean };
+    return {
+      existingRegistrationId: result.existing_registration_id,
+      stallUnavailable: result.stall_unavailable,
+    };
+  },
+
+  // Codes are signed and checked by the database, which keeps the signing key.
+  async issueToken(registrationId: string) {
+    const { data: token, error } = await client.rpc("issue_registration_token", { p_registration_id: registrationId });
+    if (error) throw toError(error);
+    return token as string;
+  },
+
+  async verifyToken(token: string): Promise<RegistrationTokenResult> {
+    const { data: row, error } = await client.rpc("verify_registration_token", { p_token: token }).single();
+    if (error) throw toError(error);
+    const result = row as { registration_id: string | null; expires_at: string | null; failure: RegistrationTokenFailure | null };
+    return result.failure
+      ? { valid: false, reason: result.failure }
+      : { valid: true, registrationId: result.registration_id, expiresAt: new Date(result.expires_at) };
+  },
+});
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  findClosingRemittance,
+  type DenominationCounts,
+  type NewRemittance,
+  type Remittance,
+  type RemittanceReview,
+  type RemittanceStatus,
+} from "@/data/remittances";
+import { toError } from "@/lib/supabase";
+import type { RemittancesRepository } from "./remittancesRepository";
+
+const TABLE = "remittances";
+
+type RemittanceRow = {
+  id: number;
+  collector: string;
+  day: string;
+  counts: DenominationCounts;
+  counted: number;
+  expected: number;
+  payment_count: number;
+  notes: string;
+  status: RemittanceStatus;
+  submitted_at: string;
+  reviewed_by: string;
+  reviewed_at: string | null;
+  review_note: string;
+};
+
+const fromRow = (row: RemittanceRow): Remittance => ({
+  dbId: row.id,
+  collector: row.collector,
+  day: row.day,
+  counts: row.counts ?? {},
+  counted: Number(row.counted),
+  expected: Number(row.expected),
+  paymentCount: row.payment_count,
+  notes: row.notes,
+  status: row.status,
+  submittedAt: row.submitted_at,
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  reviewNote: row.review_note,
+});
+
+const toRow = (
+  remittance: NewRemittance,
+): Omit<RemittanceRow, "id" | "status" | "submitted_at" | "reviewed_by" | "reviewed_at" | "review_note"> => ({
+  collector: remittance.collector,
+  day: remittance.day,
+  counts: remittance.counts,
+  counted: remittance.counted,
+  expected: remittance.expected,
+  payment_count: remittance.paymentCount,
+  notes: remittance.notes,
+});
+
+const fetchDay = async (client: SupabaseClient, day: string) => {
+  const { data: rows, error } = await client.from(TABLE).select().eq("day", day).order("submitted_at").order("id");
+  if (error) throw toError(error);
+  return (rows as RemittanceRow[]).map(fromRow);
+};
+
+export const createSupabaseRemittancesRepository = (client: SupabaseClient): RemittancesRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("day").order("submitted_at").order("id");
+    if (error) throw toError(error);
+    return (rows as RemittanceRow[]).map(fromRow);
+  },
+
+  async listByDay(day: string) {
+    return fetchDay(client, day);
+  },
+
+  async submit(remittance: NewRemittance) {
+    // The unique index on open remittances backs this up when two devices submit at once.
+    if (findClosingRemittance(await fetchDay(client, remittance.day), remittance.collector, remittance.day)) {
+      throw new Error(`${remittance.collector} has already remitted for ${remittance.day}`);
+    }
+    const { data: row, error } = await client.from(TABLE).insert(toRow(remittance)).select().single();
+    if (error) throw toError(error);
+    return fromRow(row as RemittanceRow);
+  },
+
+  async review(dbId: number, review: RemittanceReview) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .update({
+        status: review.status,
+        reviewed_by: review.reviewedBy,
+        review_note: review.reviewNote,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", dbId)
+      .eq("status", "submitted")
+      .select()
+      .maybeSingle();
+    if (error) throw toError(error);
+    if (!row) throw new Error(`Remittance ${dbId} was not found or has already been reviewed`);
+    return fromRow(row as RemittanceRow);
+  },
+});
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NewRentRate, RentRate } from "@/data/rentRates";
+import { toError } from "@/lib/supabase";
+import type { RentRatesRepository } from "./rentRatesRepository";
+
+const TABLE = "rent_rates";
+
+type RentRateRow = {
+  id: number;
+  ordinance: string;
+  effective_from: string;
+  stall_type: string;
+  section: string;
+  rate_per_sqm: number;
+  created_at: string;
+};
+
+const fromRow = (row: RentRateRow): RentRate => ({
+  dbId: row.id,
+  ordinance: row.ordinance,
+  effectiveFrom: row.effective_from,
+  stallType: row.stall_type,
+  section: row.section,
+  ratePerSqm: Number(row.rate_per_sqm),
+  createdAt: row.created_at,
+});
+
+const toRow = (rate: NewRentRate): Omit<RentRateRow, "id" | "created_at"> => ({
+  ordinance: rate.ordinance,
+  effective_from: rate.effectiveFrom,
+  stall_type: rate.stallType,
+  section: rate.section,
+  rate_per_sqm: rate.ratePerSqm,
+});
+
+export const createSupabaseRentRatesRepository = (client: SupabaseClient): RentRatesRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("effective_from").order("id");
+    if (error) throw toError(error);
+    return (rows as RentRateRow[]).map(fromRow);
+  },
+
+  async createMany(rates: NewRentRate[]) {
+    const { data: rows, error } = await client.from(TABLE).insert(rates.map(toRow)).select();
+    if (error) throw toError(error);
+    return (rows as RentRateRow[]).map(fromRow);
+  },
+});
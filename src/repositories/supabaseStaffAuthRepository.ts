@@ -0,0 +1,31 @@
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+import type { StaffSession } from "@/data/staff";
+import type { StaffAuthRepository } from "./staffAuthRepository";
+
+const fromSession = (session: Session | null): StaffSession | null =>
+  session ? { userId: session.user.id, email: session.user.email ?? "" } : null;
+
+// Staff accounts are created in the Supabase dashboard; every signed-in user counts as staff.
+export const createSupabaseStaffAuthRepository = (client: SupabaseClient): StaffAuthRepository => ({
+  async getSession() {
+    const { data, error } = await client.auth.getSession();
+    if (error) throw error;
+    return fromSession(data.session);
+  },
+
+  onChange(listener) {
+    const { data } = client.auth.onAuthStateChange((_event, session) => listener(fromSession(session)));
+    return () => data.subscription.unsubscribe();
+  },
+
+  async signIn(email: string, password: string) {
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return fromSession(data.session);
+  },
+
+  async signOut() {
+    const { error } = await client.auth.signOut();
+    if (error) throw error;
+  },
+});
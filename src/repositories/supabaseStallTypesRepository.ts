@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NewStallType, StallType, StallTypeUpdate } from "@/data/stallTypes";
+import { toError } from "@/lib/supabase";
+import type { StallTypesRepository } from "./stallTypesRepository";
+
+const TABLE = "stall_types";
+
+type StallTypeRow = {
+  id: number;
+  name: string;
+  description: string;
+  default_rent: number;
+  required_permits: string[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+const fromRow = (row: StallTypeRow): StallType => ({
+  dbId: row.id,
+  name: row.name,
+  description: row.description,
+  defaultRent: Number(row.default_rent),
+  requiredPermits: row.required_permits,
+  active: row.active,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (changes: StallTypeUpdate): Partial<StallTypeRow> => {
+  const row: Partial<StallTypeRow> = {};
+  if (changes.description !== undefined) row.description = changes.description;
+  if (changes.defaultRent !== undefined) row.default_rent = changes.defaultRent;
+  if (changes.requiredPermits !== undefined) row.required_permits = changes.requiredPermits;
+  if (changes.active !== undefined) row.active = changes.active;
+  return row;
+};
+
+export const createSupabaseStallTypesRepository = (client: SupabaseClient): StallTypesRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("id");
+    if (error) throw toError(error);
+    return (rows as StallTypeRow[]).map(fromRow);
+  },
+
+  async create(stallType: NewStallType) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .insert({ name: stallType.name, ...toRow(stallType) })
+      .select()
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallTypeRow);
+  },
+
+  async update(dbId: number, changes: StallTypeUpdate) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .update({ ...toRow(changes), updated_at: new Date().toISOString() })
+      .eq("id", dbId)
+      .select()
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallTypeRow);
+  },
+});
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RentHistoryEntry } from "@/data/rentRates";
+import type { StallRecord, StallStatus, StallTenancy, StallUpdate, VacateStallInput } from "@/data/stalls";
+import { toError } from "@/lib/supabase";
+import type { StallsRepository } from "./stallsRepository";
+
+const TABLE = "stalls";
+const TENANCIES_TABLE = "stall_tenancies";
+
+type StallRow = {
+  id: number;
+  name: string;
+  vendor: string;
+  contact: string;
+  type: string;
+  monthly_rent: number;
+  last_payment: string;
+  next_due: string;
+  status: StallStatus;
+  occupied: boolean;
+  held_by: string;
+  held_until: string | null;
+  section: string;
+  row_label: string;
+  map_x: number | null;
+  map_y: number | null;
+  map_width: number | null;
+  map_height: number | null;
+  area_sqm: number | null;
+  rent_history: RentHistoryEntry[];
+};
+
+const fromRow = (row: StallRow): StallRecord => ({
+  id: `stall-${row.id}`,
+  dbId: row.id,
+  name: row.name,
+  vendor: row.vendor,
+  contact: row.contact,
+  type: row.type,
+  monthlyRent: Number(row.monthly_rent),
+  lastPayment: row.last_payment,
+  nextDue: row.next_due,
+  status: row.status,
+  occupied: row.occupied,
+  heldBy: row.held_by,
+  heldUntil: row.held_until,
+  section: row.section,
+  row: row.row_label,
+  position:
+    row.map_x === null
+      ? null
+      : {
+          x: Number(row.map_x),
+          y: Number(row.map_y),
+          width: Number(row.map_width),
+          height: Number(row.map_height),
+        },
+  areaSqm: row.area_sqm === null ? null : Number(row.area_sqm),
+  rentHistory: row.rent_history.map((entry) => ({ ...entry, monthlyRent: Number(entry.monthlyRent) })),
+});
+
+type ApplicantStallRow = Omit<StallRow, "vendor" | "contact" | "last_payment" | "next_due"> & { is_held: boolean };
+
+// Stands in for a holder the applicant may not know, so `isHeldByOther` still sees the stall as taken.
+const ANOTHER_HOLDER = "another applicant";
+
+const fromApplicantRow = ({ is_held, ...row }: ApplicantStallRow): StallRecord =>
+  fromRow({
+    ...row,
+    vendor: "",
+    contact: "",
+    last_payment: "",
+    next_due: "",
+    held_by: is_held ? ANOTHER_HOLDER : row.held_by,
+  });
+
+type StallTenancyRow = {
+  id: number;
+  stall_id: number;
+  vendor: string;
+  contact: string;
+  monthly_rent: number;
+  last_payment: string;
+  next_due: string;
+  vacated_on: string;
+  reason: string;
+};
+
+const fromTenancyRow = (row: StallTenancyRow): StallTenancy => ({
+  id: String(row.id),
+  stallDbId: row.stall_id,
+  vendor: row.vendor,
+  contact: row.contact,
+  monthlyRent: Number(row.monthly_rent),
+  lastPayment: row.last_payment,
+  nextDue: row.next_due,
+  vacatedOn: row.vacated_on,
+  reason: row.reason,
+});
+
+const toRow = (stall: StallUpdate): Partial<StallRow> => {
+  const row: Partial<StallRow> = {};
+  if (stall.name !== undefined) row.name = stall.name;
+  if (stall.vendor !== undefined) row.vendor = stall.vendor;
+  if (stall.contact !== undefined) row.contact = stall.contact;
+  if (stall.type !== undefined) row.type = stall.type;
+  if (stall.monthlyRent !== undefined) row.monthly_rent = stall.monthlyRent;
+  if (stall.lastPayment !== undefined) row.last_payment = stall.lastPayment;
+  if (stall.nextDue !== undefined) row.next_due = stall.nextDue;
+  if (stall.status !== undefined) row.status = stall.status;
+  if (stall.occupied !== undefined) row.occupied = stall.occupied;
+  if (stall.heldBy !== undefined) row.held_by = stall.heldBy;
+  if (stall.heldUntil !== undefined) row.held_until = stall.heldUntil;
+  if (stall.section !== undefined) row.section = stall.section;
+  if (stall.row !== undefined) row.row_label = stall.row;
+  if (stall.position !== undefined) {
+    row.map_x = stall.position?.x ?? null;
+    row.map_y = stall.position?.y ?? null;
+    row.map_width = stall.position?.width ?? null;
+    row.map_height = stall.position?.height ?? null;
+  }
+  if (stall.areaSqm !== undefined) row.area_sqm = stall.areaSqm;
+  if (stall.rentHistory !== undefined) row.rent_history = stall.rentHistory;
+  return row;
+};
+
+export const createSupabaseStallsRepository = (client: SupabaseClient): StallsRepository => ({
+  async list() {
+    const { data: rows, error } = await client.from(TABLE).select().order("id");
+    if (error) throw toError(error);
+    return (rows as StallRow[]).map(fromRow);
+  },
+
+  async listForApplicants(holder: string) {
+    // Applicants cannot read the stalls table; the function leaves out each tenant's details and
+    // every hold but the applicant's own.
+    const { data: rows, error } = await client.rpc("list_stalls_for_applicants", { p_holder: holder });
+    if (error) throw toError(error);
+    return (rows as ApplicantStallRow[]).map(fromApplicantRow);
+  },
+
+  async get(dbId: number) {
+    const { data: row, error } = await client.from(TABLE).select().eq("id", dbId).maybeSingle();
+    if (error) throw toError(error);
+    return row ? fromRow(row as StallRow) : null;
+  },
+
+  async create(stall: StallRecord) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .insert({ ...toRow(stall), id: stall.dbId })
+      .select()
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallRow);
+  },
+
+  async update(dbId: number, changes: StallUpdate) {
+    const { data: row, error } = await client
+      .from(TABLE)
+      .update(toRow(changes))
+      .eq("id", dbId)
+      .select()
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallRow);
+  },
+
+  async vacate(dbId: number, input: VacateStallInput) {
+    // Archiving and clearing happen in one transaction inside the vacate_stall function.
+    const { data: row, error } = await client
+      .rpc("vacate_stall", { p_stall_id: dbId, p_vacated_on: input.vacatedOn, p_reason: input.reason })
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallRow);
+  },
+
+  async listTenancies(dbId: number) {
+    const { data: rows, error } = await client
+      .from(TENANCIES_TABLE)
+      .select()
+      .eq("stall_id", dbId)
+      .order("vacated_on", { ascending: false });
+    if (error) throw toError(error);
+    return (rows as StallTenancyRow[]).map(fromTenancyRow);
+  },
+
+  async hold(dbId: number, holder: string, until: string) {
+    // The check and the update run under a row lock in hold_stall so two applicants cannot both win.
+    const { data: row, error } = await client
+      .rpc("hold_stall", { p_stall_id: dbId, p_holder: holder, p_until: until })
+      .single();
+    if (error) throw toError(error);
+    return fromRow(row as StallRow);
+  },
+
+  async release(dbId: number, holder: string) {
+    const { error } = await client.rpc("release_stall", { p_stall_id: dbId, p_holder: holder });
+    if (error) throw toError(error);
+  },
+});
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_STATUS_GRACE_DAYS?: string;
+  readonly VITE_STATUS_DUE_SOON_DAYS?: string;
+  readonly VITE_PENALTY_RATE_PERCENT?: string;
+  readonly VITE_PENALTY_GRACE_DAYS?: string;
+  readonly VITE_PENALTY_MAX_MONTHS?: string;
+  readonly VITE_PENALTY_CAP_PERCENT?: string;
+}
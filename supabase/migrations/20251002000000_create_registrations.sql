@@ -0,0 +1,15 @@
+create table if not exists public.registrations (
+  id bigint generated by default as identity primary key,
+  registration_id text not null unique,
+  first_name text not null,
+  last_name text not null,
+  phone text not null,
+  address text not null,
+  stall_name text not null,
+  stall_type text not null,
+  monthly_rent numeric(12, 2) not null check (monthly_rent > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists registrations_created_at_idx on public.registrations (created_at desc);
@@ -0,0 +1,15 @@
+create table if not exists public.stalls (
+  id bigint primary key,
+  name text not null,
+  vendor text not null default '',
+  contact text not null default '',
+  type text not null,
+  monthly_rent numeric(12, 2) not null check (monthly_rent >= 0),
+  last_payment text not null default '',
+  next_due text not null default '',
+  status text not null default 'vacant' check (status in ('current', 'due', 'overdue', 'vacant')),
+  occupied boolean not null default false
+);
+
+create index if not exists stalls_type_idx on public.stalls (type);
+create index if not exists stalls_status_idx on public.stalls (status);
@@ -0,0 +1,40 @@
+create table if not exists public.stall_tenancies (
+  id bigint generated by default as identity primary key,
+  stall_id bigint not null references public.stalls (id),
+  vendor text not null,
+  contact text not null default '',
+  monthly_rent numeric(12, 2) not null,
+  last_payment text not null default '',
+  next_due text not null default '',
+  vacated_on text not null,
+  reason text not null default ''
+);
+
+create index if not exists stall_tenancies_stall_id_idx on public.stall_tenancies (stall_id);
+
+create or replace function public.vacate_stall(p_stall_id bigint, p_vacated_on text, p_reason text)
+returns setof public.stalls
+language plpgsql
+as $$
+declare
+  current_stall public.stalls;
+begin
+  select * into current_stall from public.stalls where id = p_stall_id for update;
+  if not found then
+    raise exception 'Stall stall-% not found', p_stall_id;
+  end if;
+  if current_stall.vendor = '' then
+    raise exception '% is already vacant', current_stall.name;
+  end if;
+
+  insert into public.stall_tenancies (stall_id, vendor, contact, monthly_rent, last_payment, next_due, vacated_on, reason)
+  values (p_stall_id, current_stall.vendor, current_stall.contact, current_stall.monthly_rent,
+          current_stall.last_payment, current_stall.next_due, p_vacated_on, p_reason);
+
+  return query
+    update public.stalls
+       set vendor = '', contact = '', occupied = false, status = 'vacant', last_payment = '', next_due = ''
+     where id = p_stall_id
+    returning *;
+end;
+$$;
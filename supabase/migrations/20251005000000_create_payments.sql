@@ -0,0 +1,17 @@
+create table if not exists public.payments (
+  id bigint generated by default as identity primary key,
+  stall_id bigint not null references public.stalls (id),
+  vendor text not null,
+  amount numeric(12, 2) not null check (amount > 0),
+  method text not null check (method in ('cash', 'gcash', 'bank_transfer', 'check')),
+  or_number text not null,
+  collector text not null,
+  paid_on text not null,
+  period_start text not null,
+  period_end text not null,
+  allocations jsonb not null default '[]'::jsonb,
+  notes text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payments_stall_id_idx on public.payments (stall_id, paid_on);
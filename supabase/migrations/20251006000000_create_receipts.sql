@@ -0,0 +1,76 @@
+-- OR numbers come from a locked counter row instead of a sequence: sequences skip values
+-- on rolled-back transactions, and the treasurer requires a gap-free receipt series.
+create table if not exists public.receipt_counter (
+  id boolean primary key default true check (id),
+  last_sequence bigint not null default 0
+);
+
+insert into public.receipt_counter (id, last_sequence) values (true, 0) on conflict do nothing;
+
+create table if not exists public.receipts (
+  or_number text primary key,
+  sequence bigint not null unique,
+  payment_id bigint not null unique references public.payments (id),
+  stall_id bigint not null references public.stalls (id),
+  stall_name text not null,
+  vendor text not null,
+  period_start text not null,
+  period_end text not null,
+  amount numeric(12, 2) not null,
+  method text not null,
+  collector text not null,
+  paid_on text not null,
+  issued_at timestamptz not null default now(),
+  print_count integer not null default 0
+);
+
+create or replace function public.issue_receipt(p_payment_id bigint)
+returns setof public.receipts
+language plpgsql
+as $$
+declare
+  payment public.payments;
+  next_sequence bigint;
+  new_or_number text;
+begin
+  select * into payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+
+  if exists (select 1 from public.receipts where payment_id = p_payment_id) then
+    return query select * from public.receipts where payment_id = p_payment_id;
+    return;
+  end if;
+
+  update public.receipt_counter set last_sequence = last_sequence + 1 where id
+    returning last_sequence into next_sequence;
+  new_or_number := lpad(next_sequence::text, 7, '0');
+
+  insert into public.receipts (or_number, sequence, payment_id, stall_id, stall_name, vendor,
+                               period_start, period_end, amount, method, collector, paid_on)
+  select new_or_number, next_sequence, payment.id, payment.stall_id, s.name, payment.vendor,
+         payment.period_start, payment.period_end, payment.amount,
+         case payment.method
+           when 'cash' then 'Cash'
+           when 'gcash' then 'GCash'
+           when 'bank_transfer' then 'Bank Transfer'
+           when 'check' then 'Check'
+           else payment.method
+         end,
+         payment.collector, payment.paid_on
+    from public.stalls s
+   where s.id = payment.stall_id;
+
+  update public.payments set or_number = new_or_number where id = p_payment_id;
+
+  return query select * from public.receipts where or_number = new_or_number;
+end;
+$$;
+
+create or replace function public.record_receipt_print(p_or_number text)
+returns setof public.receipts
+language sql
+as $$
+  update public.receipts set print_count = print_count + 1 where or_number = p_or_number returning *;
+$$;
@@ -0,0 +1,4 @@
+alter table public.registrations
+  add column if not exists status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  add column if not exists stall_id bigint references public.stalls (id);
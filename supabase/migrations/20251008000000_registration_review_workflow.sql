@@ -0,0 +1,14 @@
+alter table public.registrations drop constraint if exists registrations_status_check;
+
+update public.registrations set status = 'submitted' where status = 'pending';
+
+alter table public.registrations
+  alter column status set default 'submitted',
+  add constraint registrations_status_check
+    check (status in ('submitted', 'under_review', 'approved', 'rejected', 'waitlisted')),
+  add column if not exists review_notes jsonb not null default '[]'::jsonb,
+  add column if not exists rejection_reason text not null default '',
+  add column if not exists reviewed_by text not null default '',
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists registrations_status_idx on public.registrations (status);
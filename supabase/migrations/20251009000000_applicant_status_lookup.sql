@@ -0,0 +1,29 @@
+alter table public.registrations
+  add column if not exists missing_requirements text[] not null default '{}';
+
+-- Applicants are anonymous, so the lookup runs as the table owner and returns only the
+-- columns the public status page needs, and only when the phone number matches.
+create or replace function public.lookup_registration_status(p_registration_id text, p_phone text)
+returns table (
+  registration_id text,
+  status text,
+  stall_name text,
+  stall_type text,
+  rejection_reason text,
+  missing_requirements text[],
+  created_at timestamptz,
+  updated_at timestamptz
+)
+language sql
+security definer
+set search_path = public
+as $$
+  select r.registration_id, r.status, r.stall_name, r.stall_type, r.rejection_reason,
+         r.missing_requirements, r.created_at, r.updated_at
+    from public.registrations r
+   where r.registration_id = p_registration_id
+     and length(regexp_replace(p_phone, '\D', '', 'g')) >= 10
+     and right(regexp_replace(r.phone, '\D', '', 'g'), 10) = right(regexp_replace(p_phone, '\D', '', 'g'), 10);
+$$;
+
+grant execute on function public.lookup_registration_status(text, text) to anon;
@@ -0,0 +1,26 @@
+alter table public.registrations
+  add column if not exists documents jsonb not null default '[]'::jsonb;
+
+-- Private bucket for applicant uploads; reviewers read through signed URLs.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'registration-documents',
+  'registration-documents',
+  false,
+  5242880,
+  array['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+on conflict (id) do nothing;
+
+-- Applicants are anonymous: they may add files but never list, read or overwrite them.
+create policy "Applicants can upload registration documents"
+  on storage.objects for insert to anon, authenticated
+  with check (bucket_id = 'registration-documents');
+
+create policy "Staff can read registration documents"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'registration-documents');
+
+create policy "Staff can delete registration documents"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'registration-documents');
@@ -0,0 +1,18 @@
+-- Split the free-text address into parts. Existing addresses are kept as the street line
+-- because they cannot be parsed reliably; reviewers can correct them.
+alter table public.registrations
+  add column if not exists street text not null default '',
+  add column if not exists barangay text not null default '',
+  add column if not exists municipality text not null default '',
+  add column if not exists province text not null default '';
+
+update public.registrations set street = address where street = '';
+
+alter table public.registrations drop column if exists address;
+
+-- Phone numbers are now stored in E.164; convert the local forms already on file.
+update public.registrations
+   set phone = '+63' || right(regexp_replace(phone, '\D', '', 'g'), 10)
+ where regexp_replace(phone, '\D', '', 'g') ~ '^(0|63)?9\d{9}$';
+
+create index if not exists registrations_phone_idx on public.registrations (phone);
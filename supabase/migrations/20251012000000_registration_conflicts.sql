@@ -0,0 +1,60 @@
+create extension if not exists unaccent with schema extensions;
+create extension if not exists fuzzystrmatch with schema extensions;
+
+-- Mirrors normalizePersonName in src/data/duplicates.ts: lowercase, no accents or punctuation,
+-- words sorted so "Cruz, Juan" and "Juan Cruz" compare equal.
+create or replace function public.normalize_person_name(p_first_name text, p_last_name text)
+returns text
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select coalesce(string_agg(word, ' ' order by word), '')
+    from unnest(regexp_split_to_array(
+      regexp_replace(lower(unaccent(coalesce(p_first_name, '') || ' ' || coalesce(p_last_name, ''))), '[^a-z]+', ' ', 'g'),
+      ' '
+    )) as word
+   where word <> '';
+$$;
+
+-- Pre-submission check for the public form. Like lookup_registration_status it runs as the
+-- table owner and reveals only the caller's own earlier application and whether the stall is taken.
+-- Keep the threshold in step with NAME_MATCH_THRESHOLD.
+create or replace function public.check_registration_conflicts(
+  p_first_name text,
+  p_last_name text,
+  p_phone text,
+  p_stall_name text
+)
+returns table (existing_registration_id text, stall_unavailable boolean)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  with candidate as (
+    select normalize_person_name(p_first_name, p_last_name) as name,
+           right(regexp_replace(p_phone, '\D', '', 'g'), 10) as phone,
+           lower(regexp_replace(trim(p_stall_name), '\s+', ' ', 'g')) as stall_name
+  )
+  select
+    (select r.registration_id
+       from public.registrations r, candidate c
+      where r.status <> 'rejected'
+        and length(c.phone) = 10
+        and right(regexp_replace(r.phone, '\D', '', 'g'), 10) = c.phone
+        and 1 - levenshtein(normalize_person_name(r.first_name, r.last_name), c.name)::numeric
+              / greatest(length(normalize_person_name(r.first_name, r.last_name)), length(c.name), 1) >= 0.85
+      order by r.created_at
+      limit 1),
+    exists (
+      select 1 from public.stalls s, candidate c
+       where s.occupied and lower(regexp_replace(trim(s.name), '\s+', ' ', 'g')) = c.stall_name
+    ) or exists (
+      select 1 from public.registrations r, candidate c
+       where r.status not in ('rejected', 'approved')
+         and lower(regexp_replace(trim(r.stall_name), '\s+', ' ', 'g')) = c.stall_name
+    );
+$$;
+
+grant execute on function public.check_registration_conflicts(text, text, text, text) to anon;
@@ -0,0 +1,44 @@
+alter table public.stalls
+  add column if not exists held_by text not null default '',
+  add column if not exists held_until timestamptz;
+
+alter table public.registrations
+  add column if not exists requested_stall_id bigint references public.stalls (id);
+
+create index if not exists registrations_requested_stall_id_idx on public.registrations (requested_stall_id);
+
+-- Holds a vacant stall for an applicant. A null p_until keeps the hold until it is released,
+-- which is how a submitted application keeps its stall while under review.
+create or replace function public.hold_stall(
+  p_stall_id bigint,
+  p_holder text,
+  p_until timestamptz,
+  p_current_holder text
+)
+returns setof public.stalls
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stall public.stalls;
+begin
+  select * into current_stall from public.stalls where id = p_stall_id for update;
+  if not found then
+    raise exception 'Stall stall-% not found', p_stall_id;
+  end if;
+  if current_stall.occupied
+     or (current_stall.held_by not in ('', p_holder, p_current_holder)
+         and (current_stall.held_until is null or current_stall.held_until > now())) then
+    raise exception '% is no longer available', current_stall.name;
+  end if;
+
+  return query
+    update public.stalls
+       set held_by = p_holder, held_until = p_until
+     where id = p_stall_id
+    returning *;
+end;
+$$;
+
+grant execute on function public.hold_stall(bigint, text, timestamptz, text) to anon;
@@ -0,0 +1,17 @@
+-- Location of each stall: section and row for lists, and a rectangle on the floor map
+-- (map units, see FLOOR_MAP_WIDTH/HEIGHT in src/data/floorMap.ts). Unplaced stalls have null coordinates.
+alter table public.stalls
+  add column if not exists section text not null default '',
+  add column if not exists row_label text not null default '',
+  add column if not exists map_x numeric(8, 2),
+  add column if not exists map_y numeric(8, 2),
+  add column if not exists map_width numeric(8, 2),
+  add column if not exists map_height numeric(8, 2);
+
+alter table public.stalls
+  add constraint stalls_map_position_complete check (
+    (map_x is null and map_y is null and map_width is null and map_height is null)
+    or (map_x is not null and map_y is not null and map_width > 0 and map_height > 0)
+  );
+
+create index if not exists stalls_section_idx on public.stalls (section, row_label);
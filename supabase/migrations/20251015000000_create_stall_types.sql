@@ -0,0 +1,33 @@
+-- Catalog of stall types the market office can edit without a redeploy. Stalls and registrations
+-- keep storing the type name as text, so names are unique (ignoring case) and never renamed.
+create table if not exists public.stall_types (
+  id bigint generated by default as identity primary key,
+  name text not null check (length(trim(name)) >= 2),
+  description text not null default '',
+  default_rent numeric(12, 2) not null default 0 check (default_rent >= 0),
+  required_permits text[] not null default '{}',
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists stall_types_name_idx on public.stall_types (lower(trim(name)));
+
+insert into public.stall_types (name, description, default_rent, required_permits) values
+  ('Fish', 'Fresh fish and seafood', 1500, '{"Sanitary permit","Health certificate"}'),
+  ('Meat', 'Pork and beef', 1800, '{"Sanitary permit","Health certificate"}'),
+  ('Vegetables', 'Fresh vegetables and root crops', 1000, '{}'),
+  ('Fruits', 'Fresh fruit', 1000, '{}'),
+  ('Dry Goods', 'Clothing, housewares and other non-food items', 1200, '{}'),
+  ('General', 'Sari-sari and general merchandise', 1200, '{}'),
+  ('Frozen Goods', 'Frozen and chilled products', 1500, '{"Sanitary permit"}'),
+  ('Poultry', 'Dressed chicken and eggs', 1500, '{"Sanitary permit","Health certificate"}'),
+  ('Spices', 'Spices, condiments and dried herbs', 900, '{}')
+on conflict do nothing;
+
+-- Types already in use on stalls but missing from the defaults above.
+insert into public.stall_types (name)
+select distinct on (lower(trim(type))) trim(type)
+from public.stalls
+where trim(type) <> ''
+on conflict do nothing;
@@ -0,0 +1,17 @@
+-- Rent is priced per square meter by ordinance. Each stall keeps the history of its rent so the
+-- ledger charges every month the rent in effect then, even after a later ordinance raises it.
+alter table public.stalls
+  add column if not exists area_sqm numeric(8, 2) check (area_sqm is null or area_sqm > 0),
+  add column if not exists rent_history jsonb not null default '[]'::jsonb;
+
+create table if not exists public.rent_rates (
+  id bigint generated by default as identity primary key,
+  ordinance text not null,
+  effective_from text not null check (effective_from ~ '^\d{4}-\d{2}$'),
+  stall_type text not null default '',
+  section text not null default '',
+  rate_per_sqm numeric(12, 2) not null check (rate_per_sqm > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rent_rates_effective_from_idx on public.rent_rates (effective_from);
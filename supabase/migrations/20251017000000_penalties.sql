@@ -0,0 +1,66 @@
+-- Late-payment surcharges are computed from the payment history rather than stored, so only
+-- what was paid against them and what an officer waived needs recording.
+alter table public.payments
+  add column if not exists surcharges jsonb not null default '[]'::jsonb;
+
+alter table public.receipts
+  add column if not exists surcharge numeric(12, 2) not null default 0;
+
+create table if not exists public.penalty_waivers (
+  id bigint generated by default as identity primary key,
+  stall_id bigint not null references public.stalls (id),
+  period text not null check (period ~ '^\d{4}-\d{2}$'),
+  amount numeric(12, 2) not null check (amount > 0),
+  reason text not null,
+  approved_by text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists penalty_waivers_stall_id_idx on public.penalty_waivers (stall_id);
+
+-- Same as before, plus the surcharge portion of the payment on the receipt.
+create or replace function public.issue_receipt(p_payment_id bigint)
+returns setof public.receipts
+language plpgsql
+as $$
+declare
+  payment public.payments;
+  next_sequence bigint;
+  new_or_number text;
+begin
+  select * into payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+
+  if exists (select 1 from public.receipts where payment_id = p_payment_id) then
+    return query select * from public.receipts where payment_id = p_payment_id;
+    return;
+  end if;
+
+  update public.receipt_counter set last_sequence = last_sequence + 1 where id
+    returning last_sequence into next_sequence;
+  new_or_number := lpad(next_sequence::text, 7, '0');
+
+  insert into public.receipts (or_number, sequence, payment_id, stall_id, stall_name, vendor,
+                               period_start, period_end, amount, surcharge, method, collector, paid_on)
+  select new_or_number, next_sequence, payment.id, payment.stall_id, s.name, payment.vendor,
+         payment.period_start, payment.period_end, payment.amount,
+         coalesce((select sum((item ->> 'amount')::numeric)
+                     from jsonb_array_elements(payment.surcharges) item), 0),
+         case payment.method
+           when 'cash' then 'Cash'
+           when 'gcash' then 'GCash'
+           when 'bank_transfer' then 'Bank Transfer'
+           when 'check' then 'Check'
+           else payment.method
+         end,
+         payment.collector, payment.paid_on
+    from public.stalls s
+   where s.id = payment.stall_id;
+
+  update public.payments set or_number = new_or_number where id = p_payment_id;
+
+  return query select * from public.receipts where or_number = new_or_number;
+end;
+$$;
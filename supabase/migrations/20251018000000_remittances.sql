@@ -0,0 +1,59 @@
+-- End-of-day cash remittances. A submitted or approved remittance closes the collector's day:
+-- payments for that collector and day can no longer be added, changed or removed.
+create table if not exists public.remittances (
+  id bigint generated by default as identity primary key,
+  collector text not null,
+  day text not null check (day ~ '^\d{4}-\d{2}-\d{2}$'),
+  counts jsonb not null default '{}'::jsonb,
+  counted numeric(12, 2) not null check (counted >= 0),
+  expected numeric(12, 2) not null check (expected >= 0),
+  payment_count integer not null default 0,
+  notes text not null default '',
+  status text not null default 'submitted' check (status in ('submitted', 'approved', 'returned')),
+  submitted_at timestamptz not null default now(),
+  reviewed_by text not null default '',
+  reviewed_at timestamptz,
+  review_note text not null default ''
+);
+
+create index if not exists remittances_day_idx on public.remittances (day);
+
+-- Returned remittances stay as history, so only one per collector and day may keep it closed.
+create unique index if not exists remittances_closed_day_key
+  on public.remittances (lower(btrim(collector)), day)
+  where status <> 'returned';
+
+create or replace function public.reject_payment_on_closed_day()
+returns trigger
+language plpgsql
+as $$
+declare
+  payment public.payments;
+begin
+  payment := case when tg_op = 'DELETE' then old else new end;
+  if exists (
+    select 1
+      from public.remittances r
+     where r.day = payment.paid_on
+       and lower(btrim(r.collector)) = lower(btrim(payment.collector))
+       and r.status <> 'returned'
+  ) or (tg_op = 'UPDATE' and exists (
+    select 1
+      from public.remittances r
+     where r.day = old.paid_on
+       and lower(btrim(r.collector)) = lower(btrim(old.collector))
+       and r.status <> 'returned'
+  )) then
+    raise exception '%''s collections for % have been remitted, so no more payments can be recorded for that day.',
+      payment.collector, payment.paid_on;
+  end if;
+  return payment;
+end;
+$$;
+
+-- Issuing the receipt only fills in or_number, so it is still allowed after remittance.
+drop trigger if exists payments_closed_day on public.payments;
+create trigger payments_closed_day
+  before insert or delete or update of stall_id, vendor, amount, method, collector, paid_on, allocations, surcharges
+  on public.payments
+  for each row execute function public.reject_payment_on_closed_day();
@@ -0,0 +1,81 @@
+-- Registration QR codes are signed and checked here rather than in the browser, so the signing
+-- key never reaches the public bundle. The key is generated once and kept in a schema the API
+-- cannot read; only the functions below use it.
+create extension if not exists pgcrypto with schema extensions;
+
+create schema if not exists private;
+revoke all on schema private from public, anon, authenticated;
+
+create table if not exists private.secrets (
+  name text primary key,
+  value bytea not null
+);
+
+insert into private.secrets (name, value)
+values ('registration_token_key', extensions.gen_random_bytes(32))
+on conflict (name) do nothing;
+
+-- base64url HMAC-SHA256 of "SIBREG1.<registration id>.<expiry epoch seconds>".
+create or replace function private.registration_token_signature(p_payload text)
+returns text
+language sql
+stable
+set search_path = ''
+as $$
+  select translate(encode(extensions.hmac(convert_to(p_payload, 'UTF8'), s.value, 'sha256'), 'base64'), '+/=', '-_')
+    from private.secrets s
+   where s.name = 'registration_token_key';
+$$;
+
+revoke execute on function private.registration_token_signature(text) from public;
+
+-- Issues the QR code shown to the applicant right after submitting. Only fresh applications
+-- qualify, so the function cannot be used to mint codes for registration IDs seen elsewhere.
+create or replace function public.issue_registration_token(p_registration_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  payload text;
+begin
+  if not exists (
+    select 1
+      from public.registrations r
+     where r.registration_id = p_registration_id
+       and r.created_at > now() - interval '1 hour'
+  ) then
+    raise exception 'Registration % cannot be issued a code', p_registration_id;
+  end if;
+  payload := format('SIBREG1.%s.%s', p_registration_id, extract(epoch from now() + interval '365 days')::bigint);
+  return payload || '.' || private.registration_token_signature(payload);
+end;
+$$;
+
+-- Checks a scanned code. Returns the registration ID and expiry, or why the code was refused.
+create or replace function public.verify_registration_token(p_token text)
+returns table (registration_id text, expires_at timestamptz, failure text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  parts text[] := string_to_array(btrim(p_token), '.');
+begin
+  if coalesce(array_length(parts, 1), 0) <> 4 or parts[1] <> 'SIBREG1' or parts[2] = ''
+     or parts[3] !~ '^\d{1,12}$' then
+    return query select null::text, null::timestamptz, 'malformed'::text;
+  elsif private.registration_token_signature(array_to_string(parts[1:3], '.')) is distinct from parts[4] then
+    return query select null::text, null::timestamptz, 'bad_signature'::text;
+  elsif to_timestamp(parts[3]::bigint) < now() then
+    return query select null::text, null::timestamptz, 'expired'::text;
+  else
+    return query select parts[2], to_timestamp(parts[3]::bigint), null::text;
+  end if;
+end;
+$$;
+
+grant execute on function public.issue_registration_token(text) to anon, authenticated;
+grant execute on function public.verify_registration_token(text) to anon, authenticated;
@@ -0,0 +1,97 @@
+-- Applicants are anonymous, so a hold they place always expires, at most 15 minutes from now
+-- (STALL_HOLD_MINUTES), and never takes over someone else's hold. A submitted application keeps
+-- its stall through the insert trigger below, which checks that the applicant's own session
+-- held it, instead of the client asking for a hold without an end.
+alter table public.registrations
+  add column if not exists stall_holder text not null default '';
+
+comment on column public.registrations.stall_holder is
+  'Form session that held the requested stall while the applicant filled in the form.';
+
+drop function if exists public.hold_stall(bigint, text, timestamptz, text);
+
+create or replace function public.hold_stall(p_stall_id bigint, p_holder text, p_until timestamptz)
+returns setof public.stalls
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stall public.stalls;
+  latest timestamptz := now() + interval '15 minutes';
+begin
+  if coalesce(p_holder, '') = '' then
+    raise exception 'A holder is required';
+  end if;
+  select * into current_stall from public.stalls where id = p_stall_id for update;
+  if not found then
+    raise exception 'Stall stall-% not found', p_stall_id;
+  end if;
+  -- A hold without an end belongs to a submitted application and only a reviewer releases it.
+  if current_stall.occupied
+     or (current_stall.held_by <> ''
+         and (current_stall.held_until is null
+              or (current_stall.held_by <> p_holder and current_stall.held_until > now()))) then
+    raise exception '% is no longer available', current_stall.name;
+  end if;
+
+  return query
+    update public.stalls
+       set held_by = p_holder, held_until = least(coalesce(p_until, latest), latest)
+     where id = p_stall_id
+    returning *;
+end;
+$$;
+
+-- Applicants may drop their own expiring hold; an application's hold is released by staff.
+create or replace function public.release_stall(p_stall_id bigint, p_holder text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.stalls
+     set held_by = '', held_until = null
+   where id = p_stall_id
+     and held_by <> ''
+     and held_by = p_holder
+     and (held_until is not null or auth.role() = 'authenticated');
+$$;
+
+create or replace function public.hold_requested_stall()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stall public.stalls;
+begin
+  if new.requested_stall_id is null then
+    return new;
+  end if;
+  select * into current_stall from public.stalls where id = new.requested_stall_id for update;
+  if not found then
+    raise exception 'Stall stall-% not found', new.requested_stall_id;
+  end if;
+  if current_stall.occupied
+     or (current_stall.held_by <> ''
+         and (current_stall.held_until is null
+              or (current_stall.held_by <> new.stall_holder and current_stall.held_until > now()))) then
+    raise exception '% is no longer available', current_stall.name;
+  end if;
+
+  update public.stalls
+     set held_by = new.registration_id, held_until = null
+   where id = new.requested_stall_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists registrations_hold_requested_stall on public.registrations;
+create trigger registrations_hold_requested_stall
+  before insert on public.registrations
+  for each row execute function public.hold_requested_stall();
+
+grant execute on function public.hold_stall(bigint, text, timestamptz) to anon, authenticated;
+grant execute on function public.release_stall(bigint, text) to anon, authenticated;
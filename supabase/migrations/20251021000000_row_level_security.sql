@@ -0,0 +1,101 @@
+-- Row level security on every table. Signed-in users are market office staff and keep full
+-- access; the anonymous key only reaches what the public pages need: stall types, receipts
+-- (their QR code links to a public verification page) and the security definer functions
+-- below and in earlier migrations. Applicants never read the registrations or stalls tables.
+alter table public.registrations enable row level security;
+alter table public.stalls enable row level security;
+alter table public.stall_tenancies enable row level security;
+alter table public.payments enable row level security;
+alter table public.receipt_counter enable row level security;
+alter table public.receipts enable row level security;
+alter table public.stall_types enable row level security;
+alter table public.rent_rates enable row level security;
+alter table public.penalty_waivers enable row level security;
+alter table public.remittances enable row level security;
+
+create policy "Staff manage registrations" on public.registrations
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage stalls" on public.stalls
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage stall tenancies" on public.stall_tenancies
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage payments" on public.payments
+  for all to authenticated using (true) with check (true);
+create policy "Staff issue receipt numbers" on public.receipt_counter
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage receipts" on public.receipts
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage stall types" on public.stall_types
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage rent rates" on public.rent_rates
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage penalty waivers" on public.penalty_waivers
+  for all to authenticated using (true) with check (true);
+create policy "Staff manage remittances" on public.remittances
+  for all to authenticated using (true) with check (true);
+
+create policy "Anyone can read stall types" on public.stall_types
+  for select to anon using (true);
+create policy "Anyone can verify a receipt" on public.receipts
+  for select to anon using (true);
+
+-- Vacating, issuing receipts and counting prints are staff work.
+revoke execute on function public.vacate_stall(bigint, text, text) from public, anon;
+revoke execute on function public.issue_receipt(bigint) from public, anon;
+revoke execute on function public.record_receipt_print(text) from public, anon;
+grant execute on function public.vacate_stall(bigint, text, text) to authenticated;
+grant execute on function public.issue_receipt(bigint) to authenticated;
+grant execute on function public.record_receipt_print(text) to authenticated;
+
+-- The registration form's stall picker: every stall with the tenant's name, contact and
+-- payment dates left out.
+create or replace function public.list_stalls_for_applicants()
+returns setof public.stalls
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  stall public.stalls;
+begin
+  for stall in select * from public.stalls order by id loop
+    stall.vendor := '';
+    stall.contact := '';
+    stall.last_payment := '';
+    stall.next_due := '';
+    return next stall;
+  end loop;
+end;
+$$;
+
+-- Applicants cannot read the table back, so a submission goes through this function, which
+-- takes only the applicant's own fields and returns the saved row. Status, review fields and
+-- the assigned stall keep their defaults.
+create or replace function public.submit_registration(p_registration jsonb)
+returns setof public.registrations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submitted public.registrations := jsonb_populate_record(null::public.registrations, p_registration);
+begin
+  return query
+    insert into public.registrations (
+      registration_id, first_name, last_name, phone, street, barangay, municipality, province,
+      requested_stall_id, stall_name, stall_type, monthly_rent, documents, missing_requirements, stall_holder
+    )
+    values (
+      submitted.registration_id, submitted.first_name, submitted.last_name, submitted.phone,
+      submitted.street, coalesce(submitted.barangay, ''), coalesce(submitted.municipality, ''),
+      coalesce(submitted.province, ''), submitted.requested_stall_id, submitted.stall_name,
+      submitted.stall_type, submitted.monthly_rent, coalesce(submitted.documents, '[]'::jsonb),
+      coalesce(submitted.missing_requirements, '{}'), coalesce(submitted.stall_holder, '')
+    )
+    returning *;
+end;
+$$;
+
+grant execute on function public.list_stalls_for_applicants() to anon, authenticated;
+grant execute on function public.submit_registration(jsonb) to anon, authenticated;
@@ -0,0 +1,60 @@
+-- Tightens what the anon key can read. The stall picker no longer sees who holds a stall:
+-- hold_stall and release_stall trust the holder string, so another applicant's session or
+-- registration ID must not be handed out. It gets `is_held` instead, and `held_by` only for
+-- the caller's own hold. Receipts are looked up one exact OR number at a time, since the
+-- sequential numbers would otherwise let anyone page through every vendor's payments.
+drop function if exists public.list_stalls_for_applicants();
+
+create or replace function public.list_stalls_for_applicants(p_holder text)
+returns table (
+  id bigint,
+  name text,
+  type text,
+  monthly_rent numeric,
+  status text,
+  occupied boolean,
+  held_by text,
+  held_until timestamptz,
+  is_held boolean,
+  section text,
+  row_label text,
+  map_x numeric,
+  map_y numeric,
+  map_width numeric,
+  map_height numeric,
+  area_sqm numeric,
+  rent_history jsonb
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.id, s.name, s.type, s.monthly_rent, s.status, s.occupied,
+         case when s.held_by <> '' and s.held_by = coalesce(p_holder, '') then s.held_by else '' end,
+         case when s.held_by <> '' and s.held_by = coalesce(p_holder, '') then s.held_until end,
+         s.held_by <> '' and s.held_by <> coalesce(p_holder, '') and (s.held_until is null or s.held_until > now()),
+         s.section, s.row_label, s.map_x, s.map_y, s.map_width, s.map_height, s.area_sqm, s.rent_history
+    from public.stalls s
+   order by s.id;
+$$;
+
+grant execute on function public.list_stalls_for_applicants(text) to anon, authenticated;
+
+drop policy if exists "Anyone can verify a receipt" on public.receipts;
+
+-- The receipt page behind each receipt's QR code.
+create or replace function public.lookup_receipt(p_or_number text)
+returns setof public.receipts
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.receipts where or_number = p_or_number;
+$$;
+
+grant execute on function public.lookup_receipt(text) to anon, authenticated;
+
+comment on function public.lookup_registration_status(text, text) is
+  'Status page lookup. Anonymous callers cannot read registrations directly (row level security), so this returns only the status columns, and only when the phone number matches.';
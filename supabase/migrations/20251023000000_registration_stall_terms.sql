@@ -0,0 +1,32 @@
+-- The requested stall's name, type and rent are copied from the stall, not taken from the
+-- applicant's request, so an application cannot name its own rent.
+create or replace function public.submit_registration(p_registration jsonb)
+returns setof public.registrations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  submitted public.registrations := jsonb_populate_record(null::public.registrations, p_registration);
+  requested public.stalls;
+begin
+  select * into requested from public.stalls where id = submitted.requested_stall_id;
+  if not found then
+    raise exception 'Stall stall-% not found', submitted.requested_stall_id;
+  end if;
+
+  return query
+    insert into public.registrations (
+      registration_id, first_name, last_name, phone, street, barangay, municipality, province,
+      requested_stall_id, stall_name, stall_type, monthly_rent, documents, missing_requirements, stall_holder
+    )
+    values (
+      submitted.registration_id, submitted.first_name, submitted.last_name, submitted.phone,
+      submitted.street, coalesce(submitted.barangay, ''), coalesce(submitted.municipality, ''),
+      coalesce(submitted.province, ''), requested.id, requested.name, requested.type, requested.monthly_rent,
+      coalesce(submitted.documents, '[]'::jsonb), coalesce(submitted.missing_requirements, '{}'),
+      coalesce(submitted.stall_holder, '')
+    )
+    returning *;
+end;
+$$;
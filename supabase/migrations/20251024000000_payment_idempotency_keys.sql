@@ -0,0 +1,9 @@
+-- Each payment carries a key chosen by the device that took it. A payment queued offline may
+-- already have reached the server before the connection dropped; when it is sent again the key
+-- finds the saved row instead of adding a second payment.
+alter table public.payments
+  add column if not exists idempotency_key text not null default '';
+
+create unique index if not exists payments_idempotency_key_idx
+  on public.payments (idempotency_key)
+  where idempotency_key <> '';
@@ -0,0 +1,18 @@
+-- A waiver forgives a surcharge owed by one tenant. Recording who that was keeps it from
+-- cancelling the next tenant's surcharge on the same month. Existing waivers go to the tenant
+-- who occupied the stall when the waiver was approved.
+alter table public.penalty_waivers
+  add column if not exists vendor text not null default '';
+
+update public.penalty_waivers w
+   set vendor = coalesce(
+         (select t.vendor
+            from public.stall_tenancies t
+           where t.stall_id = w.stall_id
+             and t.vacated_on >= to_char(w.created_at, 'YYYY-MM-DD')
+           order by t.vacated_on, t.id
+           limit 1),
+         s.vendor)
+  from public.stalls s
+ where s.id = w.stall_id
+   and w.vendor = '';